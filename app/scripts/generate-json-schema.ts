@@ -0,0 +1,13 @@
+/**
+ * @fileoverview Writes schema/agent-file.schema.json from the Zod schemas
+ *
+ * Run with `npm run generate:schema` after changing src/schema.ts.
+ */
+
+import { writeFileSync } from 'fs';
+import { join } from 'path';
+import { afAgentJsonSchema } from '../src/jsonschema';
+
+const outputPath = join(__dirname, '..', 'schema', 'agent-file.schema.json');
+writeFileSync(outputPath, `${JSON.stringify(afAgentJsonSchema, null, 2)}\n`);
+console.log(`Wrote ${outputPath}`);
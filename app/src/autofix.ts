@@ -0,0 +1,238 @@
+/**
+ * @fileoverview Automatic fixes for common .af (Agent File) issues
+ *
+ * Every change made to the input is recorded as an `AppliedFix` so callers
+ * can audit what the parser invented, and each fix belongs to a category
+ * that can be individually allowed or refused.
+ *
+ * @module @mastra/portability-af-letta
+ */
+
+import { formatJsonPointer } from './pointer';
+import { SUPPORTED_AF_VERSION } from './version';
+
+/**
+ * Groups of related fixes that can be enabled independently
+ *
+ * - `timestamps`: fill in missing `created_at`, `updated_at` and message timestamps
+ * - `version`: default a missing `version`
+ * - `core_memory`: replace missing core memory with default persona/human blocks
+ * - `collections`: initialize missing `messages` and `tools` arrays
+ * - `tool_parameters`: add missing `type` and `properties` to tool parameters
+ */
+export type AutoFixCategory =
+  | 'timestamps'
+  | 'version'
+  | 'core_memory'
+  | 'collections'
+  | 'tool_parameters';
+
+/**
+ * Reason code describing why a fix was applied
+ */
+export type AutoFixReason =
+  | 'missing_created_at'
+  | 'missing_updated_at'
+  | 'missing_version'
+  | 'invalid_core_memory'
+  | 'missing_messages'
+  | 'missing_tools'
+  | 'missing_message_timestamp'
+  | 'missing_parameters_type'
+  | 'missing_parameters_properties';
+
+/**
+ * A single change made by auto-fix
+ */
+export interface AppliedFix {
+  /**
+   * JSON Pointer (RFC 6901) to the fixed value, e.g. "/messages/3/timestamp"
+   */
+  path: string;
+
+  /**
+   * Category the fix belongs to
+   */
+  category: AutoFixCategory;
+
+  /**
+   * Why the fix was applied
+   */
+  reason: AutoFixReason;
+
+  /**
+   * Value before the fix (undefined when the field was missing)
+   */
+  originalValue: unknown;
+
+  /**
+   * Value written by the fix
+   */
+  newValue: unknown;
+}
+
+/**
+ * All auto-fix categories, in the order they are applied
+ */
+export const AUTO_FIX_CATEGORIES: readonly AutoFixCategory[] = [
+  'timestamps',
+  'version',
+  'core_memory',
+  'collections',
+  'tool_parameters',
+];
+
+/**
+ * Resolve the `autoFix` parse option into a list of allowed categories
+ *
+ * @param autoFix - `true` for all categories, `false` for none, or an explicit list
+ * @returns Allowed categories
+ */
+export function resolveAutoFixCategories(
+  autoFix: boolean | readonly AutoFixCategory[]
+): readonly AutoFixCategory[] {
+  if (autoFix === true) {
+    return AUTO_FIX_CATEGORIES;
+  }
+  return autoFix === false ? [] : autoFix;
+}
+
+/**
+ * Result of applying auto-fixes
+ */
+export interface AutoFixResult {
+  data: unknown;
+  fixes: AppliedFix[];
+}
+
+/**
+ * Apply automatic fixes for common issues
+ *
+ * The input is never mutated.
+ *
+ * @param data - Data to fix
+ * @param categories - Fix categories to allow (default: all)
+ * @returns Fixed data and the list of applied fixes
+ *
+ * @example
+ * ```typescript
+ * const { data, fixes } = applyAutoFixes(raw, ['timestamps', 'version']);
+ * fixes.forEach((fix) => console.log(`${fix.reason} at ${fix.path}`));
+ * ```
+ */
+export function applyAutoFixes(
+  data: unknown,
+  categories: readonly AutoFixCategory[] = AUTO_FIX_CATEGORIES
+): AutoFixResult {
+  const fixes: AppliedFix[] = [];
+
+  if (!data || typeof data !== 'object') {
+    return { data, fixes };
+  }
+
+  const allowed = new Set(categories);
+  const fixed = { ...data } as any;
+
+  const record = (
+    segments: Array<string | number>,
+    category: AutoFixCategory,
+    reason: AutoFixReason,
+    originalValue: unknown,
+    newValue: unknown
+  ) => {
+    fixes.push({
+      path: formatJsonPointer(segments),
+      category,
+      reason,
+      originalValue,
+      newValue,
+    });
+  };
+
+  // Fix missing timestamps by using current time
+  const now = new Date().toISOString();
+  if (allowed.has('timestamps')) {
+    if (!fixed.created_at) {
+      record(['created_at'], 'timestamps', 'missing_created_at', fixed.created_at, now);
+      fixed.created_at = now;
+    }
+    if (!fixed.updated_at) {
+      record(['updated_at'], 'timestamps', 'missing_updated_at', fixed.updated_at, now);
+      fixed.updated_at = now;
+    }
+  }
+
+  // Fix missing version
+  if (allowed.has('version') && !fixed.version) {
+    record(['version'], 'version', 'missing_version', fixed.version, SUPPORTED_AF_VERSION);
+    fixed.version = SUPPORTED_AF_VERSION;
+  }
+
+  // Ensure core_memory is an object (not array)
+  if (
+    allowed.has('core_memory') &&
+    (!fixed.core_memory || typeof fixed.core_memory !== 'object' || Array.isArray(fixed.core_memory))
+  ) {
+    const defaults = {
+      persona: {
+        label: 'persona',
+        value: 'I am a helpful AI assistant.',
+        character_limit: 2000
+      },
+      human: {
+        label: 'human',
+        value: 'The user needs assistance.',
+        character_limit: 2000
+      }
+    };
+    record(['core_memory'], 'core_memory', 'invalid_core_memory', fixed.core_memory, defaults);
+    fixed.core_memory = defaults;
+  }
+
+  if (allowed.has('collections')) {
+    if (!Array.isArray(fixed.messages)) {
+      record(['messages'], 'collections', 'missing_messages', fixed.messages, []);
+      fixed.messages = [];
+    }
+    if (!Array.isArray(fixed.tools)) {
+      record(['tools'], 'collections', 'missing_tools', fixed.tools, []);
+      fixed.tools = [];
+    }
+  }
+
+  // Fix message timestamps
+  if (allowed.has('timestamps') && Array.isArray(fixed.messages)) {
+    fixed.messages = fixed.messages.map((msg: any, index: number) => {
+      if (msg && typeof msg === 'object' && !msg.timestamp) {
+        // Generate timestamp based on position
+        const msgTime = new Date(now);
+        msgTime.setMinutes(msgTime.getMinutes() - (fixed.messages.length - index));
+        const timestamp = msgTime.toISOString();
+        record(['messages', index, 'timestamp'], 'timestamps', 'missing_message_timestamp', msg.timestamp, timestamp);
+        return { ...msg, timestamp };
+      }
+      return msg;
+    });
+  }
+
+  // Ensure tool parameters have correct structure
+  if (allowed.has('tool_parameters') && Array.isArray(fixed.tools)) {
+    fixed.tools = fixed.tools.map((tool: any, index: number) => {
+      if (!tool || !tool.parameters || typeof tool.parameters !== 'object') {
+        return tool;
+      }
+      const parameters = { ...tool.parameters };
+      if (!parameters.type) {
+        record(['tools', index, 'parameters', 'type'], 'tool_parameters', 'missing_parameters_type', parameters.type, 'object');
+        parameters.type = 'object';
+      }
+      if (!parameters.properties) {
+        record(['tools', index, 'parameters', 'properties'], 'tool_parameters', 'missing_parameters_properties', parameters.properties, {});
+        parameters.properties = {};
+      }
+      return { ...tool, parameters };
+    });
+  }
+
+  return { data: fixed, fixes };
+}
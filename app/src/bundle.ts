@@ -0,0 +1,288 @@
+/**
+ * @fileoverview Agent bundle format with externalized tool sources and messages
+ *
+ * A bundle is a directory layout that keeps an agent reviewable in git:
+ *
+ * ```
+ * agent.json          manifest: the agent without messages or tool sources
+ * tools/<name>.py     python tool source
+ * tools/<name>.js     javascript tool source
+ * messages.ndjson     one message per line
+ * ```
+ *
+ * Bundles are represented in memory as a map of relative paths to file
+ * contents, so they can be written to disk, stored in an archive or kept
+ * in a database without this package choosing the storage.
+ *
+ * @module @mastra/portability-af-letta
+ */
+
+import { z } from 'zod';
+import { AgentFileParseError } from './errors';
+import { parseAgentFileObject } from './parser';
+import type { AfAgentSchema, AfMessage, AfTool, ToolType } from './types';
+
+/**
+ * Files in an agent bundle, keyed by path relative to the bundle root
+ */
+export type AgentBundleFiles = Record<string, string>;
+
+/**
+ * Current bundle layout version
+ */
+export const AGENT_BUNDLE_VERSION = '1.0';
+
+/**
+ * Name of the bundle manifest file
+ */
+export const AGENT_BUNDLE_MANIFEST = 'agent.json';
+
+/**
+ * Default name of the message history file
+ */
+const MESSAGES_FILE = 'messages.ndjson';
+
+/**
+ * Directory holding externalized tool sources
+ */
+const TOOLS_DIR = 'tools';
+
+/**
+ * File extension for each tool type's source
+ */
+const TOOL_SOURCE_EXTENSIONS: Record<ToolType, string> = {
+  python: '.py',
+  javascript: '.js',
+  json_schema: '.txt',
+};
+
+/**
+ * Bundled tool: the tool definition with its source moved to a file
+ */
+const bundledToolSchema = z
+  .object({
+    source_file: z.string().min(1, 'Source file path is required').optional(),
+  })
+  .passthrough();
+
+/**
+ * Bundle manifest schema (contents of agent.json)
+ */
+export const agentBundleManifestSchema = z
+  .object({
+    bundle_version: z.string().min(1, 'Bundle version is required'),
+    agent: z
+      .object({
+        tools: z.array(bundledToolSchema),
+      })
+      .passthrough(),
+    messages_file: z.string().min(1).optional(),
+  })
+  .describe('Agent bundle manifest');
+
+/**
+ * Tool as stored in a bundle manifest, with its source moved to a file
+ */
+export type BundledTool = AfTool & {
+  /**
+   * Bundle path of the tool's source code
+   */
+  source_file?: string;
+};
+
+/**
+ * Contents of a bundle manifest (agent.json)
+ */
+export interface AgentBundleManifest {
+  bundle_version: string;
+  agent: Omit<AfAgentSchema, 'messages' | 'tools'> & {
+    messages?: AfMessage[];
+    tools: BundledTool[];
+  };
+  messages_file?: string;
+}
+
+/**
+ * Options for packing agent bundles
+ */
+export interface PackBundleOptions {
+  /**
+   * Whether to write messages to a separate NDJSON file
+   *
+   * When false, messages stay inline in the manifest.
+   * @default true
+   */
+  externalizeMessages?: boolean;
+
+  /**
+   * Whether to pretty-print the manifest
+   * @default true
+   */
+  pretty?: boolean;
+}
+
+/**
+ * Turn a tool name into a safe, unique file name
+ */
+function toolSourcePath(tool: AfTool, used: Set<string>): string {
+  const base = tool.name.replace(/[^A-Za-z0-9_.-]/g, '_') || 'tool';
+  const extension = TOOL_SOURCE_EXTENSIONS[tool.type];
+
+  let path = `${TOOLS_DIR}/${base}${extension}`;
+  for (let suffix = 2; used.has(path); suffix++) {
+    path = `${TOOLS_DIR}/${base}_${suffix}${extension}`;
+  }
+  used.add(path);
+  return path;
+}
+
+/**
+ * Pack an agent into a bundle
+ *
+ * The agent is validated first, so only schema-conforming agents are bundled.
+ *
+ * @param agent - Agent to pack
+ * @param options - Packing options
+ * @returns Bundle files keyed by relative path
+ * @throws {AgentFileParseError} If the agent is invalid
+ *
+ * @example
+ * ```typescript
+ * const files = packAgentBundle(agent);
+ * for (const [path, content] of Object.entries(files)) {
+ *   await fs.outputFile(join('my-agent', path), content);
+ * }
+ * ```
+ */
+export function packAgentBundle(
+  agent: AfAgentSchema,
+  options: PackBundleOptions = {}
+): AgentBundleFiles {
+  const { externalizeMessages = true, pretty = true } = options;
+  const validated = parseAgentFileObject(agent, { autoFix: false });
+
+  const files: AgentBundleFiles = {};
+  const usedPaths = new Set<string>();
+
+  const tools = validated.tools.map((tool): BundledTool => {
+    if (tool.source_code === undefined) {
+      return tool;
+    }
+    const { source_code, ...rest } = tool;
+    const sourceFile = toolSourcePath(tool, usedPaths);
+    files[sourceFile] = source_code;
+    return { ...rest, source_file: sourceFile };
+  });
+
+  const { messages, ...rest } = validated;
+  const manifest: AgentBundleManifest = {
+    bundle_version: AGENT_BUNDLE_VERSION,
+    agent: externalizeMessages ? { ...rest, tools } : { ...rest, messages, tools },
+  };
+
+  if (externalizeMessages) {
+    manifest.messages_file = MESSAGES_FILE;
+    files[MESSAGES_FILE] = messages.map((message) => `${JSON.stringify(message)}\n`).join('');
+  }
+
+  files[AGENT_BUNDLE_MANIFEST] = pretty
+    ? `${JSON.stringify(manifest, null, 2)}\n`
+    : JSON.stringify(manifest);
+
+  return files;
+}
+
+/**
+ * Read a bundle file, failing with a descriptive error if it is missing
+ */
+function readBundleFile(files: AgentBundleFiles, path: string, referencedBy: string): string {
+  const content = files[path];
+  if (content === undefined) {
+    throw new AgentFileParseError(`Bundle file not found: ${path} (referenced by ${referencedBy})`);
+  }
+  return content;
+}
+
+/**
+ * Parse an NDJSON message history
+ */
+function parseMessagesFile(content: string, path: string): AfMessage[] {
+  const messages: AfMessage[] = [];
+  content.split('\n').forEach((line, index) => {
+    if (line.trim() === '') {
+      return;
+    }
+    try {
+      messages.push(JSON.parse(line));
+    } catch (error) {
+      throw new AgentFileParseError(`Invalid JSON in ${path} at line ${index + 1}`, {
+        cause: error as Error,
+      });
+    }
+  });
+  return messages;
+}
+
+/**
+ * Unpack a bundle into an agent
+ *
+ * Tool sources and messages are read back from their files and the result
+ * is validated against the agent schema.
+ *
+ * @param files - Bundle files keyed by relative path
+ * @returns Validated agent
+ * @throws {AgentFileParseError} If files are missing or the agent is invalid
+ *
+ * @example
+ * ```typescript
+ * const agent = unpackAgentBundle({
+ *   'agent.json': await fs.readFile('my-agent/agent.json', 'utf-8'),
+ *   'messages.ndjson': await fs.readFile('my-agent/messages.ndjson', 'utf-8'),
+ *   'tools/calculator.py': await fs.readFile('my-agent/tools/calculator.py', 'utf-8'),
+ * });
+ * ```
+ */
+export function unpackAgentBundle(files: AgentBundleFiles): AfAgentSchema {
+  let rawManifest: unknown;
+  try {
+    rawManifest = JSON.parse(readBundleFile(files, AGENT_BUNDLE_MANIFEST, 'bundle root'));
+  } catch (error) {
+    if (error instanceof AgentFileParseError) {
+      throw error;
+    }
+    throw new AgentFileParseError(`Invalid JSON format in ${AGENT_BUNDLE_MANIFEST}`, {
+      cause: error as Error,
+    });
+  }
+
+  const result = agentBundleManifestSchema.safeParse(rawManifest);
+  if (!result.success) {
+    throw new AgentFileParseError('Bundle manifest validation failed', {
+      validationErrors: result.error.errors.map((err) => ({
+        path: err.path.join('.'),
+        message: err.message,
+        code: err.code,
+      })),
+    });
+  }
+  const manifest = result.data;
+
+  const tools = manifest.agent.tools.map((tool, index) => {
+    const { source_file, ...rest } = tool;
+    if (source_file === undefined) {
+      return rest;
+    }
+    return {
+      ...rest,
+      source_code: readBundleFile(files, source_file, `agent.tools.${index}.source_file`),
+    };
+  });
+
+  const agent: Record<string, unknown> = { ...manifest.agent, tools };
+  if (manifest.messages_file !== undefined) {
+    const content = readBundleFile(files, manifest.messages_file, 'messages_file');
+    agent.messages = parseMessagesFile(content, manifest.messages_file);
+  }
+
+  return parseAgentFileObject(agent, { autoFix: false });
+}
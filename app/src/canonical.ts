@@ -0,0 +1,197 @@
+/**
+ * @fileoverview Canonical serialization for .af (Agent File) documents
+ *
+ * `JSON.stringify` emits keys in insertion order, so two equal agents can
+ * serialize differently depending on how they were built. The canonical
+ * form fixes the key order of every schema type to the order of its Zod
+ * schema, sorts keys of free-form objects, and always uses the same
+ * indentation, so equal agents produce byte-identical files.
+ *
+ * @module @mastra/portability-af-letta
+ */
+
+import { z } from 'zod';
+import {
+  afAgentSchema,
+  llmConfigSchema,
+  embeddingConfigSchema,
+  coreMemoryBlockSchema,
+  messageSchema,
+  toolCallSchema,
+  toolResultSchema,
+  toolSchema,
+  toolParametersSchema,
+  toolRuleSchema,
+} from './schema';
+import type { AfAgentSchema } from './types';
+
+/**
+ * Options for canonical serialization
+ */
+export interface CanonicalSerializeOptions {
+  /**
+   * Whether to pretty-print with two-space indentation and a trailing newline
+   * @default true
+   */
+  pretty?: boolean;
+}
+
+/**
+ * How the keys of a value are ordered
+ *
+ * Objects list their schema keys in order; keys not in the schema follow,
+ * sorted. Records map arbitrary keys to values of one layout. Values
+ * without a layout are free-form and have their keys sorted recursively.
+ */
+type Layout =
+  | { kind: 'object'; keys: readonly string[]; fields?: Record<string, Layout> }
+  | { kind: 'array'; items: Layout }
+  | { kind: 'record'; values?: Layout; preserveOrder?: boolean };
+
+/**
+ * List the keys of an object schema in declaration order, unwrapping refinements
+ */
+function shapeKeys(schema: z.ZodTypeAny): string[] {
+  let current = schema;
+  while (current instanceof z.ZodEffects) {
+    current = current.innerType();
+  }
+  if (!(current instanceof z.ZodObject)) {
+    throw new Error('Expected an object schema');
+  }
+  return Object.keys(current.shape);
+}
+
+function objectLayout(schema: z.ZodTypeAny, fields?: Record<string, Layout>): Layout {
+  return { kind: 'object', keys: shapeKeys(schema), fields };
+}
+
+function arrayLayout(items: Layout): Layout {
+  return { kind: 'array', items };
+}
+
+/**
+ * Message history keys, moved to the end of the document so that header
+ * readers and streaming parsers see every other field before the messages
+ */
+const TRAILING_AGENT_KEYS = ['in_context_message_indices', 'messages'];
+
+const AGENT_LAYOUT: Layout = {
+  kind: 'object',
+  keys: [
+    ...shapeKeys(afAgentSchema).filter((key) => !TRAILING_AGENT_KEYS.includes(key)),
+    ...TRAILING_AGENT_KEYS,
+  ],
+  fields: {
+    llm_config: objectLayout(llmConfigSchema),
+    embedding_config: objectLayout(embeddingConfigSchema),
+    core_memory: { kind: 'record', values: objectLayout(coreMemoryBlockSchema) },
+    messages: arrayLayout(
+      objectLayout(messageSchema, {
+        tool_calls: arrayLayout(objectLayout(toolCallSchema)),
+        tool_results: arrayLayout(objectLayout(toolResultSchema)),
+      })
+    ),
+    tools: arrayLayout(
+      objectLayout(toolSchema, {
+        // Parameter order mirrors the function signature, so it is kept
+        parameters: objectLayout(toolParametersSchema, {
+          properties: { kind: 'record', preserveOrder: true },
+        }),
+      })
+    ),
+    tool_rules: arrayLayout(objectLayout(toolRuleSchema)),
+  },
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Compare strings by UTF-16 code units, independent of locale
+ */
+function compareKeys(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Rebuild a value with its keys in canonical order
+ */
+function canonicalize(value: unknown, layout?: Layout): unknown {
+  if (value && typeof (value as { toJSON?: unknown }).toJSON === 'function') {
+    return canonicalize((value as { toJSON(): unknown }).toJSON(), layout);
+  }
+
+  if (Array.isArray(value)) {
+    const items = layout?.kind === 'array' ? layout.items : undefined;
+    return value.map((item) => canonicalize(item, items));
+  }
+
+  if (!isPlainObject(value)) {
+    return value;
+  }
+
+  let keys: string[];
+  if (layout?.kind === 'object') {
+    const known = new Set(layout.keys);
+    keys = [
+      ...layout.keys.filter((key) => key in value),
+      ...Object.keys(value).filter((key) => !known.has(key)).sort(compareKeys),
+    ];
+  } else if (layout?.kind === 'record' && layout.preserveOrder) {
+    keys = Object.keys(value);
+  } else {
+    keys = Object.keys(value).sort(compareKeys);
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const key of keys) {
+    if (value[key] === undefined) {
+      continue;
+    }
+    const child =
+      layout?.kind === 'object'
+        ? layout.fields?.[key]
+        : layout?.kind === 'record'
+          ? layout.values
+          : undefined;
+    result[key] = canonicalize(value[key], child);
+  }
+  return result;
+}
+
+/**
+ * Return a copy of an agent with all keys in canonical order
+ *
+ * @param agent - Agent to canonicalize
+ * @returns Agent whose insertion order matches the canonical serialization
+ */
+export function canonicalizeAgentFile(agent: AfAgentSchema): AfAgentSchema {
+  return canonicalize(agent, AGENT_LAYOUT) as AfAgentSchema;
+}
+
+/**
+ * Serialize an agent to canonical JSON
+ *
+ * Keys of every schema type follow the schema's declaration order, with the
+ * message history last; unknown and free-form keys are sorted. Equal agents
+ * always serialize to identical bytes.
+ *
+ * @param agent - Agent to serialize
+ * @param options - Serialization options
+ * @returns Canonical JSON string
+ *
+ * @example
+ * ```typescript
+ * await fs.writeFile('agent.af', serializeAgentFile(agent));
+ * ```
+ */
+export function serializeAgentFile(
+  agent: AfAgentSchema,
+  options: CanonicalSerializeOptions = {}
+): string {
+  const { pretty = true } = options;
+  const canonical = canonicalizeAgentFile(agent);
+  return pretty ? `${JSON.stringify(canonical, null, 2)}\n` : JSON.stringify(canonical);
+}
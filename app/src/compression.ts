@@ -0,0 +1,92 @@
+/**
+ * @fileoverview Gzip support for compressed .af (Agent File) documents
+ *
+ * Agent files with long histories compress well and are commonly stored as
+ * `.af.gz`. Binary input is sniffed for the gzip magic bytes and inflated
+ * before parsing, with the size limit applied to the decompressed output.
+ *
+ * @module @mastra/portability-af-letta
+ */
+
+import { gunzipSync, gzipSync } from 'zlib';
+import { AgentFileParseError } from './errors';
+
+/**
+ * Input accepted by the parse functions: JSON text or raw (possibly gzipped) bytes
+ */
+export type AgentFileInput = string | Uint8Array;
+
+/**
+ * Options for compressing agent files
+ */
+export interface CompressOptions {
+  /**
+   * Gzip compression level (0-9)
+   * @default 9
+   */
+  level?: number;
+}
+
+/**
+ * Check whether bytes start with the gzip magic number (1f 8b)
+ *
+ * @param bytes - Raw file contents
+ * @returns True if the data is gzip-compressed
+ */
+export function isGzipCompressed(bytes: Uint8Array): boolean {
+  return bytes.length >= 2 && bytes[0] === 0x1f && bytes[1] === 0x8b;
+}
+
+/**
+ * Decode parse input to JSON text, inflating gzip data transparently
+ *
+ * @param input - JSON string or raw bytes
+ * @param maxSize - Maximum decoded size in bytes
+ * @returns JSON text
+ * @throws {AgentFileParseError} If the data is too large or corrupt
+ */
+export function decodeAgentFileInput(input: AgentFileInput, maxSize: number): string {
+  if (typeof input === 'string') {
+    return input;
+  }
+
+  let bytes = input;
+  if (isGzipCompressed(bytes)) {
+    try {
+      // Bounding the output guards against decompression bombs
+      bytes = gunzipSync(bytes, { maxOutputLength: maxSize });
+    } catch (error) {
+      if (error instanceof RangeError) {
+        throw new AgentFileParseError(
+          `Agent file too large: decompressed size exceeds ${maxSize} bytes`,
+          { cause: error }
+        );
+      }
+      throw new AgentFileParseError('Invalid gzip data', { cause: error as Error });
+    }
+  } else if (bytes.length > maxSize) {
+    throw new AgentFileParseError(
+      `Agent file too large: ${bytes.length} bytes (max: ${maxSize} bytes)`
+    );
+  }
+
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * Gzip-compress agent file content
+ *
+ * @param content - Agent file JSON text
+ * @param options - Compression options
+ * @returns Gzip-compressed bytes
+ *
+ * @example
+ * ```typescript
+ * const compressed = compressAgentFile(JSON.stringify(agent));
+ * await fs.writeFile('agent.af.gz', compressed);
+ * ```
+ */
+export function compressAgentFile(content: string, options: CompressOptions = {}): Uint8Array {
+  const { level = 9 } = options;
+  return gzipSync(content, { level });
+}
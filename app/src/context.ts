@@ -0,0 +1,312 @@
+/**
+ * @fileoverview Context window token budgeting for .af (Agent File) agents
+ *
+ * Estimates how many tokens an agent occupies in its model's context window
+ * once loaded: the system prompt, rendered core memory, the in-context
+ * messages and the tool schemas. Counting is delegated to a `Tokenizer`, so
+ * an exact tokenizer for the target model can replace the built-in heuristic.
+ *
+ * @module @mastra/portability-af-letta
+ */
+
+import type { AfAgentSchema, AfMessage, AfTool } from './types';
+
+/**
+ * Counts tokens in text
+ */
+export interface Tokenizer {
+  /**
+   * Name reported in usage estimates, e.g. "heuristic" or "cl100k_base"
+   */
+  name: string;
+
+  count(text: string): number;
+}
+
+/**
+ * Tokenizer that approximates BPE tokenizers without a vocabulary
+ *
+ * ASCII text averages about four characters per token; other scripts
+ * (CJK, emoji) are counted as one token per character. Estimates are
+ * usually within 10-20% of real tokenizers for English text.
+ */
+export const heuristicTokenizer: Tokenizer = {
+  name: 'heuristic',
+  count(text: string): number {
+    let ascii = 0;
+    let other = 0;
+    for (const char of text) {
+      if (char.charCodeAt(0) < 0x80) {
+        ascii++;
+      } else {
+        other++;
+      }
+    }
+    return Math.ceil(ascii / 4) + other;
+  },
+};
+
+/**
+ * Context window sizes in tokens for common models
+ *
+ * Model IDs are matched exactly first, then by the longest catalog entry
+ * they start with, so dated snapshots like "gpt-4o-2024-08-06" resolve too.
+ */
+export const MODEL_CONTEXT_WINDOWS: Readonly<Record<string, number>> = {
+  'gpt-3.5-turbo': 16385,
+  'gpt-4': 8192,
+  'gpt-4-32k': 32768,
+  'gpt-4-turbo': 128000,
+  'gpt-4o': 128000,
+  'gpt-4o-mini': 128000,
+  'gpt-4.1': 1047576,
+  'o1': 200000,
+  'o3': 200000,
+  'o3-mini': 200000,
+  'claude-2': 100000,
+  'claude-3-haiku': 200000,
+  'claude-3-sonnet': 200000,
+  'claude-3-opus': 200000,
+  'claude-3-5-haiku': 200000,
+  'claude-3-5-sonnet': 200000,
+  'claude-3-7-sonnet': 200000,
+  'gemini-1.5-flash': 1048576,
+  'gemini-1.5-pro': 2097152,
+  'llama-3-8b': 8192,
+  'llama-3-70b': 8192,
+  'llama-3.1-8b': 131072,
+  'llama-3.1-70b': 131072,
+};
+
+/**
+ * Tokens a chat format adds around each message (role markers, separators)
+ */
+export const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/**
+ * Where the context window size came from
+ */
+export type ContextWindowSource = 'option' | 'llm_config' | 'catalog' | 'unknown';
+
+/**
+ * Token counts per part of the context
+ */
+export interface ContextSections {
+  system: number;
+  core_memory: number;
+  messages: number;
+  tools: number;
+}
+
+/**
+ * Estimated context usage of an agent
+ */
+export interface ContextUsage {
+  /**
+   * Name of the tokenizer used
+   */
+  tokenizer: string;
+
+  sections: ContextSections;
+
+  /**
+   * Sum of all sections
+   */
+  total: number;
+
+  /**
+   * Number of messages counted in `sections.messages`
+   */
+  messageCount: number;
+
+  /**
+   * Context window size in tokens, if known
+   */
+  contextWindow?: number;
+
+  contextWindowSource: ContextWindowSource;
+
+  /**
+   * Tokens kept free for the model's response (`llm_config.max_tokens`)
+   */
+  reservedOutputTokens: number;
+
+  /**
+   * Tokens left after the prompt and the reserved output, negative on overflow
+   */
+  remaining?: number;
+
+  /**
+   * Whether the prompt and reserved output exceed the context window
+   */
+  overflow: boolean;
+}
+
+/**
+ * Options for estimating context usage
+ */
+export interface ContextUsageOptions {
+  /**
+   * Context window size to use instead of looking it up
+   */
+  contextWindow?: number;
+
+  /**
+   * Model catalog used when `llm_config` has no `context_window`
+   * @default MODEL_CONTEXT_WINDOWS
+   */
+  catalog?: Readonly<Record<string, number>>;
+
+  /**
+   * Tokens to keep free for the response
+   * @default llm_config.max_tokens ?? 0
+   */
+  reserveOutputTokens?: number;
+}
+
+/**
+ * Look up a model's context window in a catalog
+ *
+ * @param model - Model ID, e.g. "gpt-4o-2024-08-06"
+ * @param catalog - Context window sizes by model ID
+ * @returns Context window size, or undefined if the model is not listed
+ */
+export function lookupContextWindow(
+  model: string,
+  catalog: Readonly<Record<string, number>> = MODEL_CONTEXT_WINDOWS
+): number | undefined {
+  const id = model.toLowerCase().split('/').pop()!;
+  if (id in catalog) {
+    return catalog[id];
+  }
+  const prefix = Object.keys(catalog)
+    .filter((entry) => id.startsWith(`${entry}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix === undefined ? undefined : catalog[prefix];
+}
+
+/**
+ * Render core memory the way Letta places it in the prompt
+ */
+function renderCoreMemory(agent: AfAgentSchema): string {
+  return Object.values(agent.core_memory)
+    .map((block) => `<${block.label}>\n${block.value}\n</${block.label}>`)
+    .join('\n');
+}
+
+function renderMessage(message: AfMessage): string {
+  const parts = [message.role, message.text];
+  if (message.tool_calls?.length) {
+    const calls = message.tool_calls.map(({ id, name, arguments: args }) => ({
+      id,
+      name,
+      arguments: args,
+    }));
+    parts.push(JSON.stringify(calls));
+  }
+  if (message.tool_results?.length) {
+    const results = message.tool_results.map(({ id, name, result, error }) => ({
+      id,
+      name,
+      result,
+      error,
+    }));
+    parts.push(JSON.stringify(results));
+  }
+  return parts.join('\n');
+}
+
+/**
+ * Render a tool the way function-calling APIs receive it
+ */
+function renderTool(tool: AfTool): string {
+  return JSON.stringify({
+    name: tool.name,
+    description: tool.description,
+    parameters: tool.parameters,
+  });
+}
+
+/**
+ * Messages the agent loads into context
+ */
+function inContextMessages(agent: AfAgentSchema): AfMessage[] {
+  if (!agent.in_context_message_indices) {
+    return agent.messages;
+  }
+  return agent.in_context_message_indices
+    .map((index) => agent.messages[index])
+    .filter((message): message is AfMessage => message !== undefined);
+}
+
+function resolveContextWindow(
+  agent: AfAgentSchema,
+  options: ContextUsageOptions
+): { contextWindow?: number; contextWindowSource: ContextWindowSource } {
+  if (options.contextWindow !== undefined) {
+    return { contextWindow: options.contextWindow, contextWindowSource: 'option' };
+  }
+  const configured = agent.llm_config.context_window;
+  if (typeof configured === 'number' && configured > 0) {
+    return { contextWindow: configured, contextWindowSource: 'llm_config' };
+  }
+  const cataloged = lookupContextWindow(agent.llm_config.model, options.catalog);
+  return cataloged === undefined
+    ? { contextWindowSource: 'unknown' }
+    : { contextWindow: cataloged, contextWindowSource: 'catalog' };
+}
+
+/**
+ * Estimate how much of its model's context window an agent uses
+ *
+ * Counts the system prompt, core memory, the messages listed in
+ * `in_context_message_indices` (all messages when absent) and the tool
+ * schemas. The context window comes from `options.contextWindow`, then
+ * `llm_config.context_window`, then the model catalog.
+ *
+ * @param agent - Agent to estimate
+ * @param tokenizer - Tokenizer for the target model
+ * @param options - Context window and output reservation
+ * @returns Per-section token counts and the comparison with the context window
+ *
+ * @example
+ * ```typescript
+ * const usage = estimateContextUsage(agent);
+ * if (usage.overflow) {
+ *   throw new Error(`Agent needs ${usage.total} tokens; ${usage.contextWindow} available`);
+ * }
+ * ```
+ */
+export function estimateContextUsage(
+  agent: AfAgentSchema,
+  tokenizer: Tokenizer = heuristicTokenizer,
+  options: ContextUsageOptions = {}
+): ContextUsage {
+  const messages = inContextMessages(agent);
+  const sections: ContextSections = {
+    system: tokenizer.count(agent.system),
+    core_memory: tokenizer.count(renderCoreMemory(agent)),
+    messages: messages.reduce(
+      (sum, message) => sum + tokenizer.count(renderMessage(message)) + MESSAGE_OVERHEAD_TOKENS,
+      0
+    ),
+    tools: agent.tools.reduce((sum, tool) => sum + tokenizer.count(renderTool(tool)), 0),
+  };
+  const total = sections.system + sections.core_memory + sections.messages + sections.tools;
+  const reservedOutputTokens = options.reserveOutputTokens ?? agent.llm_config.max_tokens ?? 0;
+  const { contextWindow, contextWindowSource } = resolveContextWindow(agent, options);
+  const remaining =
+    contextWindow === undefined ? undefined : contextWindow - total - reservedOutputTokens;
+
+  return {
+    tokenizer: tokenizer.name,
+    sections,
+    total,
+    messageCount: messages.length,
+    contextWindow,
+    contextWindowSource,
+    reservedOutputTokens,
+    remaining,
+    overflow: remaining !== undefined && remaining < 0,
+  };
+}
@@ -0,0 +1,671 @@
+/**
+ * @fileoverview Semantic diff between two .af (Agent File) agents
+ *
+ * Plain JSON diffs of agent files are noisy: messages shift, and tool
+ * parameter objects reorder without changing meaning. This diff compares
+ * agents section by section instead, matching memory blocks by label, tools
+ * by name, tool rules by tool and type, and messages by ID, and diffs long
+ * text (the system prompt, memory values, message text) line by line.
+ *
+ * @module @mastra/portability-af-letta
+ */
+
+import type { AfAgentSchema, AfCoreMemoryBlock, AfMessage, AfTool, AfToolRule } from './types';
+
+/**
+ * One line of a text diff
+ */
+export interface DiffLine {
+  kind: 'context' | 'added' | 'removed';
+  text: string;
+}
+
+/**
+ * A group of nearby line changes, as in a unified diff
+ */
+export interface TextHunk {
+  /**
+   * 1-based first line in the old text
+   */
+  oldStart: number;
+  oldLines: number;
+
+  /**
+   * 1-based first line in the new text
+   */
+  newStart: number;
+  newLines: number;
+
+  lines: DiffLine[];
+}
+
+/**
+ * A changed value, addressed by a dotted path relative to its section
+ */
+export interface ValueChange {
+  path: string;
+  kind: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * A memory block added, removed or edited, matched by label
+ */
+export interface MemoryBlockChange {
+  label: string;
+  kind: 'added' | 'removed' | 'edited';
+
+  /**
+   * Line changes to the block's value
+   */
+  hunks: TextHunk[];
+
+  /**
+   * Changes to other block fields, e.g. `character_limit`
+   */
+  changes: ValueChange[];
+}
+
+/**
+ * A tool added, removed or changed, matched by name
+ */
+export interface ToolChange {
+  name: string;
+  kind: 'added' | 'removed' | 'changed';
+
+  /**
+   * Changed fields, e.g. "parameters.properties.query.type"
+   */
+  changes: ValueChange[];
+}
+
+/**
+ * A tool rule added, removed or changed, matched by tool name and rule type
+ */
+export interface ToolRuleChange {
+  tool_name: string;
+  rule_type: string;
+  kind: 'added' | 'removed' | 'changed';
+  before?: string;
+  after?: string;
+}
+
+/**
+ * A message change, matched by ID
+ *
+ * - `appended`: new message after every message both agents share
+ * - `inserted`: new message before a shared message
+ * - `removed`: message only in the old agent
+ * - `rewritten`: message in both agents with different content
+ */
+export interface MessageChange {
+  id: string;
+  kind: 'appended' | 'inserted' | 'removed' | 'rewritten';
+  role: string;
+
+  /**
+   * Position in the new agent, or in the old agent for removed messages
+   */
+  index: number;
+
+  /**
+   * Line changes to the message text
+   */
+  hunks: TextHunk[];
+
+  /**
+   * Changes to other message fields, e.g. `tool_calls.0.arguments.query`
+   */
+  changes: ValueChange[];
+}
+
+/**
+ * Changes between two agents, by section
+ */
+export interface AgentDiff {
+  /**
+   * Whether the agents are semantically equal
+   */
+  identical: boolean;
+
+  system: TextHunk[];
+  llm_config: ValueChange[];
+  core_memory: MemoryBlockChange[];
+  tools: ToolChange[];
+  tool_rules: ToolRuleChange[];
+  messages: MessageChange[];
+
+  /**
+   * Changes to every other top-level field, e.g. `name` or `metadata_.owner`
+   */
+  fields: ValueChange[];
+}
+
+/**
+ * Options for diffing agents
+ */
+export interface DiffAgentFilesOptions {
+  /**
+   * Unchanged lines to show around each text change
+   * @default 3
+   */
+  contextLines?: number;
+}
+
+/**
+ * Top-level fields with their own section in the diff
+ */
+const SECTION_FIELDS = new Set([
+  'system',
+  'llm_config',
+  'core_memory',
+  'tools',
+  'tool_rules',
+  'messages',
+]);
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function joinPath(prefix: string, key: string | number): string {
+  return prefix ? `${prefix}.${key}` : String(key);
+}
+
+/**
+ * Compare JSON values, ignoring object key order
+ */
+function diffValues(before: unknown, after: unknown, path: string, changes: ValueChange[]): void {
+  if (before === undefined && after === undefined) {
+    return;
+  }
+  if (before === undefined) {
+    changes.push({ path, kind: 'added', after });
+    return;
+  }
+  if (after === undefined) {
+    changes.push({ path, kind: 'removed', before });
+    return;
+  }
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of keys) {
+      diffValues(before[key], after[key], joinPath(path, key), changes);
+    }
+    return;
+  }
+  if (Array.isArray(before) && Array.isArray(after)) {
+    for (let i = 0; i < Math.max(before.length, after.length); i++) {
+      diffValues(before[i], after[i], joinPath(path, i), changes);
+    }
+    return;
+  }
+  if (before !== after) {
+    changes.push({ path, kind: 'changed', before, after });
+  }
+}
+
+function valueChanges(before: unknown, after: unknown, path = ''): ValueChange[] {
+  const changes: ValueChange[] = [];
+  diffValues(before, after, path, changes);
+  return changes;
+}
+
+/**
+ * Largest LCS table built for a text diff, in cells (16MB of `Uint32Array`)
+ */
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Diff two texts line by line and group the changes into hunks
+ *
+ * When the changed middle of the texts is too large for an LCS table, it is
+ * reported as removed and re-added as a whole instead of line by line.
+ */
+function diffText(before: string, after: string, contextLines: number): TextHunk[] {
+  if (before === after) {
+    return [];
+  }
+  const toLines = (text: string) => (text === '' ? [] : text.split('\n'));
+  const a = toLines(before);
+  const b = toLines(after);
+
+  // Longest common subsequence of lines, skipping the shared prefix and suffix
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+  const n = a.length - prefix - suffix;
+  const m = b.length - prefix - suffix;
+  const lcs = n * m <= MAX_LCS_CELLS ? new Uint32Array((n + 1) * (m + 1)) : undefined;
+  for (let i = n - 1; lcs && i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * (m + 1) + j] =
+        a[prefix + i] === b[prefix + j]
+          ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const ops: Array<DiffLine & { oldLine: number; newLine: number }> = [];
+  for (let k = 0; k < prefix; k++) {
+    ops.push({ kind: 'context', text: a[k], oldLine: k, newLine: k });
+  }
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (lcs && i < n && j < m && a[prefix + i] === b[prefix + j]) {
+      ops.push({ kind: 'context', text: a[prefix + i], oldLine: prefix + i, newLine: prefix + j });
+      i++;
+      j++;
+    } else if (
+      i < n &&
+      (j === m || !lcs || lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1])
+    ) {
+      // Removals come first, as in unified diffs
+      ops.push({ kind: 'removed', text: a[prefix + i], oldLine: prefix + i, newLine: prefix + j });
+      i++;
+    } else {
+      ops.push({ kind: 'added', text: b[prefix + j], oldLine: prefix + i, newLine: prefix + j });
+      j++;
+    }
+  }
+  for (let k = 0; k < suffix; k++) {
+    ops.push({
+      kind: 'context',
+      text: a[a.length - suffix + k],
+      oldLine: a.length - suffix + k,
+      newLine: b.length - suffix + k,
+    });
+  }
+
+  // Group changes whose context would overlap
+  const hunks: TextHunk[] = [];
+  let start = -1;
+  let end = -1;
+  const flush = () => {
+    const lines = ops.slice(start, end + 1);
+    const oldLines = lines.filter((line) => line.kind !== 'added').length;
+    const newLines = lines.filter((line) => line.kind !== 'removed').length;
+    // Empty ranges start at the line they follow, as in unified diffs
+    hunks.push({
+      oldStart: lines[0].oldLine + (oldLines > 0 ? 1 : 0),
+      oldLines,
+      newStart: lines[0].newLine + (newLines > 0 ? 1 : 0),
+      newLines,
+      lines: lines.map(({ kind, text }) => ({ kind, text })),
+    });
+  };
+  ops.forEach((op, index) => {
+    if (op.kind === 'context') {
+      return;
+    }
+    const from = Math.max(0, index - contextLines);
+    if (start !== -1 && from > end + 1) {
+      flush();
+      start = -1;
+    }
+    if (start === -1) {
+      start = from;
+    }
+    end = Math.min(ops.length - 1, index + contextLines);
+  });
+  if (start !== -1) {
+    flush();
+  }
+  return hunks;
+}
+
+function memoryBlocks(agent: AfAgentSchema): Map<string, AfCoreMemoryBlock> {
+  // Blocks are keyed by label in files but listed in Mastra exports
+  const blocks = Object.values(agent.core_memory as Record<string, AfCoreMemoryBlock>);
+  return new Map(blocks.map((block) => [block.label, block]));
+}
+
+function diffMemory(
+  a: AfAgentSchema,
+  b: AfAgentSchema,
+  contextLines: number
+): MemoryBlockChange[] {
+  const before = memoryBlocks(a);
+  const after = memoryBlocks(b);
+  const changes: MemoryBlockChange[] = [];
+
+  for (const [label, block] of before) {
+    const next = after.get(label);
+    if (!next) {
+      changes.push({
+        label,
+        kind: 'removed',
+        hunks: diffText(block.value, '', contextLines),
+        changes: [],
+      });
+      continue;
+    }
+    const { value: oldValue, ...oldFields } = block;
+    const { value: newValue, ...newFields } = next;
+    const hunks = diffText(oldValue, newValue, contextLines);
+    const fieldChanges = valueChanges(oldFields, newFields);
+    if (hunks.length > 0 || fieldChanges.length > 0) {
+      changes.push({ label, kind: 'edited', hunks, changes: fieldChanges });
+    }
+  }
+  for (const [label, block] of after) {
+    if (!before.has(label)) {
+      changes.push({
+        label,
+        kind: 'added',
+        hunks: diffText('', block.value, contextLines),
+        changes: [],
+      });
+    }
+  }
+  return changes;
+}
+
+function diffTools(a: AfTool[], b: AfTool[]): ToolChange[] {
+  const before = new Map(a.map((tool) => [tool.name, tool]));
+  const after = new Map(b.map((tool) => [tool.name, tool]));
+  const changes: ToolChange[] = [];
+
+  for (const [name, tool] of before) {
+    const next = after.get(name);
+    if (!next) {
+      changes.push({ name, kind: 'removed', changes: [] });
+      continue;
+    }
+    const toolChanges = valueChanges(tool, next);
+    if (toolChanges.length > 0) {
+      changes.push({ name, kind: 'changed', changes: toolChanges });
+    }
+  }
+  for (const name of after.keys()) {
+    if (!before.has(name)) {
+      changes.push({ name, kind: 'added', changes: [] });
+    }
+  }
+  return changes;
+}
+
+function ruleKey(rule: AfToolRule): string {
+  return `${rule.tool_name}\u0000${rule.rule_type}`;
+}
+
+function diffToolRules(a: AfToolRule[] = [], b: AfToolRule[] = []): ToolRuleChange[] {
+  const before = new Map(a.map((rule) => [ruleKey(rule), rule]));
+  const after = new Map(b.map((rule) => [ruleKey(rule), rule]));
+  const changes: ToolRuleChange[] = [];
+
+  for (const [key, rule] of before) {
+    const { tool_name, rule_type } = rule;
+    const next = after.get(key);
+    if (!next) {
+      changes.push({ tool_name, rule_type, kind: 'removed', before: rule.rule_content });
+    } else if (next.rule_content !== rule.rule_content) {
+      changes.push({
+        tool_name,
+        rule_type,
+        kind: 'changed',
+        before: rule.rule_content,
+        after: next.rule_content,
+      });
+    }
+  }
+  for (const [key, rule] of after) {
+    if (!before.has(key)) {
+      const { tool_name, rule_type } = rule;
+      changes.push({ tool_name, rule_type, kind: 'added', after: rule.rule_content });
+    }
+  }
+  return changes;
+}
+
+function diffMessages(a: AfMessage[], b: AfMessage[], contextLines: number): MessageChange[] {
+  const before = new Map(a.map((message, index) => [message.id, { message, index }]));
+  const afterIds = new Set(b.map((message) => message.id));
+  const lastShared = b.reduce(
+    (last, message, index) => (before.has(message.id) ? index : last),
+    -1
+  );
+  const changes: MessageChange[] = [];
+
+  b.forEach((message, index) => {
+    const previous = before.get(message.id);
+    if (!previous) {
+      changes.push({
+        id: message.id,
+        kind: index > lastShared ? 'appended' : 'inserted',
+        role: message.role,
+        index,
+        hunks: [],
+        changes: [],
+      });
+      return;
+    }
+    const { text: oldText, ...oldFields } = previous.message;
+    const { text: newText, ...newFields } = message;
+    const hunks = diffText(oldText, newText, contextLines);
+    const fieldChanges = valueChanges(oldFields, newFields);
+    if (hunks.length > 0 || fieldChanges.length > 0) {
+      changes.push({
+        id: message.id,
+        kind: 'rewritten',
+        role: message.role,
+        index,
+        hunks,
+        changes: fieldChanges,
+      });
+    }
+  });
+  for (const [id, { message, index }] of before) {
+    if (!afterIds.has(id)) {
+      changes.push({ id, kind: 'removed', role: message.role, index, hunks: [], changes: [] });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Compare two agents section by section
+ *
+ * Object key order never counts as a change. Messages are matched by `id`,
+ * so inserting a message does not report every later message as changed.
+ *
+ * @param a - Old agent
+ * @param b - New agent
+ * @param options - Diff options
+ * @returns Typed change set
+ *
+ * @example
+ * ```typescript
+ * const diff = diffAgentFiles(parseAgentFile(oldJson), parseAgentFile(newJson));
+ * for (const tool of diff.tools) {
+ *   console.log(`${tool.name}: ${tool.kind}`);
+ * }
+ * ```
+ */
+export function diffAgentFiles(
+  a: AfAgentSchema,
+  b: AfAgentSchema,
+  options: DiffAgentFilesOptions = {}
+): AgentDiff {
+  const { contextLines = 3 } = options;
+
+  const otherFields = (agent: AfAgentSchema) =>
+    Object.fromEntries(Object.entries(agent).filter(([key]) => !SECTION_FIELDS.has(key)));
+
+  const diff: Omit<AgentDiff, 'identical'> = {
+    system: diffText(a.system, b.system, contextLines),
+    llm_config: valueChanges(a.llm_config, b.llm_config),
+    core_memory: diffMemory(a, b, contextLines),
+    tools: diffTools(a.tools, b.tools),
+    tool_rules: diffToolRules(a.tool_rules, b.tool_rules),
+    messages: diffMessages(a.messages, b.messages, contextLines),
+    fields: valueChanges(otherFields(a), otherFields(b)),
+  };
+  return {
+    identical: Object.values(diff).every((changes) => changes.length === 0),
+    ...diff,
+  };
+}
+
+/**
+ * Options for rendering a diff
+ */
+export interface FormatAgentDiffOptions {
+  /**
+   * Heading level of section titles
+   * @default 3
+   */
+  headingLevel?: number;
+
+  /**
+   * Maximum characters shown per value
+   * @default 80
+   */
+  maxValueLength?: number;
+}
+
+/**
+ * Length of the longest run of backticks in a text
+ */
+function longestBacktickRun(text: string): number {
+  return (text.match(/`+/g) ?? []).reduce((longest, run) => Math.max(longest, run.length), 0);
+}
+
+/**
+ * Markdown code span that cannot be closed early by backticks in the text
+ */
+function codeSpan(text: string): string {
+  const fence = '`'.repeat(longestBacktickRun(text) + 1);
+  // Spaces keep edge backticks apart from the fence, and are stripped when rendered
+  const padding = /^`|`$|^ .* $/.test(text) ? ' ' : '';
+  return `${fence}${padding}${text}${padding}${fence}`;
+}
+
+function formatHunks(hunks: TextHunk[]): string {
+  const body = hunks.flatMap((hunk) => [
+    `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`,
+    ...hunk.lines.map(
+      (line) => `${line.kind === 'added' ? '+' : line.kind === 'removed' ? '-' : ' '}${line.text}`
+    ),
+  ]);
+  // The fence must be longer than any backtick run inside the block
+  const fence = '`'.repeat(Math.max(3, longestBacktickRun(body.join('\n')) + 1));
+  return [`${fence}diff`, ...body, fence].join('\n');
+}
+
+/**
+ * Indent a block so it renders inside a list item
+ */
+function indent(text: string): string {
+  return text
+    .split('\n')
+    .map((line) => `  ${line}`)
+    .join('\n');
+}
+
+/**
+ * Render a diff as Markdown, e.g. for a code review comment
+ *
+ * @param diff - Diff from `diffAgentFiles`
+ * @param options - Rendering options
+ * @returns Markdown text, or "No changes." for identical agents
+ *
+ * @example
+ * ```typescript
+ * await github.issues.createComment({ body: formatAgentDiff(diffAgentFiles(base, head)) });
+ * ```
+ */
+export function formatAgentDiff(diff: AgentDiff, options: FormatAgentDiffOptions = {}): string {
+  const { headingLevel = 3, maxValueLength = 80 } = options;
+  if (diff.identical) {
+    return 'No changes.';
+  }
+
+  const code = (value: unknown) => {
+    const text = JSON.stringify(value) ?? 'undefined';
+    const shown = text.length > maxValueLength ? `${text.slice(0, maxValueLength - 1)}…` : text;
+    return codeSpan(shown);
+  };
+  const formatChange = (change: ValueChange) =>
+    change.kind === 'added'
+      ? `- ${codeSpan(change.path)} added: ${code(change.after)}`
+      : change.kind === 'removed'
+        ? `- ${codeSpan(change.path)} removed (was ${code(change.before)})`
+        : `- ${codeSpan(change.path)}: ${code(change.before)} → ${code(change.after)}`;
+  const formatChanges = (changes: ValueChange[]) => changes.map(formatChange).join('\n');
+  const entry = (title: string, changes: ValueChange[], hunks: TextHunk[] = []) =>
+    [
+      `- ${title}`,
+      ...(changes.length > 0 ? [indent(formatChanges(changes))] : []),
+      ...(hunks.length > 0 ? [indent(formatHunks(hunks))] : []),
+    ].join('\n');
+
+  const heading = '#'.repeat(headingLevel);
+  const sections: string[] = [];
+  const section = (title: string, body: string) => sections.push(`${heading} ${title}\n\n${body}`);
+
+  if (diff.system.length > 0) {
+    section('System prompt', formatHunks(diff.system));
+  }
+  if (diff.llm_config.length > 0) {
+    section('LLM config', formatChanges(diff.llm_config));
+  }
+  if (diff.core_memory.length > 0) {
+    section(
+      'Core memory',
+      diff.core_memory
+        .map((change) => entry(`**${change.label}** ${change.kind}`, change.changes, change.hunks))
+        .join('\n')
+    );
+  }
+  if (diff.tools.length > 0) {
+    section(
+      'Tools',
+      diff.tools
+        .map((change) => entry(`${codeSpan(change.name)} ${change.kind}`, change.changes))
+        .join('\n')
+    );
+  }
+  if (diff.tool_rules.length > 0) {
+    section(
+      'Tool rules',
+      diff.tool_rules
+        .map((change) => {
+          const rule = `${codeSpan(change.tool_name)} ${change.rule_type}`;
+          return change.kind === 'changed'
+            ? `- ${rule}: ${code(change.before)} → ${code(change.after)}`
+            : `- ${rule} ${change.kind}: ${code(change.after ?? change.before)}`;
+        })
+        .join('\n')
+    );
+  }
+  if (diff.messages.length > 0) {
+    section(
+      'Messages',
+      diff.messages
+        .map((change) =>
+          entry(
+            `${codeSpan(change.id)} (${change.role}) ${change.kind}`,
+            change.changes,
+            change.hunks
+          )
+        )
+        .join('\n')
+    );
+  }
+  if (diff.fields.length > 0) {
+    section('Other fields', formatChanges(diff.fields));
+  }
+  return sections.join('\n\n');
+}
@@ -0,0 +1,460 @@
+/**
+ * @fileoverview Encryption of sensitive .af (Agent File) sections
+ *
+ * Encrypts the message history, selected core memory blocks and tool
+ * environment variables with AES-256-GCM. Ciphertexts are stored in a
+ * reserved `metadata_` section and each encrypted field holds a fixed
+ * placeholder of the field's type, so an encrypted file is still a valid
+ * agent file that tools can read and validate without the key, and an
+ * encrypted field cannot be mistaken for an empty one. Decryption refuses
+ * to overwrite a placeholder that was edited. Files name their key with an
+ * `AuthReference`; the key itself is never stored.
+ *
+ * @module @mastra/portability-af-letta
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { z } from 'zod';
+import { AgentFileParseError } from './errors';
+import { authReferenceSchema } from './schema';
+import type { AfAgentSchema, AfCoreMemoryBlock, AfMessage, AuthReference } from './types';
+
+/**
+ * `metadata_` key reserved for encrypted sections
+ */
+export const ENCRYPTION_METADATA_KEY = 'af_encrypted';
+
+/**
+ * A section that can be encrypted: the message history (including
+ * `in_context_message_indices`), the environment variables, or one core
+ * memory block by label
+ */
+export type EncryptableSection =
+  | 'messages'
+  | 'tool_exec_environment_variables'
+  | `core_memory.${string}`;
+
+/**
+ * Placeholder for one encrypted section
+ */
+export interface AfEncryptedSection {
+  path: EncryptableSection;
+
+  /**
+   * Where to find the key that decrypts this section
+   */
+  key_ref: AuthReference;
+
+  /**
+   * Base64-encoded 96-bit nonce
+   */
+  iv: string;
+
+  /**
+   * Base64-encoded GCM authentication tag
+   */
+  tag: string;
+
+  /**
+   * Base64-encoded encrypted JSON of the section
+   */
+  ciphertext: string;
+}
+
+/**
+ * Encryption section stored under `metadata_.af_encrypted`
+ */
+export interface AfEncryptionEnvelope {
+  algorithm: 'aes-256-gcm';
+  sections: AfEncryptedSection[];
+}
+
+/**
+ * Looks up the 256-bit key for a key reference, or returns undefined if unknown
+ */
+export type AgentFileKeyResolver = (keyRef: AuthReference) => Uint8Array | undefined;
+
+/**
+ * Options for encrypting agent files
+ */
+export interface EncryptAgentFileOptions {
+  /**
+   * Reference recorded in the file to find the key when decrypting
+   */
+  keyRef: AuthReference;
+
+  /**
+   * 256-bit AES key
+   */
+  key: Uint8Array;
+
+  /**
+   * Sections to encrypt; core memory blocks are selected by label
+   * @default ['messages', 'tool_exec_environment_variables']
+   */
+  sections?: readonly EncryptableSection[];
+}
+
+const DEFAULT_SECTIONS: readonly EncryptableSection[] = [
+  'messages',
+  'tool_exec_environment_variables',
+];
+
+const CORE_MEMORY_PREFIX = 'core_memory.';
+
+const AUTH_TAG_LENGTH = 16;
+
+/**
+ * Text standing in for encrypted content in placeholders
+ */
+export const ENCRYPTED_PLACEHOLDER = '[encrypted]';
+
+/**
+ * Placeholder written in place of an encrypted section: a single system
+ * message for `messages`, one `AF_ENCRYPTED` variable for the environment
+ * variables, and `ENCRYPTED_PLACEHOLDER` for a memory block value
+ */
+export function getEncryptedPlaceholder(path: EncryptableSection): unknown {
+  if (path === 'messages') {
+    const message: AfMessage = {
+      id: `${ENCRYPTION_METADATA_KEY}_messages`,
+      role: 'system',
+      text: ENCRYPTED_PLACEHOLDER,
+      timestamp: '1970-01-01T00:00:00.000Z',
+      metadata: { [ENCRYPTION_METADATA_KEY]: path },
+    };
+    return [message];
+  }
+  if (path === 'tool_exec_environment_variables') {
+    return { AF_ENCRYPTED: ENCRYPTED_PLACEHOLDER };
+  }
+  return ENCRYPTED_PLACEHOLDER;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Compare JSON values, ignoring key order
+ */
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => isEqual(item, b[index]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return [...keys].every((key) => isEqual(a[key], b[key]));
+  }
+  return false;
+}
+
+const base64Schema = z.string().regex(/^[A-Za-z0-9+/]*={0,2}$/, 'Expected a base64 string');
+
+/**
+ * Envelope read from untrusted files, checked before any section is decrypted
+ */
+const encryptionEnvelopeSchema = z.object({
+  algorithm: z.literal('aes-256-gcm'),
+  sections: z.array(z.unknown()),
+});
+
+const encryptedSectionSchema = z.object({
+  path: z
+    .string()
+    .refine(
+      (path) =>
+        path === 'messages' ||
+        path === 'tool_exec_environment_variables' ||
+        (path.startsWith(CORE_MEMORY_PREFIX) && path.length > CORE_MEMORY_PREFIX.length),
+      (path) => ({ message: `Unknown section: ${path}` })
+    ),
+  key_ref: authReferenceSchema,
+  iv: base64Schema.min(1),
+  tag: base64Schema.min(1),
+  ciphertext: base64Schema,
+});
+
+type ValidationError = { path: string; message: string; code: string };
+
+function toValidationErrors(prefix: string, error: z.ZodError): ValidationError[] {
+  return error.errors.map((issue) => ({
+    path: [prefix, ...issue.path].join('.'),
+    message: issue.message,
+    code: issue.code,
+  }));
+}
+
+function assertKey(key: Uint8Array): void {
+  if (key.length !== 32) {
+    throw new TypeError(`AES-256-GCM keys must be 32 bytes, got ${key.length}`);
+  }
+}
+
+/**
+ * Core memory is a record keyed by label in files, but a list in Mastra exports
+ */
+function findBlockKey(agent: AfAgentSchema, label: string): string | undefined {
+  return Object.entries(agent.core_memory as Record<string, AfCoreMemoryBlock>).find(
+    ([, block]) => block.label === label
+  )?.[0];
+}
+
+function withBlockValue(agent: AfAgentSchema, key: string, value: string): AfAgentSchema {
+  const blocks = agent.core_memory as Record<string, AfCoreMemoryBlock>;
+  const updated = { ...blocks[key], value };
+  const coreMemory = Array.isArray(agent.core_memory)
+    ? agent.core_memory.map((block, index) => (String(index) === key ? updated : block))
+    : { ...agent.core_memory, [key]: updated };
+  return { ...agent, core_memory: coreMemory as AfAgentSchema['core_memory'] };
+}
+
+/**
+ * List the sections of an agent that are still encrypted
+ *
+ * @param agent - Agent to inspect
+ * @returns Encrypted section placeholders, empty for unencrypted agents
+ */
+export function getEncryptedSections(agent: AfAgentSchema): AfEncryptedSection[] {
+  const envelope = agent.metadata_?.[ENCRYPTION_METADATA_KEY] as
+    | AfEncryptionEnvelope
+    | undefined;
+  return Array.isArray(envelope?.sections) ? envelope.sections : [];
+}
+
+/**
+ * Encrypt sections of an agent file with AES-256-GCM
+ *
+ * Each section is encrypted separately with its path as additional
+ * authenticated data, so ciphertexts cannot be moved between sections.
+ * Encrypted fields are replaced by `getEncryptedPlaceholder(path)` and
+ * `in_context_message_indices` is removed along with the messages.
+ *
+ * @param agent - Agent to encrypt
+ * @param options - Key, key reference and sections
+ * @returns Copy of the agent with the sections encrypted
+ *
+ * @example
+ * ```typescript
+ * const encrypted = encryptAgentFile(agent, {
+ *   keyRef: { provider: 'env', config_id: 'AGENT_FILE_KEY' },
+ *   key: Buffer.from(process.env.AGENT_FILE_KEY!, 'base64'),
+ *   sections: ['messages', 'core_memory.human'],
+ * });
+ * ```
+ */
+export function encryptAgentFile(
+  agent: AfAgentSchema,
+  options: EncryptAgentFileOptions
+): AfAgentSchema {
+  const { keyRef, key, sections = DEFAULT_SECTIONS } = options;
+  assertKey(key);
+
+  const existing = getEncryptedSections(agent);
+  const encrypted: AfEncryptedSection[] = [];
+  let result = agent;
+
+  for (const path of new Set(sections)) {
+    if (existing.some((section) => section.path === path)) {
+      throw new Error(`Section ${path} is already encrypted`);
+    }
+
+    let plaintext: unknown;
+    if (path === 'messages') {
+      plaintext = {
+        messages: result.messages,
+        in_context_message_indices: result.in_context_message_indices,
+      };
+      result = {
+        ...result,
+        messages: getEncryptedPlaceholder(path) as AfMessage[],
+        in_context_message_indices: undefined,
+      };
+    } else if (path === 'tool_exec_environment_variables') {
+      if (!result.tool_exec_environment_variables) {
+        continue;
+      }
+      plaintext = result.tool_exec_environment_variables;
+      result = {
+        ...result,
+        tool_exec_environment_variables: getEncryptedPlaceholder(path) as Record<string, string>,
+      };
+    } else if (path.startsWith(CORE_MEMORY_PREFIX)) {
+      const blockKey = findBlockKey(result, path.slice(CORE_MEMORY_PREFIX.length));
+      if (blockKey === undefined) {
+        throw new Error(`No core memory block to encrypt at ${path}`);
+      }
+      plaintext = (result.core_memory as Record<string, AfCoreMemoryBlock>)[blockKey].value;
+      result = withBlockValue(result, blockKey, ENCRYPTED_PLACEHOLDER);
+    } else {
+      throw new Error(`Unknown section: ${path}`);
+    }
+
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', key, iv, { authTagLength: AUTH_TAG_LENGTH });
+    cipher.setAAD(Buffer.from(path, 'utf8'));
+    const ciphertext = Buffer.concat([
+      cipher.update(JSON.stringify(plaintext), 'utf8'),
+      cipher.final(),
+    ]);
+    encrypted.push({
+      path,
+      key_ref: keyRef,
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      ciphertext: ciphertext.toString('base64'),
+    });
+  }
+
+  const envelope: AfEncryptionEnvelope = {
+    algorithm: 'aes-256-gcm',
+    sections: [...existing, ...encrypted],
+  };
+  return { ...result, metadata_: { ...result.metadata_, [ENCRYPTION_METADATA_KEY]: envelope } };
+}
+
+function decryptSection(section: AfEncryptedSection, key: Uint8Array): unknown {
+  // Without a fixed tag length, GCM accepts tags truncated to as little as 4 bytes
+  const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(section.iv, 'base64'), {
+    authTagLength: AUTH_TAG_LENGTH,
+  });
+  decipher.setAAD(Buffer.from(section.path, 'utf8'));
+  decipher.setAuthTag(Buffer.from(section.tag, 'base64'));
+  const plaintext = Buffer.concat([
+    decipher.update(Buffer.from(section.ciphertext, 'base64')),
+    decipher.final(),
+  ]);
+  return JSON.parse(plaintext.toString('utf8'));
+}
+
+/**
+ * Decrypt every encrypted section of an agent file
+ *
+ * @param agent - Encrypted agent
+ * @param resolveKey - Looks up keys by their reference
+ * @returns Copy of the agent with the sections restored and the
+ *   encryption metadata removed; unencrypted agents are returned as-is
+ * @throws {AgentFileParseError} If the encryption metadata is malformed
+ *   (with the Zod issue code and the dotted path of the bad field), a
+ *   placeholder was edited (`placeholder_modified`, with the field path),
+ *   a key is unknown (`missing_key`) or a section fails to decrypt because
+ *   of a wrong key or tampered data (`decryption_failed`)
+ *
+ * @example
+ * ```typescript
+ * const agent = decryptAgentFile(encrypted, (ref) =>
+ *   ref.provider === 'env' ? Buffer.from(process.env[ref.config_id]!, 'base64') : undefined
+ * );
+ * ```
+ */
+export function decryptAgentFile(
+  agent: AfAgentSchema,
+  resolveKey: AgentFileKeyResolver
+): AfAgentSchema {
+  const raw = agent.metadata_?.[ENCRYPTION_METADATA_KEY];
+  if (raw === undefined) {
+    return agent;
+  }
+  const envelopePath = `metadata_.${ENCRYPTION_METADATA_KEY}`;
+  const envelope = encryptionEnvelopeSchema.safeParse(raw);
+  if (!envelope.success) {
+    throw new AgentFileParseError('Failed to decrypt agent file', {
+      validationErrors: toValidationErrors(envelopePath, envelope.error),
+    });
+  }
+
+  let result = agent;
+  const errors: ValidationError[] = [];
+  envelope.data.sections.forEach((entry, index) => {
+    const path = `${envelopePath}.sections.${index}`;
+    const parsed = encryptedSectionSchema.safeParse(entry);
+    if (!parsed.success) {
+      errors.push(...toValidationErrors(path, parsed.error));
+      return;
+    }
+    const section = parsed.data as AfEncryptedSection;
+
+    // Restoring over an edited placeholder would silently discard the edit
+    let fieldPath: string = section.path;
+    let current: unknown;
+    let blockKey: string | undefined;
+    if (section.path === 'messages' && result.in_context_message_indices !== undefined) {
+      // The context window was removed with the messages
+      fieldPath = 'in_context_message_indices';
+      current = result.in_context_message_indices;
+    } else if (section.path === 'messages') {
+      current = result.messages;
+    } else if (section.path === 'tool_exec_environment_variables') {
+      current = result.tool_exec_environment_variables;
+    } else {
+      blockKey = findBlockKey(result, section.path.slice(CORE_MEMORY_PREFIX.length));
+      if (blockKey === undefined) {
+        errors.push({
+          path,
+          message: `No core memory block to restore at ${section.path}`,
+          code: 'decryption_failed',
+        });
+        return;
+      }
+      fieldPath = `core_memory.${blockKey}.value`;
+      current = (result.core_memory as Record<string, AfCoreMemoryBlock>)[blockKey].value;
+    }
+    if (!isEqual(current, getEncryptedPlaceholder(section.path))) {
+      errors.push({
+        path: fieldPath,
+        message: `${fieldPath} was changed after encryption; decrypting would overwrite it`,
+        code: 'placeholder_modified',
+      });
+      return;
+    }
+
+    const key = resolveKey(section.key_ref);
+    if (key === undefined) {
+      errors.push({
+        path,
+        message: `No key for ${section.key_ref.provider}:${section.key_ref.config_id}`,
+        code: 'missing_key',
+      });
+      return;
+    }
+
+    let plaintext: unknown;
+    try {
+      assertKey(key);
+      plaintext = decryptSection(section, key);
+    } catch {
+      errors.push({
+        path,
+        message: `Cannot decrypt ${section.path}: wrong key or modified data`,
+        code: 'decryption_failed',
+      });
+      return;
+    }
+
+    if (section.path === 'messages') {
+      const { messages, in_context_message_indices } = plaintext as Pick<
+        AfAgentSchema,
+        'messages' | 'in_context_message_indices'
+      >;
+      result = { ...result, messages, in_context_message_indices };
+    } else if (section.path === 'tool_exec_environment_variables') {
+      const variables = plaintext as Record<string, string>;
+      result = { ...result, tool_exec_environment_variables: variables };
+    } else {
+      result = withBlockValue(result, blockKey!, plaintext as string);
+    }
+  });
+
+  if (errors.length > 0) {
+    throw new AgentFileParseError('Failed to decrypt agent file', { validationErrors: errors });
+  }
+
+  const { [ENCRYPTION_METADATA_KEY]: _envelope, ...metadata } = result.metadata_ ?? {};
+  return {
+    ...result,
+    metadata_: Object.keys(metadata).length > 0 ? metadata : undefined,
+  };
+}
@@ -0,0 +1,69 @@
+/**
+ * @fileoverview Error classes for .af (Agent File) handling
+ *
+ * Kept apart from the parser so that every module can throw them without
+ * importing the parser, which itself imports most modules.
+ *
+ * @module @mastra/portability-af-letta
+ */
+
+import type { SourcePosition, ValidationIssue } from './positions';
+import type { SignatureStatus, SignatureVerification } from './signature';
+
+/**
+ * Custom error class for agent file parsing errors
+ */
+export class AgentFileParseError extends Error {
+  /**
+   * Validation errors if the parsing failed due to schema validation
+   */
+  public readonly validationErrors?: Array<ValidationIssue & { code: string }>;
+
+  /**
+   * Location of the syntax error if the parsing failed on invalid JSON
+   */
+  public readonly position?: SourcePosition;
+
+  /**
+   * Original error that caused the parsing failure
+   */
+  public readonly cause?: Error;
+
+  constructor(
+    message: string,
+    options?: { cause?: Error; validationErrors?: any[]; position?: SourcePosition }
+  ) {
+    super(message);
+    this.name = 'AgentFileParseError';
+    this.cause = options?.cause;
+    this.validationErrors = options?.validationErrors;
+    this.position = options?.position;
+
+    // Ensure proper prototype chain for instanceof checks
+    Object.setPrototypeOf(this, AgentFileParseError.prototype);
+  }
+}
+
+/**
+ * Error thrown when an agent file's signature is missing or cannot be trusted
+ */
+export class AgentFileSignatureError extends AgentFileParseError {
+  /**
+   * Why verification failed
+   */
+  public readonly status: Exclude<SignatureStatus, 'valid'>;
+
+  /**
+   * ID of the key the file claims to be signed with, if any
+   */
+  public readonly keyId?: string;
+
+  constructor(message: string, verification: SignatureVerification) {
+    super(message);
+    this.name = 'AgentFileSignatureError';
+    this.status = verification.status as Exclude<SignatureStatus, 'valid'>;
+    this.keyId = verification.keyId;
+
+    Object.setPrototypeOf(this, AgentFileSignatureError.prototype);
+  }
+}
@@ -23,18 +23,51 @@ import type {
   AuthReference,
 } from './types';
 import type { MastraMemoryConfig } from './import';
+import { compressAgentFile } from './compression';
+import { serializeAgentFile } from './canonical';
+import { detectAgentFileFormat, writeFileAtomic } from './files';
+import { AgentFileParseError } from './errors';
+import { applySecretPolicy, type SecretFinding, type SecretPolicy } from './secrets';
+import { redactPii, type PiiRedactionOptions, type PiiRedactionSummary } from './pii';
+import { encryptAgentFile, type EncryptAgentFileOptions } from './encryption';
+
+/**
+ * Source of the current time
+ */
+export type AfClock = () => Date;
+
+/**
+ * Generates IDs for exported entities that do not carry one
+ */
+export type AfIdGenerator = (kind: 'message', index: number) => string;
 
 /**
  * Export result with metadata
  */
 export interface AfExportResult {
   content: string;
+
+  /**
+   * Gzip-compressed content, present when the `compress` option is set
+   */
+  compressed?: Uint8Array;
+
   metadata: {
     exportedAt: Date;
     mastraVersion?: string;
     omittedFeatures: string[];
     toolCount: number;
     messageCount: number;
+
+    /**
+     * Secrets found when `secretPolicy` is set
+     */
+    secrets: SecretFinding[];
+
+    /**
+     * What PII redaction changed, present when `redactPii` is set
+     */
+    redaction?: PiiRedactionSummary;
   };
 }
 
@@ -71,6 +104,45 @@ export interface AfExportOptions {
    * Agent type identifier
    */
   agentType?: string;
+
+  /**
+   * Whether to also produce gzip-compressed output (for `.af.gz` files)
+   */
+  compress?: boolean;
+
+  /**
+   * Clock used for `updated_at`, export metadata and missing message timestamps
+   *
+   * Inject a fixed clock to make repeated exports byte-identical.
+   * @default () => new Date()
+   */
+  clock?: AfClock;
+
+  /**
+   * ID generator for messages without an ID
+   * @default (kind, index) => `msg_${index}`
+   */
+  generateId?: AfIdGenerator;
+
+  /**
+   * Scan the exported agent for raw credentials and `fail`, `warn` or
+   * `redact` them; not scanned when unset
+   */
+  secretPolicy?: SecretPolicy;
+
+  /**
+   * Replace PII in messages and core memory with consistent placeholders
+   *
+   * Pass options to add custom detectors or change the placeholder format.
+   * @default false
+   */
+  redactPii?: boolean | PiiRedactionOptions;
+
+  /**
+   * Encrypt the message history and other sensitive sections with AES-256-GCM
+   * (see `encryptAgentFile`); not encrypted when unset
+   */
+  encrypt?: EncryptAgentFileOptions;
 }
 
 /**
@@ -104,9 +176,16 @@ export function exportMastraAgent(
     includeMessages = true,
     maxMessages = 1000,
     agentType = 'mastra',
+    compress = false,
+    clock = () => new Date(),
+    generateId = (_kind: 'message', index: number) => `msg_${index}`,
+    secretPolicy,
+    redactPii: piiRedaction = false,
+    encrypt,
   } = options;
 
-  const now = new Date().toISOString();
+  const exportedAt = clock();
+  const now = exportedAt.toISOString();
   const omittedFeatures: string[] = [];
 
   // Extract metadata
@@ -165,7 +244,7 @@ export function exportMastraAgent(
     if (includeMessages && memory.messages) {
       const messages = memory.messages.slice(-maxMessages);
       afAgent.messages = messages.map((msg, index) => 
-        convertMastraMessageToAf(msg, index)
+        convertMastraMessageToAf(msg, index, generateId, now)
       );
     }
   }
@@ -201,19 +280,34 @@ export function exportMastraAgent(
     }
   }
 
-  // Generate JSON
-  const content = pretty 
-    ? JSON.stringify(afAgent, null, 2)
-    : JSON.stringify(afAgent);
+  // Remove personal data before sharing the conversation
+  const redacted = piiRedaction
+    ? redactPii(afAgent, piiRedaction === true ? {} : piiRedaction)
+    : undefined;
+
+  // Keep credentials out of the file before it is written anywhere
+  const exported = redacted?.data ?? afAgent;
+  const scanned = secretPolicy
+    ? applySecretPolicy(exported, secretPolicy)
+    : { data: exported, findings: [] };
+
+  // Encrypt last, so redaction and scanning see the plaintext
+  const sealed = encrypt ? encryptAgentFile(scanned.data, encrypt) : scanned.data;
+
+  // Generate canonical JSON so unchanged agents re-export identically
+  const content = serializeAgentFile(sealed, { pretty });
 
   return {
     content,
+    compressed: compress ? compressAgentFile(content) : undefined,
     metadata: {
-      exportedAt: new Date(),
+      exportedAt,
       mastraVersion: process.env.MASTRA_VERSION,
       omittedFeatures,
       toolCount: afAgent.tools.length,
       messageCount: afAgent.messages.length,
+      secrets: scanned.findings,
+      redaction: redacted?.summary,
     },
   };
 }
@@ -364,18 +458,22 @@ function convertWorkingMemoryToCore(
  */
 function convertMastraMessageToAf(
   message: NonNullable<MastraMemoryConfig['messages']>[0],
-  index: number
+  index: number,
+  generateId: AfIdGenerator,
+  fallbackTimestamp: string
 ): AfMessage {
   const metadata = message.metadata || {};
+  // Tool calls and results have their own fields; copying them would duplicate their data
+  const { toolCalls, toolResults, ...otherMetadata } = metadata;
   
   return {
-    id: metadata.id as string || `msg_${index}`,
+    id: metadata.id as string || generateId('message', index),
     role: message.role,
     text: message.content,
-    timestamp: metadata.timestamp as string || new Date().toISOString(),
-    tool_calls: metadata.toolCalls as any,
-    tool_results: metadata.toolResults as any,
-    metadata: Object.keys(metadata).length > 0 ? metadata : undefined,
+    timestamp: metadata.timestamp as string || fallbackTimestamp,
+    tool_calls: toolCalls as any,
+    tool_results: toolResults as any,
+    metadata: Object.keys(otherMetadata).length > 0 ? otherMetadata : undefined,
   };
 }
 
@@ -383,21 +481,30 @@ function convertMastraMessageToAf(
  * Quick export function for simple use cases
  * 
  * @param agent - Mastra agent to export
- * @param outputPath - Optional path to write the file
+ * @param outputPath - Optional path to write the file atomically
+ *   (compressed when it ends in `.gz`)
  * @returns The .af content as a string
+ * @throws {AgentFileParseError} If the file cannot be written
  */
 export async function quickExportAgent(
   agent: AgentConfig,
   outputPath?: string
 ): Promise<string> {
+  const compress = outputPath ? detectAgentFileFormat(outputPath).compressed : false;
   const result = exportMastraAgent(agent, undefined, {
     pretty: true,
     includeMessages: false,
+    compress,
   });
 
   if (outputPath) {
-    // In a real implementation, this would use fs.promises.writeFile
-    console.log(`Would write to: ${outputPath}`);
+    try {
+      await writeFileAtomic(outputPath, result.compressed ?? result.content);
+    } catch (error) {
+      throw new AgentFileParseError(`Cannot write agent file: ${outputPath}`, {
+        cause: error as Error,
+      });
+    }
   }
 
   return result.content;
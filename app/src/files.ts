@@ -0,0 +1,207 @@
+/**
+ * @fileoverview File-system loading and atomic saving of .af (Agent File) documents
+ *
+ * Format is chosen by extension: `.af`, `.af.json` and `.json` hold plain
+ * JSON, and a trailing `.gz` marks gzip-compressed variants. Saves go to a
+ * temporary file in the target directory that is renamed into place, so
+ * readers never observe a partially written agent file.
+ *
+ * @module @mastra/portability-af-letta
+ */
+
+import { promises as fs } from 'fs';
+import { basename, dirname, join } from 'path';
+import { randomBytes } from 'crypto';
+import { AgentFileParseError } from './errors';
+import {
+  parseAgentFileObject,
+  parseAgentFileWithReport,
+  type ParseOptions,
+  type ParseReportResult,
+} from './parser';
+import { compressAgentFile } from './compression';
+import { serializeAgentFile } from './canonical';
+import type { AfAgentSchema } from './types';
+
+/**
+ * On-disk encoding of an agent file
+ */
+export interface AgentFileFormat {
+  /**
+   * Whether the file is gzip-compressed
+   */
+  compressed: boolean;
+}
+
+/**
+ * Options for saving agent files
+ */
+export interface SaveAgentFileOptions {
+  /**
+   * Whether to pretty-print the JSON
+   * @default true
+   */
+  pretty?: boolean;
+
+  /**
+   * Whether to validate the agent before writing
+   * @default true
+   */
+  validate?: boolean;
+}
+
+const DEFAULT_MAX_SIZE = 52428800;
+
+/**
+ * Recognized agent file extensions, longest first
+ */
+const AGENT_FILE_EXTENSIONS: Array<[string, AgentFileFormat]> = [
+  ['.af.json.gz', { compressed: true }],
+  ['.af.gz', { compressed: true }],
+  ['.json.gz', { compressed: true }],
+  ['.af.json', { compressed: false }],
+  ['.af', { compressed: false }],
+  ['.json', { compressed: false }],
+];
+
+/**
+ * Detect the format of an agent file from its path
+ *
+ * @param path - File path
+ * @returns Detected format
+ * @throws {AgentFileParseError} If the extension is not recognized
+ */
+export function detectAgentFileFormat(path: string): AgentFileFormat {
+  const name = basename(path).toLowerCase();
+  const match = AGENT_FILE_EXTENSIONS.find(([extension]) => name.endsWith(extension));
+  if (!match) {
+    throw new AgentFileParseError(
+      `Unsupported agent file extension: ${basename(path)} (expected .af, .af.json or a .gz variant)`
+    );
+  }
+  return match[1];
+}
+
+/**
+ * Write data to a file atomically via a temporary file and rename
+ *
+ * @param path - Destination path
+ * @param data - File contents
+ */
+export async function writeFileAtomic(path: string, data: string | Uint8Array): Promise<void> {
+  const tempPath = join(
+    dirname(path),
+    `.${basename(path)}.${process.pid}.${randomBytes(6).toString('hex')}.tmp`
+  );
+
+  try {
+    const handle = await fs.open(tempPath, 'wx');
+    try {
+      await handle.writeFile(data);
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await fs.rename(tempPath, path);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Load and validate an agent file from disk
+ *
+ * The file size is checked against `maxSize` before the file is read, and
+ * compressed files are additionally bounded by their decompressed size.
+ *
+ * @param path - Path to an `.af`, `.af.json` or `.gz` file
+ * @param options - Parsing options
+ * @returns Validated agent schema
+ * @throws {AgentFileParseError} If the file cannot be read, parsed or validated
+ *
+ * @example
+ * ```typescript
+ * const agent = await loadAgentFile('./agents/support.af.gz');
+ * console.log(`Loaded agent: ${agent.name}`);
+ * ```
+ */
+export async function loadAgentFile(
+  path: string,
+  options: ParseOptions = {}
+): Promise<AfAgentSchema> {
+  return (await loadAgentFileWithReport(path, options)).data;
+}
+
+/**
+ * Load an agent file from disk and report on the parse
+ *
+ * @param path - Path to an `.af`, `.af.json` or `.gz` file
+ * @param options - Parsing options
+ * @returns Validated agent schema and parse report
+ * @throws {AgentFileParseError} If the file cannot be read, parsed or validated
+ */
+export async function loadAgentFileWithReport(
+  path: string,
+  options: ParseOptions = {}
+): Promise<ParseReportResult> {
+  const { maxSize = DEFAULT_MAX_SIZE } = options;
+  detectAgentFileFormat(path);
+
+  let contents: Buffer;
+  try {
+    const stats = await fs.stat(path);
+    if (stats.size > maxSize) {
+      throw new AgentFileParseError(
+        `Agent file too large: ${stats.size} bytes (max: ${maxSize} bytes)`
+      );
+    }
+    contents = await fs.readFile(path);
+  } catch (error) {
+    if (error instanceof AgentFileParseError) {
+      throw error;
+    }
+    throw new AgentFileParseError(`Cannot read agent file: ${path}`, {
+      cause: error as Error,
+    });
+  }
+
+  // Compression is detected from the content, so mislabelled files still load
+  return parseAgentFileWithReport(contents, options);
+}
+
+/**
+ * Validate and atomically save an agent file to disk
+ *
+ * The agent is written in canonical form and files ending in `.gz` are
+ * gzip-compressed.
+ *
+ * @param path - Destination path with an `.af`, `.af.json` or `.gz` extension
+ * @param agent - Agent to save
+ * @param options - Save options
+ * @throws {AgentFileParseError} If the agent is invalid or the file cannot be written
+ *
+ * @example
+ * ```typescript
+ * await saveAgentFile('./agents/support.af', agent);
+ * ```
+ */
+export async function saveAgentFile(
+  path: string,
+  agent: AfAgentSchema,
+  options: SaveAgentFileOptions = {}
+): Promise<void> {
+  const { pretty = true, validate = true } = options;
+  const { compressed } = detectAgentFileFormat(path);
+
+  const data = validate ? parseAgentFileObject(agent, { autoFix: false }) : agent;
+  const content = serializeAgentFile(data, { pretty });
+
+  try {
+    await writeFileAtomic(path, compressed ? compressAgentFile(content) : content);
+  } catch (error) {
+    throw new AgentFileParseError(`Cannot write agent file: ${path}`, {
+      cause: error as Error,
+    });
+  }
+}
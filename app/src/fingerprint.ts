@@ -0,0 +1,129 @@
+/**
+ * @fileoverview Content fingerprints for .af (Agent File) agents
+ *
+ * A fingerprint is the SHA-256 of an agent's canonical serialization,
+ * restricted to a scope and stripped of fields that change on every export
+ * (timestamps, export metadata, signatures). Re-exporting an unchanged
+ * agent yields the same fingerprint, so registries can dedupe uploads.
+ *
+ * @module @mastra/portability-af-letta
+ */
+
+import { createHash } from 'crypto';
+import { serializeAgentFile } from './canonical';
+import { SIGNATURE_METADATA_KEY } from './signature';
+import type { AfAgentSchema, AfCoreMemoryBlock } from './types';
+
+/**
+ * What a fingerprint covers
+ *
+ * - `definition`: `system`, `llm_config`, `tools` and `tool_rules`
+ * - `memory`: the definition plus `core_memory`
+ * - `full`: every field including messages, except volatile ones
+ */
+export type FingerprintScope = 'definition' | 'memory' | 'full';
+
+/**
+ * Options for fingerprinting agents
+ */
+export interface FingerprintOptions {
+  /**
+   * Fields to cover
+   * @default 'full'
+   */
+  scope?: FingerprintScope;
+}
+
+const DEFINITION_FIELDS = ['system', 'llm_config', 'tools', 'tool_rules'] as const;
+
+/**
+ * Top-level fields rewritten on every export
+ */
+const VOLATILE_FIELDS = ['created_at', 'updated_at'];
+
+/**
+ * `metadata_` entries describing the export or signature rather than the agent
+ */
+const VOLATILE_METADATA_KEYS = ['mastra_export', SIGNATURE_METADATA_KEY];
+
+const MESSAGE_FIELDS = ['messages', 'in_context_message_indices'];
+
+/**
+ * Copy of the fields covered by a scope, plus `without` exclusions
+ */
+function project(
+  agent: AfAgentSchema,
+  scope: FingerprintScope,
+  without: readonly string[] = []
+): Record<string, unknown> {
+  const projection: Record<string, unknown> = {};
+  if (scope === 'full') {
+    Object.assign(projection, agent);
+    for (const field of [...VOLATILE_FIELDS, ...without]) {
+      delete projection[field];
+    }
+    if (agent.metadata_) {
+      const metadata = Object.fromEntries(
+        Object.entries(agent.metadata_).filter(([key]) => !VOLATILE_METADATA_KEYS.includes(key))
+      );
+      projection.metadata_ = Object.keys(metadata).length > 0 ? metadata : undefined;
+    }
+  } else {
+    for (const field of DEFINITION_FIELDS) {
+      projection[field] = agent[field];
+    }
+    if (scope === 'memory') {
+      projection.core_memory = agent.core_memory;
+    }
+  }
+
+  // Blocks are keyed by label in files but listed in Mastra exports, in no set order
+  if (projection.core_memory) {
+    projection.core_memory = Object.values(
+      projection.core_memory as Record<string, AfCoreMemoryBlock>
+    ).sort((a, b) => (a.label < b.label ? -1 : a.label > b.label ? 1 : 0));
+  }
+  return projection;
+}
+
+function hash(projection: Record<string, unknown>): string {
+  const canonical = serializeAgentFile(projection as unknown as AfAgentSchema, { pretty: false });
+  return createHash('sha256').update(canonical, 'utf8').digest('hex');
+}
+
+/**
+ * Compute a stable fingerprint of an agent
+ *
+ * Key order, core memory shape (record or list) and block order, `created_at`,
+ * `updated_at`, `metadata_.mastra_export` and signatures do not affect the
+ * result. Message and tool order do.
+ *
+ * @param agent - Agent to fingerprint
+ * @param options - Scope of the fingerprint
+ * @returns Hex-encoded SHA-256 digest
+ *
+ * @example
+ * ```typescript
+ * const id = fingerprintAgent(agent, { scope: 'definition' });
+ * if (await registry.has(id)) {
+ *   console.log('Agent definition already uploaded');
+ * }
+ * ```
+ */
+export function fingerprintAgent(agent: AfAgentSchema, options: FingerprintOptions = {}): string {
+  return hash(project(agent, options.scope ?? 'full'));
+}
+
+/**
+ * Check whether two agents differ only in their message history
+ *
+ * @param a - Earlier version of the agent
+ * @param b - Later version of the agent
+ * @returns True if the messages differ and every other non-volatile field is equal
+ */
+export function isConversationOnlyChange(a: AfAgentSchema, b: AfAgentSchema): boolean {
+  return (
+    hash(project(a, 'full', MESSAGE_FIELDS)) === hash(project(b, 'full', MESSAGE_FIELDS)) &&
+    fingerprintAgent(a) !== fingerprintAgent(b)
+  );
+}
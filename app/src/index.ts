@@ -29,6 +29,7 @@ export * from './types';
 // Export schemas
 export {
   afAgentSchema,
+  afAgentHeaderSchema,
   llmConfigSchema,
   embeddingConfigSchema,
   coreMemoryBlockSchema,
@@ -45,24 +46,294 @@ export {
   safeParseAfSchema,
 } from './schema';
 
+// Export error classes
+export { AgentFileParseError, AgentFileSignatureError } from './errors';
+
 // Export parser functions
 export {
   parseAgentFile,
+  parseAgentFileWithReport,
   safeParseAgentFile,
   parseAgentFileObject,
+  parseAgentFileObjectWithReport,
   isValidAgentFile,
   getValidationErrors,
   extractAgentMetadata,
-  AgentFileParseError,
   type ParseResult,
   type ParseOptions,
+  type ParseReport,
+  type ParseReportResult,
 } from './parser';
 
+// Export gzip support
+export {
+  isGzipCompressed,
+  compressAgentFile,
+  type AgentFileInput,
+  type CompressOptions,
+} from './compression';
+
+// Export canonical serialization
+export {
+  serializeAgentFile,
+  canonicalizeAgentFile,
+  type CanonicalSerializeOptions,
+} from './canonical';
+
+// Export Letta upstream layout adapter
+export {
+  fromLettaAgentFile,
+  parseLettaAgentFile,
+  toLettaAgentFile,
+  isLettaAgentFile,
+  lettaAgentFileSchema,
+  lettaAgentSchema,
+  lettaMessageSchema,
+  type LettaAgentFile,
+  type LettaEntity,
+} from './letta';
+
+// Export JSON Schema
+export {
+  afAgentJsonSchema,
+  generateAfJsonSchema,
+  JSON_SCHEMA_DIALECT,
+  type JsonSchema,
+} from './jsonschema';
+
+// Export core memory limit enforcement
+export {
+  enforceMemoryLimits,
+  resolveMemoryLimitAliases,
+  truncateMemoryValue,
+  MEMORY_TRUNCATION_MARKER,
+  type MemoryLimitPolicy,
+  type MemoryLimitViolation,
+} from './memory';
+
+// Export context window budgeting
+export {
+  estimateContextUsage,
+  lookupContextWindow,
+  heuristicTokenizer,
+  MODEL_CONTEXT_WINDOWS,
+  MESSAGE_OVERHEAD_TOKENS,
+  type Tokenizer,
+  type ContextUsage,
+  type ContextUsageOptions,
+  type ContextSections,
+  type ContextWindowSource,
+} from './context';
+
+// Export secret scanning
+export {
+  scanForSecrets,
+  applySecretPolicy,
+  formatSecretPlaceholder,
+  SECRET_DETECTORS,
+  type SecretPolicy,
+  type SecretDetector,
+  type SecretFinding,
+  type SecretScanOptions,
+} from './secrets';
+
+// Export signing and verification
+export {
+  signAgentFile,
+  verifyAgentFile,
+  getSigningKeyId,
+  SIGNATURE_METADATA_KEY,
+  type AfSignature,
+  type SigningKey,
+  type TrustedKeys,
+  type SignAgentFileOptions,
+  type SignatureStatus,
+  type SignatureVerification,
+} from './signature';
+
+// Export section encryption
+export {
+  encryptAgentFile,
+  decryptAgentFile,
+  getEncryptedSections,
+  getEncryptedPlaceholder,
+  ENCRYPTION_METADATA_KEY,
+  ENCRYPTED_PLACEHOLDER,
+  type AfEncryptedSection,
+  type AfEncryptionEnvelope,
+  type AgentFileKeyResolver,
+  type EncryptableSection,
+  type EncryptAgentFileOptions,
+} from './encryption';
+
+// Export content fingerprinting
+export {
+  fingerprintAgent,
+  isConversationOnlyChange,
+  type FingerprintScope,
+  type FingerprintOptions,
+} from './fingerprint';
+
+// Export semantic diff
+export {
+  diffAgentFiles,
+  formatAgentDiff,
+  type AgentDiff,
+  type DiffAgentFilesOptions,
+  type FormatAgentDiffOptions,
+  type DiffLine,
+  type TextHunk,
+  type ValueChange,
+  type MemoryBlockChange,
+  type ToolChange,
+  type ToolRuleChange,
+  type MessageChange,
+} from './diff';
+
+// Export three-way merge
+export {
+  mergeAgentFiles,
+  type MergeAgentFilesOptions,
+  type MergeResult,
+  type MergeConflict,
+  type MergeSection,
+  type ConflictStrategy,
+  type ConflictResolver,
+} from './merge';
+
+// Export JSON Patch support
+export {
+  applyAgentPatch,
+  createAgentPatch,
+  type AgentPatch,
+  type JsonPatchOperation,
+  type PatchErrorCode,
+} from './patch';
+
+// Export PII redaction
+export {
+  redactPii,
+  PII_DETECTORS,
+  type PiiDetector,
+  type PiiMatch,
+  type PiiRedactionOptions,
+  type PiiRedactionSummary,
+  type PiiDetectorSummary,
+} from './pii';
+
+// Export message history integrity checks
+export {
+  checkAgentIntegrity,
+  assertAgentIntegrity,
+  validateToolArguments,
+  type IntegrityIssue,
+  type IntegrityIssueCode,
+  type IntegrityReport,
+  type ArgumentViolation,
+} from './integrity';
+
+// Export lint engine
+export {
+  lintAgentFile,
+  parseLintConfig,
+  loadLintConfig,
+  lintConfigSchema,
+  LINT_RULES,
+  type LintConfig,
+  type LintFinding,
+  type LintProblem,
+  type LintResult,
+  type LintRule,
+  type LintRuleSetting,
+  type LintSeverity,
+} from './lint';
+
+// Export fast metadata extraction
+export { scanAgentMetadata, type AgentFileMetadata } from './metadata';
+
+// Export file-system loader and saver
+export {
+  loadAgentFile,
+  loadAgentFileWithReport,
+  saveAgentFile,
+  detectAgentFileFormat,
+  type AgentFileFormat,
+  type SaveAgentFileOptions,
+} from './files';
+
+// Export agent bundle format
+export {
+  packAgentBundle,
+  unpackAgentBundle,
+  agentBundleManifestSchema,
+  AGENT_BUNDLE_VERSION,
+  AGENT_BUNDLE_MANIFEST,
+  type AgentBundleFiles,
+  type AgentBundleManifest,
+  type BundledTool,
+  type PackBundleOptions,
+} from './bundle';
+
+// Export source position helpers
+export {
+  parseJsonWithPositions,
+  findSourcePosition,
+  formatValidationErrors,
+  JsonSyntaxError,
+  type SourcePosition,
+  type ValidationIssue,
+  type PositionedJson,
+  type FormatValidationErrorsOptions,
+} from './positions';
+
+// Export auto-fix auditing
+export {
+  applyAutoFixes,
+  AUTO_FIX_CATEGORIES,
+  type AppliedFix,
+  type AutoFixCategory,
+  type AutoFixReason,
+  type AutoFixResult,
+} from './autofix';
+
+// Export unknown field detection
+export { findUnknownFields, type UnknownField } from './strict';
+
+// Export streaming parser
+export {
+  parseAgentFileStream,
+  type AfAgentHeader,
+  type AgentFileStream,
+  type AgentFileStreamSource,
+  type AgentFileReadableStream,
+  type StreamParseOptions,
+} from './stream';
+
 // TODO: Mastra integration will be enabled in a future version
 // when the correct Mastra.ai interfaces are available
 
 // Version of the .af format this package supports
-export const SUPPORTED_AF_VERSION = '0.1.0';
+export {
+  SUPPORTED_AF_VERSION,
+  parseVersion,
+  compareVersions,
+  checkVersionCompatibility,
+  type SemanticVersion,
+  type VersionPolicy,
+  type VersionStatus,
+  type VersionCompatibility,
+} from './version';
+
+// Export schema version migrations
+export {
+  migrateAgentFile,
+  AF_MIGRATIONS,
+  type AfMigration,
+  type AfDocument,
+  type AppliedMigration,
+  type MigrationResult,
+  type MigrateOptions,
+} from './migrate';
 
 // Package metadata
 export const PACKAGE_NAME = 'mastra-af-letta';
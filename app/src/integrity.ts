@@ -0,0 +1,282 @@
+/**
+ * @fileoverview Referential integrity checks for agent message histories
+ *
+ * The schema checks each message on its own. These checks follow tool use
+ * across messages: every call must name a defined tool with arguments that
+ * satisfy its parameter schema and must be answered by a later result, and
+ * every result must answer an earlier call. Histories that break these
+ * rules fail when the agent is resumed.
+ *
+ * @module @mastra/portability-af-letta
+ */
+
+import { isDeepStrictEqual } from 'util';
+import { AgentFileParseError } from './errors';
+import type { AfAgentSchema, AfParameterProperty, AfToolParameters } from './types';
+
+/**
+ * Kind of integrity problem
+ *
+ * - `unknown_tool`: a call names a tool not defined in `tools`
+ * - `invalid_tool_arguments`: call arguments violate the tool's parameter schema
+ * - `dangling_tool_call`: a call is never answered by a result
+ * - `orphaned_tool_result`: a result answers no earlier call
+ * - `duplicate_tool_call_id`: two calls share an ID, so results are ambiguous
+ * - `tool_result_name_mismatch`: a result names a different tool than its call
+ */
+export type IntegrityIssueCode =
+  | 'unknown_tool'
+  | 'invalid_tool_arguments'
+  | 'dangling_tool_call'
+  | 'orphaned_tool_result'
+  | 'duplicate_tool_call_id'
+  | 'tool_result_name_mismatch';
+
+/**
+ * An integrity problem in the message history
+ */
+export interface IntegrityIssue {
+  /**
+   * Dotted path to the offending value, e.g. "messages.3.tool_calls.0.name"
+   */
+  path: string;
+
+  message: string;
+  code: IntegrityIssueCode;
+
+  /**
+   * Index and ID of the message containing the problem
+   */
+  messageIndex: number;
+  messageId: string;
+}
+
+/**
+ * Outcome of checking an agent's message history
+ */
+export interface IntegrityReport {
+  valid: boolean;
+
+  /**
+   * Issues ordered by message
+   */
+  issues: IntegrityIssue[];
+}
+
+/**
+ * A schema violation found in tool call arguments
+ */
+export interface ArgumentViolation {
+  path: string;
+  message: string;
+}
+
+type ParameterSchema = AfParameterProperty | AfToolParameters;
+
+function typeOf(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean | undefined {
+  switch (type) {
+    case 'string':
+    case 'boolean':
+    case 'object':
+    case 'array':
+    case 'null':
+      return typeOf(value) === type;
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return Number.isInteger(value);
+    default:
+      // Types outside JSON Schema's set cannot be checked
+      return undefined;
+  }
+}
+
+function validateValue(
+  value: unknown,
+  schema: ParameterSchema,
+  path: string,
+  violations: ArgumentViolation[]
+): void {
+  if (matchesType(value, schema.type) === false) {
+    violations.push({ path, message: `Expected ${schema.type}, received ${typeOf(value)}` });
+    return;
+  }
+
+  const allowed = (schema as AfParameterProperty).enum;
+  if (Array.isArray(allowed) && !allowed.some((option) => isDeepStrictEqual(option, value))) {
+    violations.push({
+      path,
+      message: `Value must be one of: ${allowed.map((option) => JSON.stringify(option)).join(', ')}`,
+    });
+    return;
+  }
+
+  if (typeOf(value) === 'object') {
+    const record = value as Record<string, unknown>;
+    const properties = schema.properties ?? {};
+    const required = Array.isArray(schema.required) ? (schema.required as string[]) : [];
+    for (const name of required) {
+      if (record[name] === undefined) {
+        violations.push({ path: `${path}.${name}`, message: 'Required argument is missing' });
+      }
+    }
+    for (const [name, propertyValue] of Object.entries(record)) {
+      const property = properties[name];
+      if (property) {
+        validateValue(propertyValue, property, `${path}.${name}`, violations);
+      } else if (schema.additionalProperties === false) {
+        violations.push({ path: `${path}.${name}`, message: 'Unexpected argument' });
+      }
+    }
+  } else if (Array.isArray(value) && (schema as AfParameterProperty).items) {
+    const items = (schema as AfParameterProperty).items!;
+    value.forEach((item, index) => validateValue(item, items, `${path}.${index}`, violations));
+  }
+}
+
+/**
+ * Check tool call arguments against a tool's parameter schema
+ *
+ * Supports the JSON Schema keywords used by tool definitions: `type`,
+ * `enum`, `properties`, `required`, `additionalProperties` and `items`.
+ *
+ * @param args - Call arguments
+ * @param parameters - The tool's parameter schema
+ * @param path - Path prefix for reported violations
+ * @returns Violations, empty when the arguments are valid
+ */
+export function validateToolArguments(
+  args: Record<string, unknown>,
+  parameters: AfToolParameters,
+  path = 'arguments'
+): ArgumentViolation[] {
+  const violations: ArgumentViolation[] = [];
+  validateValue(args, parameters, path, violations);
+  return violations;
+}
+
+/**
+ * Check tool calls and results in an agent's message history
+ *
+ * @param agent - Validated agent to check
+ * @returns Report listing every issue; `valid` is true when there are none
+ *
+ * @example
+ * ```typescript
+ * const { valid, issues } = checkAgentIntegrity(agent);
+ * issues.forEach((i) => console.warn(`${i.messageId}: ${i.code} at ${i.path}: ${i.message}`));
+ * ```
+ */
+export function checkAgentIntegrity(agent: AfAgentSchema): IntegrityReport {
+  const tools = new Map(agent.tools.map((tool) => [tool.name, tool]));
+  const calls = new Map<
+    string,
+    { name: string; path: string; messageIndex: number; messageId: string; answered: boolean }
+  >();
+  const issues: IntegrityIssue[] = [];
+
+  agent.messages.forEach((message, messageIndex) => {
+    const messagePath = `messages.${messageIndex}`;
+    const issue = (path: string, code: IntegrityIssueCode, text: string) =>
+      issues.push({ path, message: text, code, messageIndex, messageId: message.id });
+
+    message.tool_calls?.forEach((call, callIndex) => {
+      const callPath = `${messagePath}.tool_calls.${callIndex}`;
+      if (calls.has(call.id)) {
+        issue(`${callPath}.id`, 'duplicate_tool_call_id', `Duplicate tool call ID "${call.id}"`);
+      } else {
+        calls.set(call.id, {
+          name: call.name,
+          path: callPath,
+          messageIndex,
+          messageId: message.id,
+          answered: false,
+        });
+      }
+
+      const tool = tools.get(call.name);
+      if (!tool) {
+        issue(
+          `${callPath}.name`,
+          'unknown_tool',
+          `Tool call "${call.id}" uses unknown tool "${call.name}"`
+        );
+        return;
+      }
+      for (const violation of validateToolArguments(
+        call.arguments,
+        tool.parameters,
+        `${callPath}.arguments`
+      )) {
+        issue(
+          violation.path,
+          'invalid_tool_arguments',
+          `Invalid arguments for tool "${call.name}": ${violation.message}`
+        );
+      }
+    });
+
+    // Results may answer calls from the same message or any earlier one
+    message.tool_results?.forEach((result, resultIndex) => {
+      const resultPath = `${messagePath}.tool_results.${resultIndex}`;
+      const call = calls.get(result.id);
+      if (!call) {
+        issue(
+          `${resultPath}.id`,
+          'orphaned_tool_result',
+          `Tool result "${result.id}" does not answer an earlier tool call`
+        );
+        return;
+      }
+      call.answered = true;
+      if (result.name !== call.name) {
+        issue(
+          `${resultPath}.name`,
+          'tool_result_name_mismatch',
+          `Tool result "${result.id}" names "${result.name}" but its call used "${call.name}"`
+        );
+      }
+    });
+  });
+
+  for (const [id, call] of calls) {
+    if (!call.answered) {
+      issues.push({
+        path: call.path,
+        message: `Tool call "${id}" has no result`,
+        code: 'dangling_tool_call',
+        messageIndex: call.messageIndex,
+        messageId: call.messageId,
+      });
+    }
+  }
+
+  // Stable sort keeps document order within each message
+  issues.sort((a, b) => a.messageIndex - b.messageIndex);
+  return { valid: issues.length === 0, issues };
+}
+
+/**
+ * Check an agent's message history, throwing if any issue is found
+ *
+ * @param agent - Validated agent to check
+ * @throws {AgentFileParseError} Listing every issue as a validation error
+ */
+export function assertAgentIntegrity(agent: AfAgentSchema): void {
+  const { issues } = checkAgentIntegrity(agent);
+  if (issues.length > 0) {
+    throw new AgentFileParseError('Agent file failed integrity checks', {
+      validationErrors: issues.map(({ path, message, code }) => ({ path, message, code })),
+    });
+  }
+}
@@ -0,0 +1,268 @@
+/**
+ * @fileoverview JSON Schema (draft 2020-12) for .af (Agent File) documents
+ *
+ * Generated from the Zod schemas in schema.ts so that tools outside
+ * TypeScript (Python services, editors) validate the same structure.
+ * Zod refinements cannot be read back from the schemas, so the ones JSON
+ * Schema can express are added explicitly below; the rest are listed in the
+ * document's `$comment`.
+ *
+ * @module @mastra/portability-af-letta
+ */
+
+import { z } from 'zod';
+import {
+  afAgentSchema,
+  llmConfigSchema,
+  embeddingConfigSchema,
+  coreMemoryBlockSchema,
+  toolCallSchema,
+  toolResultSchema,
+  messageSchema,
+  toolParametersSchema,
+  authReferenceSchema,
+  mastraToolMetadataSchema,
+  toolSchema,
+  toolRuleSchema,
+} from './schema';
+
+/**
+ * A JSON Schema document or subschema
+ */
+export type JsonSchema = { [keyword: string]: unknown };
+
+/**
+ * JSON Schema dialect of the generated document
+ */
+export const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+/**
+ * Pattern matching the timestamps accepted by `z.string().datetime()`
+ */
+const ISO8601_UTC_PATTERN = '^\\d{4}-\\d{2}-\\d{2}T\\d{2}:\\d{2}:\\d{2}(\\.\\d+)?Z$';
+
+/**
+ * Refinements JSON Schema cannot express, because they compare against
+ * values elsewhere in the document
+ */
+const UNEXPRESSED_REFINEMENTS = [
+  'in_context_message_indices must reference existing messages',
+  'tool_rules must reference tools defined in the agent',
+];
+
+function objectShape(schema: z.ZodTypeAny): z.ZodRawShape {
+  let current = schema;
+  while (current instanceof z.ZodEffects) {
+    current = current.innerType();
+  }
+  return (current as z.AnyZodObject).shape;
+}
+
+/**
+ * Named schemas emitted under `$defs` and referenced by `$ref`
+ */
+const DEFINITIONS = new Map<z.ZodTypeAny, string>([
+  [llmConfigSchema, 'LLMConfig'],
+  [embeddingConfigSchema, 'EmbeddingConfig'],
+  [coreMemoryBlockSchema, 'CoreMemoryBlock'],
+  [toolCallSchema, 'ToolCall'],
+  [toolResultSchema, 'ToolResult'],
+  [messageSchema, 'Message'],
+  [toolParametersSchema, 'ToolParameters'],
+  // The recursive parameter property schema is private to schema.ts
+  [(toolParametersSchema.shape.properties as z.ZodRecord).valueSchema, 'ParameterProperty'],
+  [authReferenceSchema, 'AuthReference'],
+  [mastraToolMetadataSchema, 'MastraToolMetadata'],
+  [toolSchema, 'Tool'],
+  [toolRuleSchema, 'ToolRule'],
+]);
+
+const ref = (name: string): JsonSchema => ({ $ref: `#/$defs/${name}` });
+
+/**
+ * JSON Schema equivalents of Zod refinements, keyed by the refined schema
+ */
+const REFINEMENTS = new Map<z.ZodTypeAny, (converted: JsonSchema) => JsonSchema>([
+  [
+    objectShape(afAgentSchema).core_memory,
+    (converted) => ({
+      ...converted,
+      properties: { persona: ref('CoreMemoryBlock'), human: ref('CoreMemoryBlock') },
+      required: ['persona', 'human'],
+    }),
+  ],
+  [
+    objectShape(toolSchema).metadata,
+    (converted) => ({ ...converted, properties: { _mastra_tool: ref('MastraToolMetadata') } }),
+  ],
+  [
+    toolSchema,
+    (converted) => ({
+      ...converted,
+      if: { properties: { type: { enum: ['python', 'javascript'] } }, required: ['type'] },
+      then: {
+        required: ['source_code'],
+        properties: { source_code: { type: 'string', minLength: 1 } },
+      },
+    }),
+  ],
+  [
+    mastraToolMetadataSchema,
+    (converted) => ({
+      ...converted,
+      allOf: [
+        {
+          if: { properties: { type: { const: 'mcp' } }, required: ['type'] },
+          then: {
+            required: ['server', 'tool_name'],
+            properties: {
+              server: { type: 'string', minLength: 1 },
+              tool_name: { type: 'string', minLength: 1 },
+            },
+          },
+        },
+        {
+          if: { properties: { type: { const: 'url' } }, required: ['type'] },
+          then: {
+            required: ['endpoint'],
+            properties: { endpoint: { type: 'string', minLength: 1 } },
+          },
+        },
+      ],
+    }),
+  ],
+]);
+
+function withDescription(converted: JsonSchema, schema: z.ZodTypeAny): JsonSchema {
+  // References carry the description of their definition
+  if (!schema.description || '$ref' in converted) {
+    return converted;
+  }
+  return { description: schema.description, ...converted };
+}
+
+function convertString(schema: z.ZodString): JsonSchema {
+  const converted: JsonSchema = { type: 'string' };
+  for (const check of schema._def.checks) {
+    if (check.kind === 'min') {
+      converted.minLength = check.value;
+    } else if (check.kind === 'max') {
+      converted.maxLength = check.value;
+    } else if (check.kind === 'datetime') {
+      converted.format = 'date-time';
+      converted.pattern = ISO8601_UTC_PATTERN;
+    } else if (check.kind === 'url') {
+      converted.format = 'uri';
+    }
+  }
+  return converted;
+}
+
+function convertNumber(schema: z.ZodNumber): JsonSchema {
+  const converted: JsonSchema = { type: 'number' };
+  for (const check of schema._def.checks) {
+    if (check.kind === 'int') {
+      converted.type = 'integer';
+    } else if (check.kind === 'min') {
+      converted[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+    } else if (check.kind === 'max') {
+      converted[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+    }
+  }
+  return converted;
+}
+
+function convertObject(schema: z.AnyZodObject): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+  for (const [key, field] of Object.entries(schema.shape as z.ZodRawShape)) {
+    properties[key] = convert(field);
+    if (!field.isOptional()) {
+      required.push(key);
+    }
+  }
+
+  // Zod strips unknown keys rather than rejecting them, so they stay allowed
+  return {
+    type: 'object',
+    properties,
+    ...(required.length > 0 ? { required } : {}),
+  };
+}
+
+/**
+ * Convert a Zod schema to JSON Schema, referencing named definitions
+ */
+function convert(schema: z.ZodTypeAny, inline = false): JsonSchema {
+  const name = DEFINITIONS.get(schema);
+  if (name && !inline) {
+    return ref(name);
+  }
+
+  let converted: JsonSchema;
+  if (schema instanceof z.ZodEffects) {
+    converted = convert(schema.innerType());
+  } else if (schema instanceof z.ZodLazy) {
+    converted = convert(schema.schema);
+  } else if (schema instanceof z.ZodOptional) {
+    converted = convert(schema.unwrap());
+  } else if (schema instanceof z.ZodNullable) {
+    converted = { anyOf: [convert(schema.unwrap()), { type: 'null' }] };
+  } else if (schema instanceof z.ZodObject) {
+    converted = convertObject(schema);
+  } else if (schema instanceof z.ZodArray) {
+    converted = { type: 'array', items: convert(schema.element) };
+  } else if (schema instanceof z.ZodRecord) {
+    converted = { type: 'object', additionalProperties: convert(schema.valueSchema) };
+  } else if (schema instanceof z.ZodString) {
+    converted = convertString(schema);
+  } else if (schema instanceof z.ZodNumber) {
+    converted = convertNumber(schema);
+  } else if (schema instanceof z.ZodBoolean) {
+    converted = { type: 'boolean' };
+  } else if (schema instanceof z.ZodEnum) {
+    converted = { type: 'string', enum: [...schema.options] };
+  } else if (schema instanceof z.ZodLiteral) {
+    converted = { const: schema.value };
+  } else if (schema instanceof z.ZodUnknown || schema instanceof z.ZodAny) {
+    converted = {};
+  } else {
+    throw new Error(`Unsupported Zod type for JSON Schema: ${schema._def.typeName}`);
+  }
+
+  const refine = REFINEMENTS.get(schema);
+  return withDescription(refine ? refine(converted) : converted, schema);
+}
+
+/**
+ * Generate the JSON Schema document for agent files
+ *
+ * @returns A draft 2020-12 JSON Schema
+ */
+export function generateAfJsonSchema(): JsonSchema {
+  const $defs: Record<string, JsonSchema> = {};
+  for (const [schema, name] of DEFINITIONS) {
+    $defs[name] = convert(schema, true);
+  }
+
+  return {
+    $schema: JSON_SCHEMA_DIALECT,
+    title: 'Letta Agent File (.af)',
+    $comment: `Generated from the Zod schemas in src/schema.ts. Not expressed here: ${UNEXPRESSED_REFINEMENTS.join('; ')}.`,
+    ...convert(afAgentSchema, true),
+    $defs,
+  };
+}
+
+/**
+ * JSON Schema (draft 2020-12) for .af agent files
+ *
+ * Also published as `schema/agent-file.schema.json`.
+ *
+ * @example
+ * ```typescript
+ * import Ajv2020 from 'ajv/dist/2020';
+ * const validate = new Ajv2020().compile(afAgentJsonSchema);
+ * ```
+ */
+export const afAgentJsonSchema: JsonSchema = generateAfJsonSchema();
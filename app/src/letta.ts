@@ -0,0 +1,742 @@
+/**
+ * @fileoverview Adapter for the agent file layout written by Letta itself
+ *
+ * A Letta server exports a document holding lists of entities that refer to
+ * each other by ID:
+ *
+ * ```
+ * agents    agents, referencing blocks and tools via block_ids / tool_ids
+ * blocks    memory blocks, shared between agents
+ * tools     tool definitions, shared between agents
+ * groups, files, sources, mcp_servers
+ * ```
+ *
+ * This module normalizes that layout into one `AfAgentSchema` per agent and
+ * writes agents back out in it. Fields without an `AfAgentSchema` equivalent
+ * are kept under a `letta` key in the matching `metadata_`/`metadata` object
+ * and restored on export. Cross-entity references (`id`, `*_id`, `*_ids`) are
+ * not kept, because groups, files and sources have no counterpart here.
+ *
+ * @module @mastra/portability-af-letta
+ */
+
+import { z } from 'zod';
+import { AgentFileParseError } from './errors';
+import { parseAgentFileObject, type ParseOptions } from './parser';
+import { decodeAgentFileInput, type AgentFileInput } from './compression';
+import type {
+  AfAgentSchema,
+  AfCoreMemoryBlock,
+  AfEmbeddingConfig,
+  AfLLMConfig,
+  AfMessage,
+  AfTool,
+  AfToolCall,
+  AfToolResult,
+  AfToolRule,
+  ToolType,
+} from './types';
+
+/**
+ * Any upstream entity: an ID plus arbitrary fields
+ */
+const lettaEntitySchema = z.object({ id: z.string().min(1, 'ID is required') }).passthrough();
+
+/**
+ * Upstream message schema
+ */
+export const lettaMessageSchema = z
+  .object({
+    id: z.string().min(1, 'Message ID is required'),
+    role: z.string().min(1, 'Role is required'),
+  })
+  .passthrough()
+  .describe('Letta message');
+
+/**
+ * Upstream agent schema
+ */
+export const lettaAgentSchema = z
+  .object({
+    id: z.string().min(1, 'Agent ID is required'),
+    name: z.string().min(1, 'Agent name is required'),
+    block_ids: z.array(z.string()).nullish(),
+    tool_ids: z.array(z.string()).nullish(),
+    messages: z.array(lettaMessageSchema).nullish(),
+    in_context_message_ids: z.array(z.string()).nullish(),
+  })
+  .passthrough()
+  .describe('Letta agent');
+
+/**
+ * Upstream agent file schema
+ */
+export const lettaAgentFileSchema = z
+  .object({
+    agents: z.array(lettaAgentSchema),
+    groups: z.array(lettaEntitySchema).nullish(),
+    blocks: z.array(lettaEntitySchema).nullish(),
+    files: z.array(lettaEntitySchema).nullish(),
+    sources: z.array(lettaEntitySchema).nullish(),
+    tools: z.array(lettaEntitySchema).nullish(),
+    mcp_servers: z.array(lettaEntitySchema).nullish(),
+    metadata: z.record(z.unknown()).nullish(),
+    created_at: z.string().nullish(),
+  })
+  .passthrough()
+  .describe('Letta agent file');
+
+/**
+ * An entity in the upstream layout
+ */
+export type LettaEntity = Record<string, unknown> & { id: string };
+
+/**
+ * A document in Letta's upstream agent file layout
+ */
+export interface LettaAgentFile {
+  agents: LettaEntity[];
+  groups: LettaEntity[];
+  blocks: LettaEntity[];
+  files: LettaEntity[];
+  sources: LettaEntity[];
+  tools: LettaEntity[];
+  mcp_servers: LettaEntity[];
+  metadata: Record<string, unknown>;
+  created_at?: string;
+}
+
+/**
+ * Key under which upstream-only fields are preserved
+ */
+const LETTA_METADATA_KEY = 'letta';
+
+type Fields = Record<string, unknown>;
+
+function isPlainObject(value: unknown): value is Fields {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Copy fields that are not consumed by the mapping, dropping nulls and
+ * references to entities that are not imported
+ */
+function extraFields(source: Fields, consumed: readonly string[]): Fields {
+  const extras: Fields = {};
+  for (const [key, value] of Object.entries(source)) {
+    if (
+      consumed.includes(key) ||
+      value === null ||
+      value === undefined ||
+      key === 'id' ||
+      key.endsWith('_id') ||
+      key.endsWith('_ids')
+    ) {
+      continue;
+    }
+    extras[key] = value;
+  }
+  return extras;
+}
+
+/**
+ * Attach preserved upstream fields to a metadata object
+ */
+function withExtras(metadata: unknown, extras: Fields): Fields | undefined {
+  const base = isPlainObject(metadata) ? metadata : {};
+  if (Object.keys(extras).length === 0) {
+    return Object.keys(base).length > 0 ? base : undefined;
+  }
+  return { ...base, [LETTA_METADATA_KEY]: extras };
+}
+
+/**
+ * Split preserved upstream fields back out of a metadata object
+ */
+function takeExtras(metadata: Fields | undefined): { metadata?: Fields; extras: Fields } {
+  if (!metadata) {
+    return { extras: {} };
+  }
+  const { [LETTA_METADATA_KEY]: extras, ...rest } = metadata;
+  return {
+    metadata: Object.keys(rest).length > 0 ? rest : undefined,
+    extras: isPlainObject(extras) ? extras : {},
+  };
+}
+
+/**
+ * Drop null and undefined values (Python serializes unset fields as null)
+ */
+function withoutNulls(value: Fields): Fields {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, child]) => child !== null && child !== undefined)
+  );
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+/**
+ * Normalize an upstream timestamp to ISO 8601 in UTC
+ *
+ * Naive timestamps (no zone designator) are taken to be UTC. Unparseable
+ * values are dropped so auto-fix can fill them in.
+ */
+function normalizeTimestamp(value: unknown): string | undefined {
+  if (typeof value !== 'string' || value === '') {
+    return undefined;
+  }
+  const zoned = /(?:Z|[+-]\d{2}:?\d{2})$/i.test(value) ? value : `${value}Z`;
+  const date = new Date(zoned);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+/**
+ * Index upstream entities by ID
+ */
+function indexById(entities: readonly LettaEntity[] | null | undefined): Map<string, LettaEntity> {
+  return new Map((entities ?? []).map((entity) => [entity.id, entity]));
+}
+
+/**
+ * Resolve a referenced entity, failing with the referencing path
+ */
+function resolve(
+  entities: Map<string, LettaEntity>,
+  id: string,
+  kind: string,
+  path: string
+): LettaEntity {
+  const entity = entities.get(id);
+  if (!entity) {
+    throw new AgentFileParseError(`Letta agent file references unknown ${kind}: ${id} (at ${path})`);
+  }
+  return entity;
+}
+
+function toLLMConfig(config: unknown): AfLLMConfig | undefined {
+  if (!isPlainObject(config)) {
+    return undefined;
+  }
+  const rest = withoutNulls(config);
+  return {
+    ...rest,
+    provider:
+      optionalString(rest.provider_name) ?? optionalString(rest.model_endpoint_type) ?? 'unknown',
+    model: optionalString(rest.model) ?? 'unknown',
+  };
+}
+
+function toEmbeddingConfig(config: unknown): AfEmbeddingConfig | undefined {
+  if (!isPlainObject(config)) {
+    return undefined;
+  }
+  const { embedding_endpoint_type, embedding_model, embedding_dim, ...rest } = withoutNulls(config);
+  return {
+    ...rest,
+    provider: optionalString(embedding_endpoint_type) ?? 'unknown',
+    model: optionalString(embedding_model) ?? 'unknown',
+    dimensions: typeof embedding_dim === 'number' ? embedding_dim : undefined,
+  };
+}
+
+function toCoreMemoryBlock(block: LettaEntity): AfCoreMemoryBlock {
+  return {
+    label: String(block.label ?? ''),
+    value: typeof block.value === 'string' ? block.value : '',
+    character_limit: typeof block.limit === 'number' ? block.limit : undefined,
+    metadata: withExtras(block.metadata, extraFields(block, ['label', 'value', 'limit', 'metadata'])),
+  };
+}
+
+/**
+ * Map an upstream source type to a tool type
+ *
+ * Tools without source code (e.g. Letta's built-in tools) become schema-only.
+ */
+function toToolType(tool: LettaEntity): ToolType {
+  if (typeof tool.source_code !== 'string' || tool.source_code === '') {
+    return 'json_schema';
+  }
+  if (tool.source_type === 'python') {
+    return 'python';
+  }
+  if (tool.source_type === 'javascript' || tool.source_type === 'typescript') {
+    return 'javascript';
+  }
+  return 'json_schema';
+}
+
+function toTool(tool: LettaEntity): AfTool {
+  const jsonSchema = isPlainObject(tool.json_schema) ? tool.json_schema : {};
+  const parameters = isPlainObject(jsonSchema.parameters)
+    ? jsonSchema.parameters
+    : { type: 'object', properties: {} };
+  const name = optionalString(tool.name) ?? optionalString(jsonSchema.name) ?? '';
+  const type = toToolType(tool);
+
+  return {
+    name,
+    description:
+      optionalString(tool.description) ?? optionalString(jsonSchema.description) ?? name,
+    type,
+    parameters: parameters as unknown as AfTool['parameters'],
+    source_code: type === 'json_schema' ? undefined : (tool.source_code as string),
+    metadata: withExtras(
+      tool.metadata_,
+      extraFields(tool, ['name', 'description', 'source_type', 'source_code', 'json_schema', 'metadata_'])
+    ),
+  };
+}
+
+/**
+ * Map an upstream tool rule ({ tool_name, type, ...settings }) to a tool rule
+ */
+function toToolRule(rule: unknown): AfToolRule | undefined {
+  if (!isPlainObject(rule) || typeof rule.tool_name !== 'string') {
+    return undefined;
+  }
+  const { tool_name, type, ...settings } = withoutNulls(rule);
+  return {
+    tool_name: tool_name as string,
+    rule_type: String(type ?? 'unknown'),
+    rule_content: JSON.stringify(settings),
+  };
+}
+
+/**
+ * Extract the text of upstream message content (a string or a list of parts)
+ */
+function contentText(content: unknown): { text: string; textOnly: boolean } {
+  if (typeof content === 'string') {
+    return { text: content, textOnly: true };
+  }
+  if (!Array.isArray(content)) {
+    return { text: '', textOnly: true };
+  }
+  const texts: string[] = [];
+  let textOnly = true;
+  for (const part of content) {
+    if (isPlainObject(part) && part.type === 'text' && typeof part.text === 'string') {
+      texts.push(part.text);
+    } else {
+      textOnly = false;
+    }
+  }
+  return { text: texts.join('\n'), textOnly };
+}
+
+function toToolCall(call: unknown): AfToolCall | undefined {
+  if (!isPlainObject(call) || !isPlainObject(call.function)) {
+    return undefined;
+  }
+  const { name, arguments: rawArguments } = call.function;
+  let args: unknown = rawArguments;
+  if (typeof rawArguments === 'string') {
+    try {
+      args = JSON.parse(rawArguments);
+    } catch {
+      args = undefined;
+    }
+  }
+  return {
+    id: String(call.id ?? ''),
+    name: String(name ?? ''),
+    // Arguments that are not a JSON object are kept verbatim
+    arguments: isPlainObject(args) ? args : { _raw: rawArguments },
+  };
+}
+
+function toToolResults(message: LettaEntity, text: string): AfToolResult[] | undefined {
+  const name = String(message.name ?? '');
+  if (Array.isArray(message.tool_returns) && message.tool_returns.length > 0) {
+    return message.tool_returns.filter(isPlainObject).map((toolReturn) => {
+      const failed = toolReturn.status === 'error';
+      return {
+        id: String(toolReturn.tool_call_id ?? message.tool_call_id ?? ''),
+        name,
+        result: failed ? undefined : toolReturn.func_response,
+        error: failed ? String(toolReturn.func_response ?? 'error') : undefined,
+      };
+    });
+  }
+  if (typeof message.tool_call_id === 'string') {
+    return [{ id: message.tool_call_id, name, result: text }];
+  }
+  return undefined;
+}
+
+function toMessage(message: LettaEntity): AfMessage {
+  const { text, textOnly } = contentText(message.content ?? message.text);
+  const toolCalls = Array.isArray(message.tool_calls)
+    ? message.tool_calls.map(toToolCall).filter((call): call is AfToolCall => !!call)
+    : [];
+
+  const consumed = ['role', 'text', 'created_at', 'tool_calls', 'tool_returns', 'metadata'];
+  // Non-text content parts (images, reasoning) are kept verbatim
+  if (textOnly) {
+    consumed.push('content');
+  }
+  if (message.role === 'tool') {
+    consumed.push('name');
+  }
+
+  return {
+    id: message.id,
+    role: message.role as AfMessage['role'],
+    text,
+    timestamp: normalizeTimestamp(message.created_at) as string,
+    tool_calls: toolCalls.length > 0 ? toolCalls : undefined,
+    tool_results: message.role === 'tool' ? toToolResults(message, text) : undefined,
+    metadata: withExtras(message.metadata, extraFields(message, consumed)),
+  };
+}
+
+/**
+ * Upstream environment variables are either a record or a list of
+ * { key, value } entries
+ */
+function toEnvironmentVariables(value: unknown): Record<string, string> | undefined {
+  if (Array.isArray(value)) {
+    const entries = value
+      .filter(isPlainObject)
+      .map((entry) => [String(entry.key), String(entry.value ?? '')]);
+    return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+  }
+  return isPlainObject(value) ? (withoutNulls(value) as Record<string, string>) : undefined;
+}
+
+/**
+ * Fields of an upstream agent mapped onto `AfAgentSchema`
+ */
+const CONSUMED_AGENT_FIELDS = [
+  'agent_type',
+  'name',
+  'description',
+  'system',
+  'llm_config',
+  'embedding_config',
+  'messages',
+  'tool_rules',
+  'tool_exec_environment_variables',
+  'tags',
+  'metadata',
+  'version',
+  'created_at',
+  'updated_at',
+];
+
+/**
+ * Check whether data uses Letta's upstream agent file layout
+ *
+ * @param data - Parsed JSON
+ * @returns True if the data has a top-level `agents` list
+ */
+export function isLettaAgentFile(data: unknown): boolean {
+  return isPlainObject(data) && Array.isArray(data.agents);
+}
+
+/**
+ * Normalize a document in Letta's upstream layout into agents
+ *
+ * Each agent's referenced blocks become its `core_memory` (keyed by label)
+ * and its referenced tools are inlined. Every agent is then validated like
+ * any other agent file, so `options` controls auto-fixing and strictness.
+ *
+ * @param data - Parsed upstream agent file
+ * @param options - Parsing options applied to each normalized agent
+ * @returns One validated agent per upstream agent, in file order
+ * @throws {AgentFileParseError} If the layout is invalid, a reference is
+ *   dangling or a normalized agent fails validation
+ *
+ * @example
+ * ```typescript
+ * const agents = fromLettaAgentFile(JSON.parse(await fs.readFile('export.af', 'utf-8')));
+ * console.log(agents.map((agent) => agent.name));
+ * ```
+ */
+export function fromLettaAgentFile(data: unknown, options: ParseOptions = {}): AfAgentSchema[] {
+  const result = lettaAgentFileSchema.safeParse(data);
+  if (!result.success) {
+    throw new AgentFileParseError('Letta agent file validation failed', {
+      validationErrors: result.error.errors.map((err) => ({
+        path: err.path.join('.'),
+        message: err.message,
+        code: err.code,
+      })),
+    });
+  }
+
+  const file = result.data;
+  const blocks = indexById(file.blocks);
+  const tools = indexById(file.tools);
+
+  return file.agents.map((agent, agentIndex) => {
+    const path = `agents.${agentIndex}`;
+
+    const coreMemory: Record<string, AfCoreMemoryBlock> = {};
+    (agent.block_ids ?? []).forEach((id, index) => {
+      const block = toCoreMemoryBlock(resolve(blocks, id, 'block', `${path}.block_ids.${index}`));
+      coreMemory[block.label] = block;
+    });
+
+    const messages = (agent.messages ?? []).map(toMessage);
+    const messageIndices = new Map(messages.map((message, index) => [message.id, index]));
+    const inContext = (agent.in_context_message_ids ?? [])
+      .map((id) => messageIndices.get(id))
+      .filter((index): index is number => index !== undefined);
+
+    const toolRules = Array.isArray(agent.tool_rules)
+      ? agent.tool_rules.map(toToolRule).filter((rule): rule is AfToolRule => !!rule)
+      : [];
+
+    const createdAt = normalizeTimestamp(agent.created_at) ?? normalizeTimestamp(file.created_at);
+    const normalized = {
+      agent_type: optionalString(agent.agent_type) ?? 'letta',
+      name: agent.name,
+      description: optionalString(agent.description),
+      system: agent.system,
+      llm_config: toLLMConfig(agent.llm_config),
+      embedding_config: toEmbeddingConfig(agent.embedding_config),
+      core_memory: coreMemory,
+      messages,
+      in_context_message_indices: agent.in_context_message_ids ? inContext : undefined,
+      tools: (agent.tool_ids ?? []).map((id, index) =>
+        toTool(resolve(tools, id, 'tool', `${path}.tool_ids.${index}`))
+      ),
+      tool_rules: toolRules.length > 0 ? toolRules : undefined,
+      tool_exec_environment_variables: toEnvironmentVariables(agent.tool_exec_environment_variables),
+      tags: Array.isArray(agent.tags) && agent.tags.length > 0 ? agent.tags : undefined,
+      metadata_: withExtras(agent.metadata, extraFields(agent, CONSUMED_AGENT_FIELDS)),
+      version: optionalString(agent.version),
+      created_at: createdAt,
+      updated_at: normalizeTimestamp(agent.updated_at) ?? createdAt,
+    };
+
+    try {
+      return parseAgentFileObject(normalized, options);
+    } catch (error) {
+      if (!(error instanceof AgentFileParseError)) {
+        throw error;
+      }
+      throw new AgentFileParseError(`Letta agent "${agent.name}" (${path}) is invalid`, {
+        validationErrors: error.validationErrors,
+        cause: error,
+      });
+    }
+  });
+}
+
+/**
+ * Parse a Letta agent file from JSON text or raw (optionally gzipped) bytes
+ *
+ * @param input - JSON string or raw file bytes
+ * @param options - Parsing options applied to each normalized agent
+ * @returns One validated agent per upstream agent
+ * @throws {AgentFileParseError} If the input is not valid JSON or not a valid Letta agent file
+ */
+export function parseLettaAgentFile(
+  input: AgentFileInput,
+  options: ParseOptions = {}
+): AfAgentSchema[] {
+  const { maxSize = 52428800 } = options;
+  const jsonString = decodeAgentFileInput(input, maxSize);
+
+  let data: unknown;
+  try {
+    data = JSON.parse(jsonString);
+  } catch (error) {
+    throw new AgentFileParseError(`Invalid JSON format: ${(error as Error).message}`, {
+      cause: error as Error,
+    });
+  }
+  return fromLettaAgentFile(data, options);
+}
+
+/**
+ * Upstream source type for each tool type
+ */
+const LETTA_SOURCE_TYPES: Record<ToolType, string> = {
+  python: 'python',
+  javascript: 'javascript',
+  json_schema: 'json',
+};
+
+function fromLLMConfig(config: AfLLMConfig | undefined): Fields | undefined {
+  if (!config) {
+    return undefined;
+  }
+  const { provider, ...rest } = config;
+  // Only restore the provider when the upstream fields it came from are gone
+  if (rest.provider_name === undefined && rest.model_endpoint_type === undefined) {
+    return { ...rest, model_endpoint_type: provider };
+  }
+  return rest;
+}
+
+function fromEmbeddingConfig(config: AfEmbeddingConfig | undefined): Fields | undefined {
+  if (!config) {
+    return undefined;
+  }
+  const { provider, model, dimensions, ...rest } = config;
+  return withoutNulls({
+    ...rest,
+    embedding_endpoint_type: provider,
+    embedding_model: model,
+    embedding_dim: dimensions,
+  });
+}
+
+function fromTool(tool: AfTool, id: string): LettaEntity {
+  const { metadata, extras } = takeExtras(tool.metadata);
+  return withoutNulls({
+    id,
+    tool_type: 'custom',
+    ...extras,
+    name: tool.name,
+    description: tool.description,
+    source_type: LETTA_SOURCE_TYPES[tool.type],
+    source_code: tool.source_code,
+    json_schema: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters,
+    },
+    metadata_: metadata,
+  }) as LettaEntity;
+}
+
+function fromToolRule(rule: AfToolRule): Fields {
+  let settings: unknown;
+  try {
+    settings = JSON.parse(rule.rule_content);
+  } catch {
+    settings = undefined;
+  }
+  return {
+    ...(isPlainObject(settings) ? settings : { rule_content: rule.rule_content }),
+    tool_name: rule.tool_name,
+    type: rule.rule_type,
+  };
+}
+
+function fromToolResult(result: AfToolResult): Fields {
+  const response = result.error ?? result.result;
+  return {
+    tool_call_id: result.id,
+    status: result.error !== undefined ? 'error' : 'success',
+    func_response: typeof response === 'string' ? response : JSON.stringify(response ?? null),
+  };
+}
+
+function fromMessage(message: AfMessage): LettaEntity {
+  const { metadata, extras } = takeExtras(message.metadata);
+  const results = message.tool_results ?? [];
+
+  return withoutNulls({
+    id: message.id,
+    role: message.role,
+    content: [{ type: 'text', text: message.text }],
+    ...extras,
+    name: message.role === 'tool' ? results[0]?.name : extras.name,
+    created_at: message.timestamp,
+    tool_calls: message.tool_calls?.map((call) => ({
+      id: call.id,
+      type: 'function',
+      function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+    })),
+    tool_call_id: results[0]?.id,
+    tool_returns: results.length > 0 ? results.map(fromToolResult) : undefined,
+    metadata,
+  }) as LettaEntity;
+}
+
+/**
+ * Write agents in Letta's upstream agent file layout
+ *
+ * Memory blocks become top-level `blocks` referenced by ID, and tools are
+ * shared across agents when their definitions are identical. The result
+ * is a plain object; serialize it with `JSON.stringify`.
+ *
+ * @param agents - Agent or agents to write
+ * @returns Document in the upstream layout
+ *
+ * @example
+ * ```typescript
+ * const file = toLettaAgentFile([researcher, writer]);
+ * await fs.writeFile('team.af', JSON.stringify(file, null, 2));
+ * ```
+ */
+export function toLettaAgentFile(agents: AfAgentSchema | readonly AfAgentSchema[]): LettaAgentFile {
+  const list: readonly AfAgentSchema[] = Array.isArray(agents) ? agents : [agents as AfAgentSchema];
+  const blocks: LettaEntity[] = [];
+  const tools: LettaEntity[] = [];
+  const toolIds = new Map<string, string>();
+
+  const lettaAgents = list.map((agent, agentIndex): LettaEntity => {
+    const blockIds = Object.values(agent.core_memory).map((block) => {
+      const id = `block-${blocks.length}`;
+      const { metadata, extras } = takeExtras(block.metadata);
+      blocks.push(
+        withoutNulls({
+          id,
+          ...extras,
+          label: block.label,
+          value: block.value,
+          limit: block.character_limit,
+          metadata,
+        }) as LettaEntity
+      );
+      return id;
+    });
+
+    const agentToolIds = agent.tools.map((tool) => {
+      // Identical definitions are shared; the ID is excluded from the key
+      const key = JSON.stringify(fromTool(tool, ''));
+      let id = toolIds.get(key);
+      if (id === undefined) {
+        id = `tool-${tools.length}`;
+        toolIds.set(key, id);
+        tools.push(fromTool(tool, id));
+      }
+      return id;
+    });
+
+    const { metadata, extras } = takeExtras(agent.metadata_);
+    return withoutNulls({
+      id: `agent-${agentIndex}`,
+      ...extras,
+      name: agent.name,
+      agent_type: agent.agent_type,
+      description: agent.description,
+      system: agent.system,
+      llm_config: fromLLMConfig(agent.llm_config),
+      embedding_config: fromEmbeddingConfig(agent.embedding_config),
+      block_ids: blockIds,
+      tool_ids: agentToolIds,
+      tool_rules: agent.tool_rules?.map(fromToolRule),
+      tool_exec_environment_variables: agent.tool_exec_environment_variables,
+      tags: agent.tags ?? [],
+      messages: agent.messages.map(fromMessage),
+      in_context_message_ids: agent.in_context_message_indices
+        ?.map((index) => agent.messages[index]?.id)
+        .filter((id): id is string => id !== undefined),
+      metadata,
+      version: agent.version,
+      created_at: agent.created_at,
+      updated_at: agent.updated_at,
+    }) as LettaEntity;
+  });
+
+  return {
+    agents: lettaAgents,
+    groups: [],
+    blocks,
+    files: [],
+    sources: [],
+    tools,
+    mcp_servers: [],
+    metadata: {},
+  };
+}
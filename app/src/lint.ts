@@ -0,0 +1,476 @@
+/**
+ * @fileoverview Configurable lint rules for .af (Agent File) documents
+ *
+ * Schema validation checks shape; lint rules check quality. Each rule has
+ * an ID and a default severity that a config can override per rule, so a
+ * team can share one ruleset as a JSON file:
+ *
+ * ```json
+ * {
+ *   "rules": {
+ *     "unused-tool": "off",
+ *     "tag-allowlist": ["error", { "allowed": ["support", "sales"] }]
+ *   }
+ * }
+ * ```
+ *
+ * @module @mastra/portability-af-letta
+ */
+
+import { promises as fs } from 'fs';
+import { z } from 'zod';
+import { AgentFileParseError } from './errors';
+import type { AfAgentSchema, AfParameterProperty } from './types';
+
+/**
+ * Severity of a rule; `off` disables it
+ */
+export type LintSeverity = 'off' | 'warn' | 'error';
+
+/**
+ * A problem reported by a lint rule
+ */
+export interface LintFinding {
+  /**
+   * ID of the rule that reported the problem
+   */
+  ruleId: string;
+
+  severity: Exclude<LintSeverity, 'off'>;
+
+  /**
+   * Dotted path to the offending value, e.g. "tools.2.name"
+   */
+  path: string;
+
+  message: string;
+
+  /**
+   * How to fix the problem
+   */
+  suggestion: string;
+}
+
+/**
+ * A problem as reported by a rule, before severity is attached
+ */
+export type LintProblem = Pick<LintFinding, 'path' | 'message' | 'suggestion'>;
+
+/**
+ * A named lint rule
+ */
+export interface LintRule<Options = unknown> {
+  id: string;
+  description: string;
+  defaultSeverity: LintSeverity;
+
+  /**
+   * Schema for the rule's options; rules without one take no options
+   */
+  optionsSchema?: z.ZodType<Options>;
+
+  /**
+   * Whether the rule does nothing without options, so enabling it without
+   * them is a config error
+   */
+  requiresOptions?: boolean;
+
+  check(agent: AfAgentSchema, options: Options | undefined): LintProblem[];
+}
+
+/**
+ * Severity of a rule, optionally with rule options
+ */
+export type LintRuleSetting = LintSeverity | [LintSeverity] | [LintSeverity, unknown];
+
+/**
+ * Lint configuration
+ */
+export interface LintConfig {
+  /**
+   * Per-rule settings keyed by rule ID; rules not listed use their default severity
+   */
+  rules?: Record<string, LintRuleSetting>;
+}
+
+/**
+ * Outcome of linting an agent
+ */
+export interface LintResult {
+  /**
+   * Findings in rule order, then document order
+   */
+  findings: LintFinding[];
+  errorCount: number;
+  warningCount: number;
+}
+
+const lintSeveritySchema = z.enum(['off', 'warn', 'error'], {
+  errorMap: () => ({ message: 'Severity must be one of: off, warn, error' }),
+});
+
+/**
+ * Lint configuration schema
+ */
+export const lintConfigSchema = z
+  .object({
+    rules: z
+      .record(
+        z.union([
+          lintSeveritySchema,
+          z.tuple([lintSeveritySchema]),
+          z.tuple([lintSeveritySchema, z.unknown()]),
+        ])
+      )
+      .optional(),
+  })
+  .strict()
+  .describe('Lint configuration');
+
+const duplicateToolName: LintRule = {
+  id: 'duplicate-tool-name',
+  description: 'Tool names must be unique',
+  defaultSeverity: 'error',
+  check(agent) {
+    const seen = new Set<string>();
+    const problems: LintProblem[] = [];
+    agent.tools.forEach((tool, index) => {
+      if (seen.has(tool.name)) {
+        problems.push({
+          path: `tools.${index}.name`,
+          message: `Duplicate tool name "${tool.name}"`,
+          suggestion: 'Rename the tool or remove the duplicate definition',
+        });
+      }
+      seen.add(tool.name);
+    });
+    return problems;
+  },
+};
+
+const duplicateMessageId: LintRule = {
+  id: 'duplicate-message-id',
+  description: 'Message IDs must be unique',
+  defaultSeverity: 'error',
+  check(agent) {
+    const seen = new Set<string>();
+    const problems: LintProblem[] = [];
+    agent.messages.forEach((message, index) => {
+      if (seen.has(message.id)) {
+        problems.push({
+          path: `messages.${index}.id`,
+          message: `Duplicate message ID "${message.id}"`,
+          suggestion: 'Give every message a unique ID',
+        });
+      }
+      seen.add(message.id);
+    });
+    return problems;
+  },
+};
+
+/**
+ * Markdown headings and XML-style tags that open a system prompt section
+ */
+const HEADING_PATTERN = /^#{1,6}\s+(.+?)\s*#*\s*$/;
+const EMPTY_TAG_PATTERN = /<([A-Za-z][\w-]*)(?:\s[^>]*)?>\s*<\/\1>/g;
+
+const emptySystemSection: LintRule = {
+  id: 'empty-system-section',
+  description: 'System prompt sections must have content',
+  defaultSeverity: 'warn',
+  check(agent) {
+    if (agent.system.trim() === '') {
+      return [
+        {
+          path: 'system',
+          message: 'System prompt is blank',
+          suggestion: 'Write instructions for the agent',
+        },
+      ];
+    }
+
+    const problems: LintProblem[] = [];
+    const lines = agent.system.split('\n');
+    lines.forEach((line, index) => {
+      const heading = HEADING_PATTERN.exec(line);
+      if (!heading) {
+        return;
+      }
+      // A section ends at the next heading of any level
+      const next = lines.slice(index + 1).findIndex((l) => HEADING_PATTERN.test(l));
+      const body = lines.slice(index + 1, next === -1 ? undefined : index + 1 + next);
+      if (body.every((l) => l.trim() === '')) {
+        problems.push({
+          path: 'system',
+          message: `System prompt section "${heading[1]}" (line ${index + 1}) is empty`,
+          suggestion: 'Add content to the section or remove its heading',
+        });
+      }
+    });
+
+    for (const match of agent.system.matchAll(EMPTY_TAG_PATTERN)) {
+      problems.push({
+        path: 'system',
+        message: `System prompt section <${match[1]}> is empty`,
+        suggestion: 'Add content to the section or remove the tags',
+      });
+    }
+    return problems;
+  },
+};
+
+const memoryOverLimit: LintRule = {
+  id: 'memory-over-limit',
+  description: 'Core memory blocks must fit their character_limit',
+  defaultSeverity: 'error',
+  check(agent) {
+    return Object.entries(agent.core_memory)
+      .filter(
+        ([, block]) =>
+          block.character_limit !== undefined && block.value.length > block.character_limit
+      )
+      .map(([key, block]) => ({
+        path: `core_memory.${key}.value`,
+        message: `Memory block "${block.label}" has ${block.value.length} characters (limit: ${block.character_limit})`,
+        suggestion: 'Shorten the block value or raise its character_limit',
+      }));
+  },
+};
+
+const emptyParameterDescription: LintRule = {
+  id: 'empty-parameter-description',
+  description: 'Tool parameters should be described',
+  defaultSeverity: 'warn',
+  check(agent) {
+    const problems: LintProblem[] = [];
+    const visit = (
+      properties: Record<string, AfParameterProperty> | undefined,
+      path: string,
+      toolName: string
+    ) => {
+      for (const [name, property] of Object.entries(properties ?? {})) {
+        const propertyPath = `${path}.${name}`;
+        if (!property.description || property.description.trim() === '') {
+          problems.push({
+            path: `${propertyPath}.description`,
+            message: `Parameter "${name}" of tool "${toolName}" has no description`,
+            suggestion: 'Describe what the parameter means so the model can fill it in',
+          });
+        }
+        visit(property.properties, `${propertyPath}.properties`, toolName);
+        if (property.items) {
+          visit(property.items.properties, `${propertyPath}.items.properties`, toolName);
+        }
+      }
+    };
+    agent.tools.forEach((tool, index) =>
+      visit(tool.parameters.properties, `tools.${index}.parameters.properties`, tool.name)
+    );
+    return problems;
+  },
+};
+
+const unusedTool: LintRule = {
+  id: 'unused-tool',
+  description: 'Tools should be called somewhere in the message history',
+  defaultSeverity: 'warn',
+  check(agent) {
+    // Without history there is nothing to judge usage by
+    if (agent.messages.length === 0) {
+      return [];
+    }
+    const called = new Set(
+      agent.messages.flatMap((message) => (message.tool_calls ?? []).map((call) => call.name))
+    );
+    return agent.tools
+      .map((tool, index) => ({ tool, index }))
+      .filter(({ tool }) => !called.has(tool.name))
+      .map(({ tool, index }) => ({
+        path: `tools.${index}`,
+        message: `Tool "${tool.name}" is never called in the message history`,
+        suggestion: 'Remove the tool if the agent does not need it',
+      }));
+  },
+};
+
+const tagAllowlist: LintRule<{ allowed: string[] }> = {
+  id: 'tag-allowlist',
+  description: 'Tags must come from an allowlist',
+  defaultSeverity: 'off',
+  optionsSchema: z.object({ allowed: z.array(z.string()) }).strict(),
+  requiresOptions: true,
+  check(agent, options) {
+    if (!options) {
+      return [];
+    }
+    const allowed = new Set(options.allowed);
+    return (agent.tags ?? [])
+      .map((tag, index) => ({ tag, index }))
+      .filter(({ tag }) => !allowed.has(tag))
+      .map(({ tag, index }) => ({
+        path: `tags.${index}`,
+        message: `Tag "${tag}" is not in the allowlist`,
+        suggestion: `Use one of: ${options.allowed.join(', ')}`,
+      }));
+  },
+};
+
+/**
+ * Built-in lint rules, in the order they run
+ *
+ * Each rule's options are checked against its `optionsSchema` before its
+ * `check` runs, so rules with typed options can be listed as `LintRule`.
+ */
+export const LINT_RULES: readonly LintRule[] = [
+  duplicateToolName,
+  duplicateMessageId,
+  emptySystemSection,
+  memoryOverLimit,
+  emptyParameterDescription,
+  unusedTool,
+  tagAllowlist,
+];
+
+function configError(message: string, path: string, code: string): AgentFileParseError {
+  return new AgentFileParseError('Invalid lint config', {
+    validationErrors: [{ path, message, code }],
+  });
+}
+
+/**
+ * Resolve each rule's severity and options from a config
+ */
+function resolveRules(
+  config: LintConfig,
+  rules: readonly LintRule[]
+): Array<{ rule: LintRule; severity: LintSeverity; options: unknown }> {
+  const settings = config.rules ?? {};
+  for (const id of Object.keys(settings)) {
+    if (!rules.some((rule) => rule.id === id)) {
+      throw configError(`Unknown lint rule "${id}"`, `rules.${id}`, 'unknown_rule');
+    }
+  }
+
+  return rules.map((rule) => {
+    const setting = settings[rule.id];
+    if (setting === undefined) {
+      return { rule, severity: rule.defaultSeverity, options: undefined };
+    }
+    const [severity, rawOptions] = Array.isArray(setting) ? setting : [setting];
+    if (severity === 'off') {
+      return { rule, severity, options: undefined };
+    }
+    if (rawOptions === undefined) {
+      if (rule.requiresOptions) {
+        throw configError(
+          `Rule "${rule.id}" requires options`,
+          `rules.${rule.id}`,
+          'missing_options'
+        );
+      }
+      return { rule, severity, options: undefined };
+    }
+    if (!rule.optionsSchema) {
+      throw configError(`Rule "${rule.id}" takes no options`, `rules.${rule.id}.1`, 'unexpected_options');
+    }
+    const parsed = rule.optionsSchema.safeParse(rawOptions);
+    if (!parsed.success) {
+      const issue = parsed.error.errors[0];
+      throw configError(
+        issue.message,
+        ['rules', rule.id, '1', ...issue.path].join('.'),
+        issue.code
+      );
+    }
+    return { rule, severity, options: parsed.data };
+  });
+}
+
+/**
+ * Lint an agent against the built-in rules
+ *
+ * @param agent - Validated agent to lint
+ * @param config - Per-rule severity and options
+ * @returns Findings with counts by severity
+ * @throws {AgentFileParseError} If the config names unknown rules or has invalid options
+ *
+ * @example
+ * ```typescript
+ * const { findings, errorCount } = lintAgentFile(agent, {
+ *   rules: { 'tag-allowlist': ['error', { allowed: ['support'] }] },
+ * });
+ * findings.forEach((f) => console.log(`${f.severity} ${f.ruleId} at ${f.path}: ${f.message}`));
+ * ```
+ */
+export function lintAgentFile(agent: AfAgentSchema, config: LintConfig = {}): LintResult {
+  const findings: LintFinding[] = [];
+  for (const { rule, severity, options } of resolveRules(config, LINT_RULES)) {
+    if (severity === 'off') {
+      continue;
+    }
+    for (const problem of rule.check(agent, options)) {
+      findings.push({ ruleId: rule.id, severity, ...problem });
+    }
+  }
+
+  return {
+    findings,
+    errorCount: findings.filter((finding) => finding.severity === 'error').length,
+    warningCount: findings.filter((finding) => finding.severity === 'warn').length,
+  };
+}
+
+/**
+ * Validate a lint config
+ *
+ * @param data - Parsed config object, or its JSON text
+ * @returns Validated config
+ * @throws {AgentFileParseError} If the config is malformed, names unknown
+ *   rules or has invalid rule options
+ */
+export function parseLintConfig(data: unknown): LintConfig {
+  if (typeof data === 'string') {
+    try {
+      data = JSON.parse(data);
+    } catch (error) {
+      throw new AgentFileParseError(`Invalid JSON format in lint config: ${(error as Error).message}`, {
+        cause: error as Error,
+      });
+    }
+  }
+
+  const result = lintConfigSchema.safeParse(data);
+  if (!result.success) {
+    throw new AgentFileParseError('Invalid lint config', {
+      validationErrors: result.error.errors.map((err) => ({
+        path: err.path.join('.'),
+        message: err.message,
+        code: err.code,
+      })),
+    });
+  }
+
+  // Check rule IDs and options up front rather than on first use
+  resolveRules(result.data as LintConfig, LINT_RULES);
+  return result.data as LintConfig;
+}
+
+/**
+ * Load and validate a lint config from a JSON file
+ *
+ * @param path - Path to the config file
+ * @returns Validated config
+ * @throws {AgentFileParseError} If the file cannot be read or the config is invalid
+ */
+export async function loadLintConfig(path: string): Promise<LintConfig> {
+  let content: string;
+  try {
+    content = await fs.readFile(path, 'utf-8');
+  } catch (error) {
+    throw new AgentFileParseError(`Cannot read lint config: ${path}`, {
+      cause: error as Error,
+    });
+  }
+  return parseLintConfig(content);
+}
@@ -0,0 +1,167 @@
+/**
+ * @fileoverview Core memory character limit enforcement
+ *
+ * `character_limit` caps how much text a core memory block may hold. Letta
+ * files call the same setting `limit`; it is accepted as an alias so limits
+ * survive import.
+ *
+ * @module @mastra/portability-af-letta
+ */
+
+import { AgentFileParseError } from './errors';
+import type { AfCoreMemoryBlock } from './types';
+
+/**
+ * What to do with blocks whose value exceeds their limit
+ *
+ * - `error`: fail the parse
+ * - `warn`: keep the value and report the violation
+ * - `truncate`: shorten the value to fit, ending it with `MEMORY_TRUNCATION_MARKER`
+ */
+export type MemoryLimitPolicy = 'error' | 'warn' | 'truncate';
+
+/**
+ * Marker appended to truncated memory values
+ */
+export const MEMORY_TRUNCATION_MARKER = '…';
+
+/**
+ * A core memory block whose value exceeded its limit
+ */
+export interface MemoryLimitViolation {
+  /**
+   * Dotted path to the block's value, e.g. "core_memory.persona.value"
+   */
+  path: string;
+
+  label: string;
+
+  /**
+   * Value length in characters before any truncation
+   */
+  length: number;
+
+  limit: number;
+
+  /**
+   * Whether the value was truncated to fit
+   */
+  truncated: boolean;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Rename the legacy `limit` key of raw core memory blocks to `character_limit`
+ *
+ * An explicit `character_limit` takes precedence over `limit`. The input is
+ * not modified.
+ *
+ * @param data - Raw agent file document
+ * @returns Document with aliases resolved, or the input if there were none
+ */
+export function resolveMemoryLimitAliases<T>(data: T): T {
+  if (!isPlainObject(data) || !isPlainObject(data.core_memory)) {
+    return data;
+  }
+  const blocks = Object.entries(data.core_memory);
+  if (!blocks.some(([, block]) => isPlainObject(block) && 'limit' in block)) {
+    return data;
+  }
+
+  const coreMemory = Object.fromEntries(
+    blocks.map(([key, block]) => {
+      if (!isPlainObject(block) || !('limit' in block)) {
+        return [key, block];
+      }
+      const { limit, ...rest } = block;
+      return [key, { ...rest, character_limit: rest.character_limit ?? limit }];
+    })
+  );
+  return { ...data, core_memory: coreMemory };
+}
+
+/**
+ * Shorten a value to at most `limit` characters, ending with the marker
+ *
+ * @param value - Value to shorten
+ * @param limit - Maximum length in characters
+ * @param marker - Text marking the cut
+ * @returns The value unchanged if it fits, otherwise the truncated value
+ */
+export function truncateMemoryValue(
+  value: string,
+  limit: number,
+  marker: string = MEMORY_TRUNCATION_MARKER
+): string {
+  if (value.length <= limit) {
+    return value;
+  }
+  const keep = Math.max(0, Math.floor(limit) - marker.length);
+  let end = keep;
+  // Never split a surrogate pair
+  if (end > 0 && /[\uD800-\uDBFF]/.test(value[end - 1])) {
+    end -= 1;
+  }
+  return (value.slice(0, end) + marker).slice(0, Math.floor(limit));
+}
+
+/**
+ * Compare core memory values with their character limits
+ *
+ * @param agent - Validated agent or agent header
+ * @param policy - What to do with blocks over their limit
+ * @returns The agent (a copy if values were truncated) and the violations found
+ * @throws {AgentFileParseError} Under the `error` policy, if any block is over its limit
+ *
+ * @example
+ * ```typescript
+ * const { data, violations } = enforceMemoryLimits(agent, 'truncate');
+ * violations.forEach((v) => console.warn(`${v.label}: ${v.length} > ${v.limit}`));
+ * ```
+ */
+export function enforceMemoryLimits<T extends { core_memory: Record<string, AfCoreMemoryBlock> }>(
+  agent: T,
+  policy: MemoryLimitPolicy = 'warn'
+): { data: T; violations: MemoryLimitViolation[] } {
+  const violations: MemoryLimitViolation[] = Object.entries(agent.core_memory)
+    .filter(
+      ([, block]) =>
+        block.character_limit !== undefined && block.value.length > block.character_limit
+    )
+    .map(([key, block]) => ({
+      path: `core_memory.${key}.value`,
+      label: block.label,
+      length: block.value.length,
+      limit: block.character_limit!,
+      truncated: policy === 'truncate',
+    }));
+
+  if (violations.length === 0) {
+    return { data: agent, violations };
+  }
+  if (policy === 'error') {
+    throw new AgentFileParseError('Core memory exceeds character limits', {
+      validationErrors: violations.map((violation) => ({
+        path: violation.path,
+        message: `Memory block "${violation.label}" has ${violation.length} characters (limit: ${violation.limit})`,
+        code: 'memory_limit_exceeded',
+      })),
+    });
+  }
+  if (policy === 'warn') {
+    return { data: agent, violations };
+  }
+
+  const coreMemory = Object.fromEntries(
+    Object.entries(agent.core_memory).map(([key, block]) => [
+      key,
+      block.character_limit === undefined
+        ? block
+        : { ...block, value: truncateMemoryValue(block.value, block.character_limit) },
+    ])
+  );
+  return { data: { ...agent, core_memory: coreMemory }, violations };
+}
@@ -0,0 +1,405 @@
+/**
+ * @fileoverview Three-way merge of .af (Agent File) agents
+ *
+ * Merges two edited copies of an agent against their common ancestor,
+ * section by section: memory blocks by label, tools by name, messages by
+ * ID, tool rules by tool and type, and `llm_config`, `metadata_` and
+ * environment variables by key. An entry changed on only one side takes
+ * that side's version; an entry changed differently on both sides is a
+ * conflict, resolved by a configurable strategy and always reported.
+ *
+ * @module @mastra/portability-af-letta
+ */
+
+import { parseAfSchema } from './schema';
+import { AgentFileParseError } from './errors';
+import type { AfAgentSchema, AfCoreMemoryBlock, AfMessage, AfTool, AfToolRule } from './types';
+
+/**
+ * Sections with separately configurable conflict strategies
+ */
+export type MergeSection =
+  | 'system'
+  | 'llm_config'
+  | 'core_memory'
+  | 'tools'
+  | 'tool_rules'
+  | 'messages'
+  | 'fields';
+
+/**
+ * An entry changed differently on both sides
+ */
+export interface MergeConflict {
+  section: MergeSection;
+
+  /**
+   * Dotted path of the entry, e.g. "core_memory.persona" or "tools.search"
+   */
+  path: string;
+
+  /**
+   * Values on each side; undefined where the entry is absent or deleted
+   */
+  base?: unknown;
+  ours?: unknown;
+  theirs?: unknown;
+
+  /**
+   * How the conflict was resolved
+   */
+  resolution: 'ours' | 'theirs' | 'base' | 'custom';
+}
+
+/**
+ * Custom conflict resolution: returns the merged value, or undefined to drop the entry
+ */
+export type ConflictResolver = (conflict: Omit<MergeConflict, 'resolution'>) => unknown;
+
+/**
+ * How to resolve conflicts: keep one side, revert to the ancestor, or decide per conflict
+ */
+export type ConflictStrategy = 'ours' | 'theirs' | 'base' | ConflictResolver;
+
+/**
+ * Options for merging agents
+ */
+export interface MergeAgentFilesOptions {
+  /**
+   * Strategy for sections without their own
+   * @default 'ours'
+   */
+  strategy?: ConflictStrategy;
+
+  /**
+   * Strategies by section, e.g. `{ core_memory: 'theirs' }`
+   */
+  strategies?: Partial<Record<MergeSection, ConflictStrategy>>;
+}
+
+/**
+ * Result of a three-way merge
+ */
+export interface MergeResult {
+  /**
+   * Merged agent, validated against `afAgentSchema`
+   */
+  data: AfAgentSchema;
+
+  /**
+   * Conflicts found, with the resolution applied to each
+   */
+  conflicts: MergeConflict[];
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Compare JSON values, ignoring key order and undefined properties
+ */
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => isEqual(item, b[index]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return [...keys].every((key) => isEqual(a[key], b[key]));
+  }
+  return false;
+}
+
+/**
+ * Merges single values and records conflicts
+ */
+class Merger {
+  readonly conflicts: MergeConflict[] = [];
+
+  constructor(private readonly options: MergeAgentFilesOptions) {}
+
+  /**
+   * Three-way merge of one entry; undefined means absent
+   */
+  value<T>(section: MergeSection, path: string, base: T, ours: T, theirs: T): T {
+    if (isEqual(ours, theirs) || isEqual(theirs, base)) {
+      return ours;
+    }
+    if (isEqual(ours, base)) {
+      return theirs;
+    }
+
+    const conflict = { section, path, base, ours, theirs };
+    const strategy = this.options.strategies?.[section] ?? this.options.strategy ?? 'ours';
+    if (typeof strategy === 'function') {
+      this.conflicts.push({ ...conflict, resolution: 'custom' });
+      return strategy(conflict) as T;
+    }
+    this.conflicts.push({ ...conflict, resolution: strategy });
+    return conflict[strategy];
+  }
+
+  /**
+   * Merge entries matched by key, keeping our order and adding their new
+   * entries after the entry that precedes them on their side
+   */
+  keyed<T>(
+    section: MergeSection,
+    prefix: string,
+    keyOf: (item: T) => string,
+    base: readonly T[],
+    ours: readonly T[],
+    theirs: readonly T[]
+  ): T[] {
+    const baseMap = new Map(base.map((item) => [keyOf(item), item]));
+    const ourMap = new Map(ours.map((item) => [keyOf(item), item]));
+    const theirMap = new Map(theirs.map((item) => [keyOf(item), item]));
+
+    const merged: T[] = [];
+    for (const key of mergeOrder([...baseMap.keys()], [...ourMap.keys()], [...theirMap.keys()])) {
+      const item = this.value(
+        section,
+        `${prefix}.${key}`,
+        baseMap.get(key),
+        ourMap.get(key),
+        theirMap.get(key)
+      );
+      if (item !== undefined) {
+        merged.push(item);
+      }
+    }
+    return merged;
+  }
+
+  /**
+   * Merge a record key by key, e.g. `llm_config` or `metadata_`
+   */
+  record<T extends Record<string, unknown>>(
+    section: MergeSection,
+    prefix: string,
+    base: T | undefined,
+    ours: T | undefined,
+    theirs: T | undefined
+  ): T | undefined {
+    if (!isPlainObject(base) || !isPlainObject(ours) || !isPlainObject(theirs)) {
+      return this.value(section, prefix, base, ours, theirs);
+    }
+    const merged: Record<string, unknown> = {};
+    for (const key of mergeOrder(Object.keys(base), Object.keys(ours), Object.keys(theirs))) {
+      const value = this.value(section, `${prefix}.${key}`, base[key], ours[key], theirs[key]);
+      if (value !== undefined) {
+        merged[key] = value;
+      }
+    }
+    return merged as T;
+  }
+}
+
+/**
+ * Order merged keys: ours first, their new keys after the key that precedes
+ * them on their side, then keys only the ancestor has
+ */
+function mergeOrder(base: string[], ours: string[], theirs: string[]): string[] {
+  const order = [...ours];
+  let previous = -1;
+  for (const key of theirs) {
+    const index = order.indexOf(key);
+    if (index === -1) {
+      order.splice(previous + 1, 0, key);
+      previous++;
+    } else {
+      previous = index;
+    }
+  }
+  // Entries deleted on one side may still have been edited on the other
+  return [...order, ...base.filter((key) => !order.includes(key))];
+}
+
+/**
+ * Core memory is a record keyed by label in files, but a list in Mastra exports
+ */
+function memoryBlocks(agent: AfAgentSchema): AfCoreMemoryBlock[] {
+  return Object.values(agent.core_memory as Record<string, AfCoreMemoryBlock>);
+}
+
+/**
+ * In-context messages by ID, which survive reordering unlike indices
+ */
+function inContextMessages(agent: AfAgentSchema): Map<string, AfMessage> {
+  return new Map(
+    (agent.in_context_message_indices ?? [])
+      .map((index) => agent.messages[index])
+      .filter((message): message is AfMessage => message !== undefined)
+      .map((message) => [message.id, message])
+  );
+}
+
+/**
+ * Fields merged by dedicated rules rather than as whole values
+ */
+const SPECIAL_FIELDS = new Set([
+  'system',
+  'llm_config',
+  'core_memory',
+  'tools',
+  'tool_rules',
+  'messages',
+  'in_context_message_indices',
+  'metadata_',
+  'tool_exec_environment_variables',
+  'updated_at',
+]);
+
+/**
+ * Merge two edited versions of an agent with their common ancestor
+ *
+ * Entries are matched by identity rather than position, so one side
+ * editing the persona while the other adds tools merges cleanly.
+ * `updated_at` takes the later of the two sides. Conflicts are resolved
+ * with `options.strategy` (our side by default) and listed in the result;
+ * a git merge driver should treat a non-empty list as a failed merge.
+ *
+ * @param base - Common ancestor
+ * @param ours - Our version
+ * @param theirs - Their version
+ * @param options - Conflict strategies
+ * @returns Merged agent and conflicts
+ * @throws {AgentFileParseError} If the merged agent fails schema validation
+ *
+ * @example
+ * ```typescript
+ * const { data, conflicts } = mergeAgentFiles(base, ours, theirs, {
+ *   strategies: { core_memory: 'theirs' },
+ * });
+ * for (const conflict of conflicts) {
+ *   console.warn(`Conflict at ${conflict.path}, kept ${conflict.resolution}`);
+ * }
+ * ```
+ */
+export function mergeAgentFiles(
+  base: AfAgentSchema,
+  ours: AfAgentSchema,
+  theirs: AfAgentSchema,
+  options: MergeAgentFilesOptions = {}
+): MergeResult {
+  const merger = new Merger(options);
+  const merged: Record<string, unknown> = {};
+
+  // Plain fields, in our key order followed by fields only they have
+  const fields = new Set([...Object.keys(ours), ...Object.keys(theirs), ...Object.keys(base)]);
+  for (const field of fields) {
+    if (SPECIAL_FIELDS.has(field)) {
+      continue;
+    }
+    const get = (agent: AfAgentSchema) => (agent as unknown as Record<string, unknown>)[field];
+    merged[field] = merger.value('fields', field, get(base), get(ours), get(theirs));
+  }
+
+  merged.system = merger.value('system', 'system', base.system, ours.system, theirs.system);
+  merged.llm_config = merger.record(
+    'llm_config',
+    'llm_config',
+    base.llm_config,
+    ours.llm_config,
+    theirs.llm_config
+  );
+  merged.metadata_ = merger.record(
+    'fields',
+    'metadata_',
+    base.metadata_,
+    ours.metadata_,
+    theirs.metadata_
+  );
+  merged.tool_exec_environment_variables = merger.record(
+    'fields',
+    'tool_exec_environment_variables',
+    base.tool_exec_environment_variables,
+    ours.tool_exec_environment_variables,
+    theirs.tool_exec_environment_variables
+  );
+
+  const blocks = merger.keyed<AfCoreMemoryBlock>(
+    'core_memory',
+    'core_memory',
+    (block) => block.label,
+    memoryBlocks(base),
+    memoryBlocks(ours),
+    memoryBlocks(theirs)
+  );
+  merged.core_memory = Object.fromEntries(blocks.map((block) => [block.label, block]));
+
+  merged.tools = merger.keyed<AfTool>(
+    'tools',
+    'tools',
+    (tool) => tool.name,
+    base.tools,
+    ours.tools,
+    theirs.tools
+  );
+
+  const ruleKey = (rule: AfToolRule) => `${rule.tool_name}.${rule.rule_type}`;
+  const rules = merger.keyed<AfToolRule>(
+    'tool_rules',
+    'tool_rules',
+    ruleKey,
+    base.tool_rules ?? [],
+    ours.tool_rules ?? [],
+    theirs.tool_rules ?? []
+  );
+  merged.tool_rules =
+    rules.length > 0 || ours.tool_rules || theirs.tool_rules ? rules : undefined;
+
+  const messages = merger.keyed<AfMessage>(
+    'messages',
+    'messages',
+    (message) => message.id,
+    base.messages,
+    ours.messages,
+    theirs.messages
+  );
+  merged.messages = messages;
+
+  // The context window merges as a set, so messages both sides append stay in it
+  const [baseContext, ourContext, theirContext] = [base, ours, theirs].map(inContextMessages);
+  const contextIds = mergeOrder(
+    [...baseContext.keys()],
+    [...ourContext.keys()],
+    [...theirContext.keys()]
+  ).filter((id) => {
+    if (!baseContext.has(id) || (ourContext.has(id) && theirContext.has(id))) {
+      return true;
+    }
+    // Removal from the context conflicts only with an edit of the message on the other side
+    const kept = merger.value(
+      'messages',
+      `in_context_message_indices.${id}`,
+      baseContext.get(id),
+      ourContext.get(id),
+      theirContext.get(id)
+    );
+    return kept !== undefined;
+  });
+  merged.in_context_message_indices =
+    contextIds.length > 0 || ours.in_context_message_indices || theirs.in_context_message_indices
+      ? contextIds
+          .map((id) => messages.findIndex((message) => message.id === id))
+          .filter((index) => index !== -1)
+      : undefined;
+
+  merged.updated_at =
+    Date.parse(theirs.updated_at) > Date.parse(ours.updated_at)
+      ? theirs.updated_at
+      : ours.updated_at;
+
+  try {
+    return { data: parseAfSchema(merged), conflicts: merger.conflicts };
+  } catch (error) {
+    throw new AgentFileParseError('Merged agent file is invalid', {
+      validationErrors: (error as { validationErrors?: unknown[] }).validationErrors,
+      cause: error as Error,
+    });
+  }
+}
@@ -0,0 +1,297 @@
+/**
+ * @fileoverview Fast metadata extraction for .af (Agent File) documents
+ *
+ * Catalog pages need a handful of top-level fields from thousands of large
+ * files. This scanner reads only the top-level object: scalar fields and
+ * `tags` are decoded, while `messages`, `tools` and every other value are
+ * skipped without being materialized (arrays are only counted).
+ *
+ * @module @mastra/portability-af-letta
+ */
+
+/**
+ * Basic agent metadata
+ */
+export interface AgentFileMetadata {
+  name?: string;
+  description?: string;
+  version?: string;
+  agent_type?: string;
+  created_at?: string;
+  tags?: string[];
+
+  /**
+   * Number of entries in `messages`
+   */
+  message_count?: number;
+
+  /**
+   * Number of entries in `tools`
+   */
+  tool_count?: number;
+}
+
+/**
+ * Top-level keys whose values are decoded
+ */
+const DECODED_KEYS = new Set(['name', 'description', 'version', 'agent_type', 'created_at', 'tags']);
+
+/**
+ * Top-level arrays that are counted
+ */
+const COUNTED_KEYS: Record<string, 'message_count' | 'tool_count'> = {
+  messages: 'message_count',
+  tools: 'tool_count',
+};
+
+/**
+ * Number of keys to find before the scan can stop early
+ */
+const TARGET_KEY_COUNT = DECODED_KEYS.size + Object.keys(COUNTED_KEYS).length;
+
+/**
+ * Characters that end the plain run of a string: quotes, escapes and control characters
+ */
+const STRING_SPECIAL = /["\\\u0000-\u001f]/g;
+
+/**
+ * A valid escape sequence inside a string
+ */
+const STRING_ESCAPE = /\\(?:["\\/bfnrt]|u[0-9a-fA-F]{4})/y;
+
+/**
+ * A JSON literal or number
+ */
+const SCALAR = /true|false|null|-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+
+/**
+ * Thrown when the scanner meets input it cannot handle
+ */
+class ScanError extends Error {}
+
+/**
+ * Single-pass scanner over the top level of a JSON object
+ */
+class MetadataScanner {
+  private index = 0;
+
+  constructor(private readonly text: string) {}
+
+  scan(): Record<string, unknown> {
+    const metadata: Record<string, unknown> = {};
+    const seen = new Set<string>();
+
+    this.skipWhitespace();
+    this.expect('{');
+    this.skipWhitespace();
+    if (this.peek() === '}') {
+      return metadata;
+    }
+
+    while (true) {
+      this.skipWhitespace();
+      const key = this.readString();
+      this.skipWhitespace();
+      this.expect(':');
+      this.skipWhitespace();
+
+      if (DECODED_KEYS.has(key)) {
+        metadata[key] = this.readValue();
+        seen.add(key);
+      } else if (key in COUNTED_KEYS) {
+        if (this.peek() === '[') {
+          metadata[COUNTED_KEYS[key]] = this.countArray();
+        } else {
+          this.skipValue();
+        }
+        seen.add(key);
+      } else {
+        this.skipValue();
+      }
+
+      // Everything requested has been found; the rest of the file is irrelevant
+      if (seen.size === TARGET_KEY_COUNT) {
+        return metadata;
+      }
+
+      this.skipWhitespace();
+      if (this.peek() === ',') {
+        this.index++;
+        continue;
+      }
+      this.expect('}');
+      return metadata;
+    }
+  }
+
+  private peek(): string {
+    return this.text[this.index];
+  }
+
+  private expect(char: string): void {
+    if (this.text[this.index] !== char) {
+      throw new ScanError(`Expected '${char}' at offset ${this.index}`);
+    }
+    this.index++;
+  }
+
+  private skipWhitespace(): void {
+    while (this.index < this.text.length) {
+      const char = this.text[this.index];
+      if (char !== ' ' && char !== '\n' && char !== '\r' && char !== '\t') {
+        return;
+      }
+      this.index++;
+    }
+  }
+
+  /**
+   * Advance past a string starting at the current index, checking its escapes
+   */
+  private skipString(): void {
+    if (this.peek() !== '"') {
+      throw new ScanError(`Expected string at offset ${this.index}`);
+    }
+
+    STRING_SPECIAL.lastIndex = this.index + 1;
+    while (true) {
+      const match = STRING_SPECIAL.exec(this.text);
+      if (!match) {
+        throw new ScanError('Unterminated string');
+      }
+      if (match[0] === '"') {
+        this.index = match.index + 1;
+        return;
+      }
+      if (match[0] !== '\\') {
+        throw new ScanError(`Unescaped control character at offset ${match.index}`);
+      }
+      STRING_ESCAPE.lastIndex = match.index;
+      if (!STRING_ESCAPE.test(this.text)) {
+        throw new ScanError(`Invalid escape sequence at offset ${match.index}`);
+      }
+      STRING_SPECIAL.lastIndex = STRING_ESCAPE.lastIndex;
+    }
+  }
+
+  private readString(): string {
+    const start = this.index;
+    this.skipString();
+    return JSON.parse(this.text.slice(start, this.index));
+  }
+
+  /**
+   * Advance past any JSON value without decoding it, checking its syntax
+   */
+  private skipValue(): void {
+    const char = this.peek();
+    if (char === '"') {
+      this.skipString();
+    } else if (char === '{') {
+      this.skipEntries('{', '}', () => {
+        this.skipString();
+        this.skipWhitespace();
+        this.expect(':');
+        this.skipWhitespace();
+        this.skipValue();
+      });
+    } else if (char === '[') {
+      this.skipEntries('[', ']', () => this.skipValue());
+    } else {
+      SCALAR.lastIndex = this.index;
+      if (!SCALAR.test(this.text)) {
+        throw new ScanError(`Unexpected token at offset ${this.index}`);
+      }
+      this.index = SCALAR.lastIndex;
+    }
+  }
+
+  /**
+   * Advance past the entries of an object or array
+   *
+   * @returns Number of entries
+   */
+  private skipEntries(open: string, close: string, skipEntry: () => void): number {
+    this.expect(open);
+    this.skipWhitespace();
+    if (this.peek() === close) {
+      this.index++;
+      return 0;
+    }
+
+    let count = 0;
+    while (true) {
+      this.skipWhitespace();
+      skipEntry();
+      count++;
+      this.skipWhitespace();
+      if (this.peek() === ',') {
+        this.index++;
+        continue;
+      }
+      this.expect(close);
+      return count;
+    }
+  }
+
+  private readValue(): unknown {
+    const start = this.index;
+    this.skipValue();
+    return JSON.parse(this.text.slice(start, this.index));
+  }
+
+  /**
+   * Count the elements of an array without decoding them
+   */
+  private countArray(): number {
+    return this.skipEntries('[', ']', () => this.skipValue());
+  }
+}
+
+/**
+ * Normalize decoded values into the metadata shape
+ */
+function toMetadata(data: Record<string, unknown>): AgentFileMetadata {
+  return {
+    name: data.name as string | undefined,
+    description: data.description as string | undefined,
+    version: data.version as string | undefined,
+    agent_type: data.agent_type as string | undefined,
+    created_at: data.created_at as string | undefined,
+    tags: Array.isArray(data.tags) ? data.tags : undefined,
+    message_count: data.message_count as number | undefined,
+    tool_count: data.tool_count as number | undefined,
+  };
+}
+
+/**
+ * Extract metadata by scanning the top level of an agent file
+ *
+ * Falls back to a full `JSON.parse` only when the scanner cannot handle the
+ * input, so malformed files still yield `null` rather than partial results
+ * whenever the problem lies before the last requested key.
+ *
+ * @param jsonString - JSON string to extract from
+ * @returns Agent metadata, or null if the input is not a JSON object
+ */
+export function scanAgentMetadata(jsonString: string): AgentFileMetadata | null {
+  try {
+    return toMetadata(new MetadataScanner(jsonString).scan());
+  } catch {
+    // Fall through to a full parse for input the scanner does not handle
+  }
+
+  try {
+    const data = JSON.parse(jsonString);
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      return null;
+    }
+    return toMetadata({
+      ...data,
+      message_count: Array.isArray(data.messages) ? data.messages.length : undefined,
+      tool_count: Array.isArray(data.tools) ? data.tools.length : undefined,
+    });
+  } catch {
+    return null;
+  }
+}
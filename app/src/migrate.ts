@@ -0,0 +1,271 @@
+/**
+ * @fileoverview Schema version migrations for .af (Agent File) documents
+ *
+ * Each migration maps one format version to the next. Upgrades run the
+ * `up` steps in order; downgrades for older consumers run `down` steps in
+ * reverse. Migrations operate on the raw JSON document, before validation,
+ * and the document's `version` is updated after every step.
+ *
+ * @module @mastra/portability-af-letta
+ */
+
+import { AgentFileParseError } from './errors';
+import { SUPPORTED_AF_VERSION, compareVersions, parseVersion } from './version';
+
+/**
+ * A raw agent file document, as read from JSON
+ */
+export type AfDocument = Record<string, unknown>;
+
+/**
+ * A single migration step between two adjacent format versions
+ */
+export interface AfMigration {
+  /**
+   * Version the step upgrades from
+   */
+  from: string;
+
+  /**
+   * Version the step upgrades to
+   */
+  to: string;
+
+  /**
+   * Human-readable summary of the change
+   */
+  description: string;
+
+  /**
+   * Upgrade a `from` document to `to`; must not mutate its input
+   */
+  up(data: AfDocument): AfDocument;
+
+  /**
+   * Downgrade a `to` document to `from`; must not mutate its input
+   *
+   * Omit when the change cannot be reversed.
+   */
+  down?(data: AfDocument): AfDocument;
+}
+
+/**
+ * Record of a migration step that ran
+ */
+export interface AppliedMigration {
+  from: string;
+  to: string;
+  direction: 'upgrade' | 'downgrade';
+  description: string;
+}
+
+/**
+ * Migrated document together with the steps that ran
+ */
+export interface MigrationResult {
+  data: AfDocument;
+  migrations: AppliedMigration[];
+}
+
+/**
+ * Options for migrating agent files
+ */
+export interface MigrateOptions {
+  /**
+   * Migration steps to use instead of the built-in registry
+   * @default AF_MIGRATIONS
+   */
+  migrations?: readonly AfMigration[];
+}
+
+/**
+ * Built-in migrations, ordered from oldest to newest
+ *
+ * 0.1.0 is the first published format version, so there is nothing to
+ * migrate yet. Each format change appends its step here.
+ */
+export const AF_MIGRATIONS: readonly AfMigration[] = [];
+
+/**
+ * Check that migrations form a chain of strictly increasing versions
+ */
+function validateMigrations(migrations: readonly AfMigration[]): void {
+  const sources = new Set<string>();
+  for (const migration of migrations) {
+    if (!parseVersion(migration.from) || !parseVersion(migration.to)) {
+      throw new Error(`Invalid migration versions: ${migration.from} -> ${migration.to}`);
+    }
+    if (compareVersions(migration.from, migration.to) >= 0) {
+      throw new Error(`Migration must increase the version: ${migration.from} -> ${migration.to}`);
+    }
+    if (sources.has(migration.from)) {
+      throw new Error(`Duplicate migration from version ${migration.from}`);
+    }
+    sources.add(migration.from);
+  }
+}
+
+/**
+ * Find the steps leading from one version to another
+ *
+ * @returns The steps in the order they run, or null if there is no path
+ */
+function planMigrations(
+  migrations: readonly AfMigration[],
+  from: string,
+  to: string
+): Array<{ migration: AfMigration; direction: AppliedMigration['direction'] }> | null {
+  const upgrade = compareVersions(from, to) < 0;
+  const plan: Array<{ migration: AfMigration; direction: AppliedMigration['direction'] }> = [];
+
+  let current = from;
+  while (compareVersions(current, to) !== 0) {
+    const next = upgrade
+      ? migrations.find((m) => m.from === current && compareVersions(m.to, to) <= 0)
+      : migrations.find((m) => m.to === current && compareVersions(m.from, to) >= 0);
+    if (!next) {
+      return null;
+    }
+    plan.push({ migration: next, direction: upgrade ? 'upgrade' : 'downgrade' });
+    current = upgrade ? next.to : next.from;
+  }
+  return plan;
+}
+
+/**
+ * Run planned steps on a copy of the document
+ */
+function runMigrations(
+  data: AfDocument,
+  plan: NonNullable<ReturnType<typeof planMigrations>>
+): MigrationResult {
+  // Steps only see a private copy, so the caller's document is never changed
+  let current: AfDocument = plan.length > 0 ? JSON.parse(JSON.stringify(data)) : data;
+  const applied: AppliedMigration[] = [];
+
+  for (const { migration, direction } of plan) {
+    if (direction === 'downgrade' && !migration.down) {
+      throw new AgentFileParseError(
+        `Cannot downgrade agent file from ${migration.to} to ${migration.from}: migration is not reversible`
+      );
+    }
+    const migrated = direction === 'upgrade' ? migration.up(current) : migration.down!(current);
+    current = {
+      ...migrated,
+      version: direction === 'upgrade' ? migration.to : migration.from,
+    };
+    applied.push({
+      from: direction === 'upgrade' ? migration.from : migration.to,
+      to: direction === 'upgrade' ? migration.to : migration.from,
+      direction,
+      description: migration.description,
+    });
+  }
+
+  return { data: current, migrations: applied };
+}
+
+function isPlainObject(value: unknown): value is AfDocument {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Migrate an agent file document to another format version
+ *
+ * Upgrades and downgrades are both supported, e.g. to hand a file to an
+ * older Letta consumer. The input is not modified.
+ *
+ * @param data - Raw agent file document
+ * @param targetVersion - Version to migrate to
+ * @param options - Migration options
+ * @returns Migrated document and the steps that ran
+ * @throws {AgentFileParseError} If the document has no valid version, or
+ *   no chain of migrations leads to the target version
+ *
+ * @example
+ * ```typescript
+ * const { data, migrations } = migrateAgentFile(JSON.parse(content), '0.1.0');
+ * migrations.forEach((m) => console.log(`${m.from} -> ${m.to}: ${m.description}`));
+ * ```
+ */
+export function migrateAgentFile(
+  data: unknown,
+  targetVersion: string = SUPPORTED_AF_VERSION,
+  options: MigrateOptions = {}
+): MigrationResult {
+  const { migrations = AF_MIGRATIONS } = options;
+  validateMigrations(migrations);
+
+  if (!isPlainObject(data)) {
+    throw new AgentFileParseError('Agent file must be a JSON object');
+  }
+  const { version } = data;
+  if (typeof version !== 'string' || !parseVersion(version)) {
+    throw new AgentFileParseError(`Agent file has no valid version: ${JSON.stringify(version)}`);
+  }
+  if (!parseVersion(targetVersion)) {
+    throw new AgentFileParseError(`Invalid target version: ${targetVersion}`);
+  }
+
+  const plan = planMigrations(migrations, version, targetVersion);
+  if (!plan) {
+    throw new AgentFileParseError(
+      `No migration path from version ${version} to ${targetVersion}`
+    );
+  }
+  return runMigrations(data, plan);
+}
+
+/**
+ * Upgrade a document to the supported version when a migration path exists
+ *
+ * Documents without a valid version, or whose version cannot be reached,
+ * are returned unchanged for auto-fix and validation to handle.
+ *
+ * @param data - Raw agent file document
+ * @param migrations - Migration steps to use
+ * @returns Document and the steps that ran
+ */
+export function migrateToSupportedVersion(
+  data: unknown,
+  migrations: readonly AfMigration[] = AF_MIGRATIONS
+): { data: unknown; migrations: AppliedMigration[] } {
+  const plan = isPlainObject(data) ? planUpgrade(data.version, migrations) : [];
+  return plan.length > 0 ? runMigrations(data as AfDocument, plan) : { data, migrations: [] };
+}
+
+/**
+ * Check whether `migrateToSupportedVersion` would change a document
+ *
+ * Lets callers that cannot hold the whole document, such as the streaming
+ * parser, refuse files that need migrating instead of misreading them.
+ *
+ * @param version - The document's `version` field
+ * @param migrations - Migration steps to use
+ * @returns Whether at least one step would run
+ */
+export function needsMigration(
+  version: unknown,
+  migrations: readonly AfMigration[] = AF_MIGRATIONS
+): boolean {
+  return planUpgrade(version, migrations).length > 0;
+}
+
+/**
+ * Plan the automatic upgrade of a declared version to the supported version
+ */
+function planUpgrade(
+  version: unknown,
+  migrations: readonly AfMigration[]
+): NonNullable<ReturnType<typeof planMigrations>> {
+  validateMigrations(migrations);
+
+  if (typeof version !== 'string' || !parseVersion(version)) {
+    return [];
+  }
+  // Only upgrades are automatic; newer files are left as they are
+  if (compareVersions(version, SUPPORTED_AF_VERSION) >= 0) {
+    return [];
+  }
+  return planMigrations(migrations, version, SUPPORTED_AF_VERSION) ?? [];
+}
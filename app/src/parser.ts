@@ -9,43 +9,115 @@
 
 import { z } from 'zod';
 import { afAgentSchema, parseAfSchema, safeParseAfSchema } from './schema';
+import { findUnknownFields, unknownFieldErrors, type UnknownField } from './strict';
+import {
+  applyAutoFixes,
+  resolveAutoFixCategories,
+  type AppliedFix,
+  type AutoFixCategory,
+} from './autofix';
+import {
+  JsonSyntaxError,
+  parseJsonWithPositions,
+  locateValidationErrors,
+  findSourcePosition,
+  type PositionedJson,
+  type ValidationIssue,
+} from './positions';
+import { decodeAgentFileInput, type AgentFileInput } from './compression';
+import { scanAgentMetadata, type AgentFileMetadata } from './metadata';
+import { migrateToSupportedVersion, type AfMigration, type AppliedMigration } from './migrate';
+import { assertAgentIntegrity } from './integrity';
+import {
+  enforceMemoryLimits,
+  resolveMemoryLimitAliases,
+  type MemoryLimitPolicy,
+  type MemoryLimitViolation,
+} from './memory';
+import { applySecretPolicy, type SecretFinding, type SecretPolicy } from './secrets';
+import {
+  decryptAgentFile,
+  getEncryptedSections,
+  type AfEncryptedSection,
+  type AgentFileKeyResolver,
+} from './encryption';
+import {
+  verifyAgentFile,
+  type SignatureStatus,
+  type SignatureVerification,
+  type TrustedKeys,
+} from './signature';
+import {
+  checkVersionCompatibility,
+  type VersionCompatibility,
+  type VersionPolicy,
+} from './version';
+import { AgentFileParseError, AgentFileSignatureError } from './errors';
 import type { AfAgentSchema } from './types';
 
+// Defined in ./errors; re-exported for code that imports them from the parser
+export { AgentFileParseError, AgentFileSignatureError };
+
 /**
- * Custom error class for agent file parsing errors
+ * Result type for parsing operations
  */
-export class AgentFileParseError extends Error {
+export type ParseResult<T> = 
+  | { success: true; data: T }
+  | { success: false; error: AgentFileParseError };
+
+/**
+ * Details collected while parsing an agent file
+ */
+export interface ParseReport {
   /**
-   * Validation errors if the parsing failed due to schema validation
+   * Keys not defined by the .af schema, found before auto-fixes are applied
    */
-  public readonly validationErrors?: Array<{
-    path: string;
-    message: string;
-    code: string;
-  }>;
+  unknownFields: UnknownField[];
 
   /**
-   * Original error that caused the parsing failure
+   * Changes made by auto-fix, in the order they were applied
    */
-  public readonly cause?: Error;
+  fixes: AppliedFix[];
 
-  constructor(message: string, options?: { cause?: Error; validationErrors?: any[] }) {
-    super(message);
-    this.name = 'AgentFileParseError';
-    this.cause = options?.cause;
-    this.validationErrors = options?.validationErrors;
+  /**
+   * Version migrations that ran before validation, in order
+   */
+  migrations: AppliedMigration[];
 
-    // Ensure proper prototype chain for instanceof checks
-    Object.setPrototypeOf(this, AgentFileParseError.prototype);
-  }
+  /**
+   * How the file's declared version relates to `SUPPORTED_AF_VERSION`
+   */
+  versionCompatibility: VersionCompatibility;
+
+  /**
+   * Core memory blocks that exceeded their character limit
+   */
+  memoryLimitViolations: MemoryLimitViolation[];
+
+  /**
+   * Secrets found by the scanner; empty unless `secretPolicy` is set
+   */
+  secrets: SecretFinding[];
+
+  /**
+   * Signature check result, present when `trustedKeys` or `requireSignature` is set
+   */
+  signature?: SignatureVerification;
+
+  /**
+   * Sections left encrypted because no `keyResolver` was given; their
+   * fields hold empty stand-ins (see `encryptAgentFile`)
+   */
+  encryptedSections: AfEncryptedSection[];
 }
 
 /**
- * Result type for parsing operations
+ * Parsed agent file together with its parse report
  */
-export type ParseResult<T> = 
-  | { success: true; data: T }
-  | { success: false; error: AgentFileParseError };
+export interface ParseReportResult {
+  data: AfAgentSchema;
+  report: ParseReport;
+}
 
 /**
  * Options for parsing agent files
@@ -53,27 +125,109 @@ export type ParseResult<T> =
 export interface ParseOptions {
   /**
    * Whether to validate strictly (fail on unknown fields)
+   * 
+   * Unknown fields are always listed in the parse report; strict mode
+   * turns them into a validation failure.
    * @default false
    */
   strict?: boolean;
 
   /**
    * Whether to attempt to fix common issues
+   * 
+   * Pass a list of categories to allow only those fixes, e.g.
+   * `['timestamps', 'version']` to never invent core memory.
    * @default true
    */
-  autoFix?: boolean;
+  autoFix?: boolean | readonly AutoFixCategory[];
 
   /**
    * Maximum file size in bytes (default: 50MB)
+   * 
+   * For gzip-compressed input this limits the decompressed size.
    * @default 52428800
    */
   maxSize?: number;
+
+  /**
+   * How to treat files declaring a newer or invalid format version
+   *
+   * With `reject`, newer major versions (or, before 1.0.0, newer minor
+   * versions) and invalid versions fail. With `warn`, they are only reported
+   * in `report.versionCompatibility`.
+   * @default 'warn'
+   */
+  versionPolicy?: VersionPolicy;
+
+  /**
+   * Whether to upgrade files from older format versions before validation
+   * @default true
+   */
+  migrate?: boolean;
+
+  /**
+   * Migration steps to use instead of the built-in registry
+   * @default AF_MIGRATIONS
+   */
+  migrations?: readonly AfMigration[];
+
+  /**
+   * Whether to fail on broken references between tool calls, results and
+   * tools in the message history (see `checkAgentIntegrity`)
+   * @default false
+   */
+  checkIntegrity?: boolean;
+
+  /**
+   * What to do with core memory blocks longer than their `character_limit`
+   *
+   * Violations are listed in `report.memoryLimitViolations` unless the
+   * policy is `error`, which fails the parse instead.
+   * @default 'warn'
+   */
+  memoryLimitPolicy?: MemoryLimitPolicy;
+
+  /**
+   * Scan for raw credentials and `fail`, `warn` or `redact` them
+   *
+   * Findings are listed in `report.secrets`. Files are not scanned unless
+   * a policy is set.
+   */
+  secretPolicy?: SecretPolicy;
+
+  /**
+   * Public keys trusted to sign agent files (see `verifyAgentFile`)
+   *
+   * Signed files must verify against these keys. Unsigned files are
+   * accepted unless `requireSignature` is set.
+   */
+  trustedKeys?: TrustedKeys;
+
+  /**
+   * Whether to reject files without a valid signature from a trusted key
+   *
+   * `parseAgentFileStream` rejects this option (and `trustedKeys`), since
+   * it hands out messages before the whole file has been read.
+   * @default false
+   */
+  requireSignature?: boolean;
+
+  /**
+   * Looks up keys to decrypt encrypted sections (see `decryptAgentFile`)
+   *
+   * Without a resolver, encrypted sections are left as they are and listed
+   * in `report.encryptedSections`. Not supported by `parseAgentFileStream`.
+   */
+  keyResolver?: AgentFileKeyResolver;
 }
 
 /**
  * Parse a JSON string containing an agent file
  * 
- * @param jsonString - JSON string to parse
+ * Binary input (`Uint8Array` or `Buffer`) is decoded as UTF-8, and
+ * gzip-compressed data is decompressed transparently.
+ * 
+ * @param input - JSON string or raw file bytes to parse
  * @param options - Parsing options
  * @returns Parsed and validated agent schema
  * @throws {AgentFileParseError} If parsing or validation fails
@@ -83,13 +237,45 @@ export interface ParseOptions {
  * const agentData = await fs.readFile('./agent.af', 'utf-8');
  * const agent = parseAgentFile(agentData);
  * console.log(`Loaded agent: ${agent.name}`);
+ * 
+ * // Compressed files can be passed as bytes
+ * const archived = parseAgentFile(await fs.readFile('./agent.af.gz'));
  * ```
  */
 export function parseAgentFile(
-  jsonString: string,
+  input: AgentFileInput,
   options: ParseOptions = {}
 ): AfAgentSchema {
-  const { maxSize = 52428800, autoFix = true } = options;
+  return parseAgentFileWithReport(input, options).data;
+}
+
+/**
+ * Parse a JSON string containing an agent file and report on the process
+ * 
+ * Use this instead of `parseAgentFile` to inspect unknown fields without
+ * failing the parse.
+ * 
+ * @param input - JSON string or raw file bytes to parse
+ * @param options - Parsing options
+ * @returns Parsed agent schema and parse report
+ * @throws {AgentFileParseError} If parsing or validation fails
+ * 
+ * @example
+ * ```typescript
+ * const { data, report } = parseAgentFileWithReport(agentData);
+ * for (const field of report.unknownFields) {
+ *   console.warn(`Unknown field: ${field.path}`);
+ * }
+ * ```
+ */
+export function parseAgentFileWithReport(
+  input: AgentFileInput,
+  options: ParseOptions = {}
+): ParseReportResult {
+  const { maxSize = 52428800 } = options;
+
+  // Decode bytes and inflate gzip data, bounded by maxSize
+  const jsonString = decodeAgentFileInput(input, maxSize);
 
   // Check file size
   const byteSize = new TextEncoder().encode(jsonString).length;
@@ -104,30 +290,61 @@ export function parseAgentFile(
   try {
     data = JSON.parse(jsonString);
   } catch (error) {
-    throw new AgentFileParseError('Invalid JSON format', {
-      cause: error as Error,
-    });
-  }
-
-  // Apply auto-fixes if enabled
-  if (autoFix) {
-    data = applyAutoFixes(data);
+    throw invalidJsonError(jsonString, error as Error);
   }
 
-  // Validate schema
   try {
-    return parseAfSchema(data);
+    return parseAgentFileObjectWithReport(data, options);
   } catch (error) {
-    if (error instanceof Error && 'validationErrors' in error) {
-      throw new AgentFileParseError('Schema validation failed', {
-        validationErrors: (error as any).validationErrors,
-        cause: error,
+    // Point validation errors at their location in the source text
+    if (error instanceof AgentFileParseError && error.validationErrors) {
+      throw new AgentFileParseError(error.message, {
+        validationErrors: locateValidationErrors(jsonString, error.validationErrors),
+        cause: error.cause,
       });
     }
-    throw new AgentFileParseError('Unexpected validation error', {
-      cause: error as Error,
+    throw error;
+  }
+}
+
+/**
+ * Check a declared version, failing when the policy turns it into an error
+ *
+ * @param version - The file's `version` field
+ * @param policy - Version policy
+ * @returns Compatibility report
+ * @throws {AgentFileParseError} If the version is rejected
+ */
+export function enforceVersionCompatibility(
+  version: unknown,
+  policy: VersionPolicy
+): VersionCompatibility {
+  const compatibility = checkVersionCompatibility(version, policy);
+  if (compatibility.severity === 'error') {
+    throw new AgentFileParseError('Unsupported agent file version', {
+      validationErrors: [
+        { path: 'version', message: compatibility.message, code: 'unsupported_version' },
+      ],
     });
   }
+  return compatibility;
+}
+
+/**
+ * Build an "Invalid JSON format" error with the exact syntax error location
+ */
+function invalidJsonError(jsonString: string, cause: Error): AgentFileParseError {
+  try {
+    parseJsonWithPositions(jsonString);
+  } catch (syntaxError) {
+    if (syntaxError instanceof JsonSyntaxError) {
+      return new AgentFileParseError(`Invalid JSON format: ${syntaxError.message}`, {
+        cause,
+        position: syntaxError.position,
+      });
+    }
+  }
+  return new AgentFileParseError('Invalid JSON format', { cause });
 }
 
 /**
@@ -135,7 +352,7 @@ export function parseAgentFile(
  * 
  * This function never throws, returning a result object instead.
  * 
- * @param jsonString - JSON string to parse
+ * @param input - JSON string or raw file bytes to parse
  * @param options - Parsing options
  * @returns Result object with either parsed data or error
  * 
@@ -150,11 +367,11 @@ export function parseAgentFile(
  * ```
  */
 export function safeParseAgentFile(
-  jsonString: string,
+  input: AgentFileInput,
   options: ParseOptions = {}
 ): ParseResult<AfAgentSchema> {
   try {
-    const data = parseAgentFile(jsonString, options);
+    const data = parseAgentFile(input, options);
     return { success: true, data };
   } catch (error) {
     if (error instanceof AgentFileParseError) {
@@ -183,16 +400,86 @@ export function parseAgentFileObject(
   data: unknown,
   options: ParseOptions = {}
 ): AfAgentSchema {
-  const { autoFix = true } = options;
+  return parseAgentFileObjectWithReport(data, options).data;
+}
 
-  // Apply auto-fixes if enabled
-  if (autoFix) {
-    data = applyAutoFixes(data);
+/**
+ * Parse an agent file from a plain object and report on the process
+ * 
+ * @param data - Object to validate
+ * @param options - Parsing options
+ * @returns Validated agent schema and parse report
+ * @throws {AgentFileParseError} If validation fails
+ */
+export function parseAgentFileObjectWithReport(
+  data: unknown,
+  options: ParseOptions = {}
+): ParseReportResult {
+  const {
+    autoFix = true,
+    strict = false,
+    migrate = true,
+    migrations,
+    versionPolicy = 'warn',
+    checkIntegrity = false,
+    memoryLimitPolicy = 'warn',
+    secretPolicy,
+    trustedKeys,
+    requireSignature = false,
+    keyResolver,
+  } = options;
+
+  // Verify the file exactly as it was signed, before anything modifies it
+  const signature =
+    trustedKeys || requireSignature
+      ? enforceSignature(data, trustedKeys ?? [], requireSignature)
+      : undefined;
+
+  // Restore encrypted sections so later steps see the real content
+  if (keyResolver && data && typeof data === 'object' && !Array.isArray(data)) {
+    data = decryptAgentFile(data as AfAgentSchema, keyResolver);
   }
 
+  // Refuse files from versions whose semantics may differ before touching them
+  const versionCompatibility = enforceVersionCompatibility(
+    data && typeof data === 'object' ? (data as { version?: unknown }).version : undefined,
+    versionPolicy
+  );
+
+  // Bring older files up to the supported version first
+  const migrated = migrate
+    ? migrateToSupportedVersion(data, migrations)
+    : { data, migrations: [] };
+
+  // Honor Letta's `limit` as an alias of `character_limit`
+  data = resolveMemoryLimitAliases(migrated.data);
+
+  // Detect unknown fields on the migrated input, before auto-fixes add any
+  const report: ParseReport = {
+    unknownFields: findUnknownFields(data),
+    fixes: [],
+    migrations: migrated.migrations,
+    versionCompatibility,
+    memoryLimitViolations: [],
+    secrets: [],
+    signature,
+    encryptedSections: [],
+  };
+  if (strict && report.unknownFields.length > 0) {
+    throw new AgentFileParseError('Agent file contains unknown fields', {
+      validationErrors: unknownFieldErrors(report.unknownFields),
+    });
+  }
+
+  // Apply auto-fixes for the allowed categories
+  const fixed = applyAutoFixes(data, resolveAutoFixCategories(autoFix));
+  data = fixed.data;
+  report.fixes = fixed.fixes;
+
   // Validate schema
+  let agent: AfAgentSchema;
   try {
-    return parseAfSchema(data);
+    agent = parseAfSchema(data);
   } catch (error) {
     if (error instanceof Error && 'validationErrors' in error) {
       throw new AgentFileParseError('Schema validation failed', {
@@ -204,6 +491,53 @@ export function parseAgentFileObject(
       cause: error as Error,
     });
   }
+
+  const limited = enforceMemoryLimits(agent, memoryLimitPolicy);
+  agent = limited.data;
+  report.memoryLimitViolations = limited.violations;
+
+  if (secretPolicy) {
+    const scanned = applySecretPolicy(agent, secretPolicy);
+    agent = scanned.data;
+    report.secrets = scanned.findings;
+  }
+
+  if (checkIntegrity) {
+    assertAgentIntegrity(agent);
+  }
+  report.encryptedSections = getEncryptedSections(agent);
+  return { data: agent, report };
+}
+
+const SIGNATURE_FAILURES: Record<Exclude<SignatureStatus, 'valid'>, string> = {
+  unsigned: 'Agent file is not signed',
+  malformed: 'Agent file has a malformed signature',
+  untrusted_key: 'Agent file is signed by an untrusted key',
+  invalid_key: 'Trusted key for the agent file signature cannot be loaded',
+  invalid_signature: 'Agent file signature is invalid',
+};
+
+/**
+ * Verify a signature, failing when it is required or does not hold
+ */
+function enforceSignature(
+  data: unknown,
+  trustedKeys: TrustedKeys,
+  requireSignature: boolean
+): SignatureVerification {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    // Leave the type error to schema validation
+    return { valid: false, status: 'unsigned' };
+  }
+  const verification = verifyAgentFile(data as AfAgentSchema, trustedKeys);
+  if (!verification.valid && (requireSignature || verification.status !== 'unsigned')) {
+    const key = verification.keyId ? ` (key ${verification.keyId})` : '';
+    throw new AgentFileSignatureError(
+      `${SIGNATURE_FAILURES[verification.status as keyof typeof SIGNATURE_FAILURES]}${key}`,
+      verification
+    );
+  }
+  return verification;
 }
 
 /**
@@ -226,145 +560,53 @@ export function isValidAgentFile(jsonString: string): boolean {
 /**
  * Get detailed validation errors for an agent file
  * 
+ * Each error carries the line, column and byte offset of the offending
+ * value (or of its nearest enclosing value when it is missing).
+ * 
  * @param jsonString - JSON string to validate
  * @returns Array of validation errors, or null if valid
  */
 export function getValidationErrors(
   jsonString: string
-): Array<{ path: string; message: string }> | null {
+): ValidationIssue[] | null {
+  let parsed: PositionedJson;
   try {
-    const data = JSON.parse(jsonString);
-    const result = safeParseAfSchema(data);
-    
-    if (result.success) {
-      return null;
-    }
-
-    return result.error.errors.map((err) => ({
-      path: err.path.join('.'),
-      message: err.message,
-    }));
+    parsed = parseJsonWithPositions(jsonString);
   } catch (error) {
     return [
       {
         path: '',
         message: error instanceof Error ? error.message : 'Invalid JSON',
+        ...(error instanceof JsonSyntaxError ? error.position : {}),
       },
     ];
   }
-}
 
-/**
- * Apply automatic fixes for common issues
- * 
- * @param data - Data to fix
- * @returns Fixed data
- */
-function applyAutoFixes(data: unknown): unknown {
-  if (!data || typeof data !== 'object') {
-    return data;
-  }
-
-  const fixed = { ...data } as any;
-
-  // Fix missing timestamps by using current time
-  const now = new Date().toISOString();
-  if (!fixed.created_at) {
-    fixed.created_at = now;
-  }
-  if (!fixed.updated_at) {
-    fixed.updated_at = now;
-  }
-
-  // Fix missing version
-  if (!fixed.version) {
-    fixed.version = '0.1.0';
+  const result = safeParseAfSchema(parsed.value);
+  if (result.success) {
+    return null;
   }
 
-  // Ensure core_memory is an object (not array)
-  if (!fixed.core_memory || typeof fixed.core_memory !== 'object' || Array.isArray(fixed.core_memory)) {
-    fixed.core_memory = {
-      persona: {
-        label: 'persona',
-        value: 'I am a helpful AI assistant.',
-        limit: 2000
-      },
-      human: {
-        label: 'human',
-        value: 'The user needs assistance.',
-        limit: 2000
-      }
+  return result.error.errors.map((err) => {
+    const path = err.path.join('.');
+    return {
+      path,
+      message: err.message,
+      ...findSourcePosition(parsed.positions, path),
     };
-  }
-  if (!Array.isArray(fixed.messages)) {
-    fixed.messages = [];
-  }
-  if (!Array.isArray(fixed.tools)) {
-    fixed.tools = [];
-  }
-
-  // Fix message timestamps
-  if (Array.isArray(fixed.messages)) {
-    fixed.messages = fixed.messages.map((msg: any, index: number) => {
-      if (!msg.timestamp) {
-        // Generate timestamp based on position
-        const msgTime = new Date(now);
-        msgTime.setMinutes(msgTime.getMinutes() - (fixed.messages.length - index));
-        return { ...msg, timestamp: msgTime.toISOString() };
-      }
-      return msg;
-    });
-  }
-
-  // Ensure tool parameters have correct structure
-  if (Array.isArray(fixed.tools)) {
-    fixed.tools = fixed.tools.map((tool: any) => {
-      if (tool.parameters && typeof tool.parameters === 'object') {
-        if (!tool.parameters.type) {
-          tool.parameters.type = 'object';
-        }
-        if (!tool.parameters.properties) {
-          tool.parameters.properties = {};
-        }
-      }
-      return tool;
-    });
-  }
-
-  return fixed;
+  });
 }
 
 /**
  * Extract metadata from an agent file without full validation
  * 
- * Useful for quick previews or listing agents.
+ * Useful for quick previews or listing agents. Only the top level of the
+ * file is scanned: messages and tools are counted but never decoded, and
+ * the scan stops as soon as every metadata field has been seen.
  * 
  * @param jsonString - JSON string to extract from
  * @returns Basic agent metadata
  */
-export function extractAgentMetadata(jsonString: string): {
-  name?: string;
-  description?: string;
-  version?: string;
-  agent_type?: string;
-  created_at?: string;
-  tags?: string[];
-} | null {
-  try {
-    const data = JSON.parse(jsonString);
-    if (!data || typeof data !== 'object') {
-      return null;
-    }
-
-    return {
-      name: data.name,
-      description: data.description,
-      version: data.version,
-      agent_type: data.agent_type,
-      created_at: data.created_at,
-      tags: Array.isArray(data.tags) ? data.tags : undefined,
-    };
-  } catch {
-    return null;
-  }
+export function extractAgentMetadata(jsonString: string): AgentFileMetadata | null {
+  return scanAgentMetadata(jsonString);
 }
\ No newline at end of file
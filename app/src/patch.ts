@@ -0,0 +1,391 @@
+/**
+ * @fileoverview JSON Patch (RFC 6902) for .af (Agent File) agents
+ *
+ * Applies patches to a copy of an agent and re-validates the result, so a
+ * patch either produces a valid agent or changes nothing. Patches created
+ * from two versions of an agent can be stored as an audit log and replayed.
+ *
+ * @module @mastra/portability-af-letta
+ */
+
+import { parseAfSchema } from './schema';
+import { AgentFileParseError } from './errors';
+import { formatJsonPointer, parseJsonPointer } from './pointer';
+import type { AfAgentSchema } from './types';
+
+/**
+ * A single JSON Patch operation; `path` and `from` are JSON Pointers
+ */
+export type JsonPatchOperation =
+  | { op: 'add'; path: string; value: unknown }
+  | { op: 'remove'; path: string }
+  | { op: 'replace'; path: string; value: unknown }
+  | { op: 'move'; from: string; path: string }
+  | { op: 'copy'; from: string; path: string }
+  | { op: 'test'; path: string; value: unknown };
+
+/**
+ * Ordered list of operations, applied as one unit
+ */
+export type AgentPatch = JsonPatchOperation[];
+
+/**
+ * Reason a patch operation could not be applied
+ *
+ * - `invalid_operation`: not an object, unknown `op`, or missing `path`, `from` or `value`
+ * - `invalid_pointer`: `path` or `from` is not a valid JSON Pointer
+ * - `path_not_found`: the target or its parent does not exist
+ * - `test_failed`: a `test` operation did not match
+ */
+export type PatchErrorCode =
+  | 'invalid_operation'
+  | 'invalid_pointer'
+  | 'path_not_found'
+  | 'test_failed';
+
+/**
+ * Failure of a single operation, reported with its position in the patch
+ */
+class PatchOperationError extends Error {
+  constructor(
+    message: string,
+    readonly code: PatchErrorCode,
+    readonly tokens: string[] = []
+  ) {
+    super(message);
+  }
+}
+
+type Container = Record<string, unknown> | unknown[];
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Compare JSON values structurally, ignoring key order
+ */
+function isJsonEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => isJsonEqual(item, b[index]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every(
+        (key) => Object.prototype.hasOwnProperty.call(b, key) && isJsonEqual(a[key], b[key])
+      )
+    );
+  }
+  return false;
+}
+
+function cloneJson<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+function parsePointer(pointer: unknown, field: 'path' | 'from'): string[] {
+  if (typeof pointer !== 'string') {
+    throw new PatchOperationError(`Operation is missing "${field}"`, 'invalid_operation');
+  }
+  try {
+    return parseJsonPointer(pointer);
+  } catch (error) {
+    throw new PatchOperationError((error as Error).message, 'invalid_pointer');
+  }
+}
+
+/**
+ * Array index token, or undefined if the token is not a canonical index
+ */
+function arrayIndex(token: string): number | undefined {
+  return /^(0|[1-9]\d*)$/.test(token) ? Number(token) : undefined;
+}
+
+function hasChild(container: Container, token: string): boolean {
+  if (Array.isArray(container)) {
+    const index = arrayIndex(token);
+    return index !== undefined && index < container.length;
+  }
+  return Object.prototype.hasOwnProperty.call(container, token);
+}
+
+/**
+ * Patch target: the container holding the value and the value's key
+ *
+ * The document sits under a wrapper so the root ("") has a parent too.
+ */
+function locate(root: { doc: unknown }, tokens: string[]): { parent: Container; key: string } {
+  let parent: Container = root;
+  let key = 'doc';
+  tokens.forEach((token, depth) => {
+    // Own properties only, so "__proto__" cannot reach Object.prototype
+    const child = hasChild(parent, key) ? (parent as Record<string, unknown>)[key] : undefined;
+    if (!child || typeof child !== 'object') {
+      throw new PatchOperationError(
+        `Path "${formatJsonPointer(tokens.slice(0, depth))}" does not exist`,
+        'path_not_found',
+        tokens
+      );
+    }
+    parent = child as Container;
+    key = token;
+  });
+  return { parent, key };
+}
+
+function get(root: { doc: unknown }, tokens: string[]): unknown {
+  const { parent, key } = locate(root, tokens);
+  if (!hasChild(parent, key)) {
+    throw new PatchOperationError(
+      `Path "${formatJsonPointer(tokens)}" does not exist`,
+      'path_not_found',
+      tokens
+    );
+  }
+  return (parent as Record<string, unknown>)[key];
+}
+
+function add(root: { doc: unknown }, tokens: string[], value: unknown): void {
+  const { parent, key } = locate(root, tokens);
+  if (!Array.isArray(parent)) {
+    parent[key] = value;
+    return;
+  }
+  const index = key === '-' ? parent.length : arrayIndex(key);
+  if (index === undefined || index > parent.length) {
+    throw new PatchOperationError(
+      `Array index "${key}" is out of range at "${formatJsonPointer(tokens)}"`,
+      'path_not_found',
+      tokens
+    );
+  }
+  parent.splice(index, 0, value);
+}
+
+function remove(root: { doc: unknown }, tokens: string[]): void {
+  if (tokens.length === 0) {
+    throw new PatchOperationError('Cannot remove the document root', 'invalid_operation');
+  }
+  get(root, tokens);
+  const { parent, key } = locate(root, tokens);
+  if (Array.isArray(parent)) {
+    parent.splice(Number(key), 1);
+  } else {
+    delete parent[key];
+  }
+}
+
+function applyOperation(root: { doc: unknown }, operation: JsonPatchOperation): void {
+  // Patches often come from untyped JSON, such as a replayed audit log
+  if (!isPlainObject(operation)) {
+    throw new PatchOperationError('Operation must be an object', 'invalid_operation');
+  }
+  const op = operation as Partial<Record<'op' | 'path' | 'from', unknown>> & { value?: unknown };
+  const path = parsePointer(op.path, 'path');
+  const needsValue = op.op === 'add' || op.op === 'replace' || op.op === 'test';
+  if (needsValue && !('value' in op)) {
+    throw new PatchOperationError(`"${op.op}" operation is missing "value"`, 'invalid_operation');
+  }
+
+  switch (op.op) {
+    case 'add':
+      add(root, path, cloneJson(op.value));
+      return;
+    case 'remove':
+      remove(root, path);
+      return;
+    case 'replace': {
+      get(root, path);
+      const { parent, key } = locate(root, path);
+      (parent as Record<string, unknown>)[key] = cloneJson(op.value);
+      return;
+    }
+    case 'move': {
+      const from = parsePointer(op.from, 'from');
+      if (from.length < path.length && from.every((token, index) => token === path[index])) {
+        throw new PatchOperationError(
+          'Cannot move a value into one of its own children',
+          'invalid_operation',
+          path
+        );
+      }
+      const value = get(root, from);
+      remove(root, from);
+      add(root, path, value);
+      return;
+    }
+    case 'copy':
+      add(root, path, cloneJson(get(root, parsePointer(op.from, 'from'))));
+      return;
+    case 'test':
+      if (!isJsonEqual(get(root, path), op.value)) {
+        throw new PatchOperationError(
+          `Value at "${formatJsonPointer(path)}" does not match`,
+          'test_failed',
+          path
+        );
+      }
+      return;
+    default:
+      throw new PatchOperationError(`Unknown operation "${String(op.op)}"`, 'invalid_operation');
+  }
+}
+
+/**
+ * Apply a JSON Patch to an agent
+ *
+ * Operations run in order on a copy of the agent, and the result is
+ * validated against `afAgentSchema`, including its cross-field checks such
+ * as tool rules referencing existing tools. The input is never modified:
+ * if any operation fails or the result is invalid, nothing is applied.
+ *
+ * @param agent - Agent to patch
+ * @param patch - RFC 6902 operations
+ * @returns Patched agent
+ * @throws {AgentFileParseError} If an operation fails, with the operation
+ * index in the message and a `PatchErrorCode` in `validationErrors`, or if
+ * the patched agent fails schema validation
+ *
+ * @example
+ * ```typescript
+ * const updated = applyAgentPatch(agent, [
+ *   { op: 'test', path: '/llm_config/model', value: 'gpt-4' },
+ *   { op: 'replace', path: '/core_memory/persona/value', value: 'I am concise.' },
+ * ]);
+ * ```
+ */
+export function applyAgentPatch(agent: AfAgentSchema, patch: AgentPatch): AfAgentSchema {
+  if (!Array.isArray(patch)) {
+    const message = 'Patch must be an array of operations';
+    throw new AgentFileParseError(message, {
+      validationErrors: [{ path: '', message, code: 'invalid_operation' }],
+    });
+  }
+  const root = { doc: cloneJson(agent) as unknown };
+
+  patch.forEach((operation, index) => {
+    try {
+      applyOperation(root, operation);
+    } catch (error) {
+      if (!(error instanceof PatchOperationError)) {
+        throw error;
+      }
+      throw new AgentFileParseError(
+        isPlainObject(operation)
+          ? `Patch operation ${index} (${operation.op} ${operation.path}) failed: ${error.message}`
+          : `Patch operation ${index} failed: ${error.message}`,
+        {
+          validationErrors: [
+            { path: error.tokens.join('.'), message: error.message, code: error.code },
+          ],
+          cause: error,
+        }
+      );
+    }
+  });
+
+  try {
+    return parseAfSchema(root.doc);
+  } catch (error) {
+    throw new AgentFileParseError('Patched agent file is invalid', {
+      validationErrors: (error as { validationErrors?: unknown[] }).validationErrors,
+      cause: error as Error,
+    });
+  }
+}
+
+/**
+ * Append operations turning `before` into `after`
+ */
+function diffInto(
+  before: unknown,
+  after: unknown,
+  segments: Array<string | number>,
+  patch: AgentPatch
+): void {
+  if (isJsonEqual(before, after)) {
+    return;
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    // Skip the unchanged head and tail so an inserted message is one `add`
+    let head = 0;
+    while (
+      head < before.length &&
+      head < after.length &&
+      isJsonEqual(before[head], after[head])
+    ) {
+      head++;
+    }
+    let tail = 0;
+    while (
+      tail < before.length - head &&
+      tail < after.length - head &&
+      isJsonEqual(before[before.length - 1 - tail], after[after.length - 1 - tail])
+    ) {
+      tail++;
+    }
+
+    const removed = before.length - head - tail;
+    const added = after.length - head - tail;
+    const common = Math.min(removed, added);
+    for (let i = head; i < head + common; i++) {
+      diffInto(before[i], after[i], [...segments, i], patch);
+    }
+    for (let i = head + common; i < head + added; i++) {
+      patch.push({ op: 'add', path: formatJsonPointer([...segments, i]), value: after[i] });
+    }
+    // Remove from the end so earlier indices stay valid
+    for (let i = head + removed - 1; i >= head + common; i--) {
+      patch.push({ op: 'remove', path: formatJsonPointer([...segments, i]) });
+    }
+    return;
+  }
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    for (const key of Object.keys(before)) {
+      if (!Object.prototype.hasOwnProperty.call(after, key)) {
+        patch.push({ op: 'remove', path: formatJsonPointer([...segments, key]) });
+      }
+    }
+    for (const [key, value] of Object.entries(after)) {
+      if (Object.prototype.hasOwnProperty.call(before, key)) {
+        diffInto(before[key], value, [...segments, key], patch);
+      } else {
+        patch.push({ op: 'add', path: formatJsonPointer([...segments, key]), value });
+      }
+    }
+    return;
+  }
+
+  patch.push({ op: 'replace', path: formatJsonPointer(segments), value: after });
+}
+
+/**
+ * Create a JSON Patch that turns one agent into another
+ *
+ * Objects are compared key by key and arrays element by element, after
+ * skipping the elements both arrays start and end with, so appending or
+ * inserting a message produces a single `add`. Properties set to
+ * `undefined` are treated as absent, as they are in serialized files.
+ *
+ * @param a - Original agent
+ * @param b - Updated agent
+ * @returns Operations for `applyAgentPatch(a, patch)` to produce `b`
+ *
+ * @example
+ * ```typescript
+ * const patch = createAgentPatch(before, after);
+ * await auditLog.append({ agent: after.name, patch });
+ * ```
+ */
+export function createAgentPatch(a: AfAgentSchema, b: AfAgentSchema): AgentPatch {
+  const patch: AgentPatch = [];
+  diffInto(cloneJson(a), cloneJson(b), [], patch);
+  return patch;
+}
@@ -0,0 +1,311 @@
+/**
+ * @fileoverview PII redaction for exported conversations
+ *
+ * Replaces personal data in messages and core memory with placeholders such
+ * as `[EMAIL_1]`. Redaction is consistent within one run: the same value
+ * always maps to the same placeholder, so conversations stay readable and
+ * references between messages and memory blocks survive.
+ *
+ * @module @mastra/portability-af-letta
+ */
+
+import type { AfAgentSchema, AfCoreMemoryBlock } from './types';
+
+/**
+ * A span of text found by a detector
+ */
+export interface PiiMatch {
+  start: number;
+  end: number;
+}
+
+/**
+ * Recognizes one kind of personal data, by pattern or by callback
+ */
+export interface PiiDetector {
+  /**
+   * Detector ID, also used for placeholders: "email" becomes `[EMAIL_1]`
+   */
+  id: string;
+
+  /**
+   * Pattern to search for; must have the global flag
+   */
+  pattern?: RegExp;
+
+  /**
+   * Custom search, used instead of `pattern`
+   */
+  detect?(text: string): PiiMatch[];
+
+  /**
+   * Rejects pattern matches that are not really PII
+   */
+  validate?(value: string): boolean;
+
+  /**
+   * Maps equivalent spellings of a value to one key, so they share a placeholder
+   */
+  normalize?(value: string): string;
+}
+
+/**
+ * Options for redacting PII
+ */
+export interface PiiRedactionOptions {
+  /**
+   * Detectors to run; earlier detectors win when matches overlap
+   * @default PII_DETECTORS
+   */
+  detectors?: readonly PiiDetector[];
+
+  /**
+   * Placeholder for the nth distinct value found by a detector
+   * @default (id, n) => `[${id.toUpperCase()}_${n}]`
+   */
+  placeholder?(detectorId: string, n: number): string;
+}
+
+/**
+ * Counts for one detector
+ */
+export interface PiiDetectorSummary {
+  /**
+   * Number of replaced occurrences
+   */
+  occurrences: number;
+
+  /**
+   * Number of distinct values, i.e. placeholders used
+   */
+  values: number;
+}
+
+/**
+ * What a redaction run changed; never contains the redacted values
+ */
+export interface PiiRedactionSummary {
+  occurrences: number;
+  values: number;
+  byDetector: Record<string, PiiDetectorSummary>;
+
+  /**
+   * Dotted paths of the strings that were changed, e.g. "messages.3.text"
+   */
+  paths: string[];
+}
+
+const digits = (value: string) => value.replace(/\D/g, '');
+
+function passesLuhn(number: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < number.length; i++) {
+    let digit = Number(number[number.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Built-in detectors, in priority order
+ */
+export const PII_DETECTORS: readonly PiiDetector[] = [
+  {
+    id: 'email',
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+    normalize: (value) => value.toLowerCase(),
+  },
+  {
+    id: 'credit_card',
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    validate: (value) => passesLuhn(digits(value)),
+    normalize: digits,
+  },
+  {
+    id: 'ip_address',
+    // IPv4 after "v" or "version", or inside a longer dotted run, is a version string
+    pattern:
+      /(?<!\b(?:v|version)\s*)(?<!\d\.)\b(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)\b(?!\.\d)|(?<![\w:])(?:[A-Fa-f0-9]{0,4}:){2,7}[A-Fa-f0-9]{0,4}(?![\w:])/gi,
+    // Colon-separated groups are IPv6 only when complete or compressed, not times like 12:30:45
+    validate: (value) =>
+      !value.includes(':') || value.includes('::') || value.split(':').length === 8,
+    normalize: (value) => value.toLowerCase(),
+  },
+  {
+    id: 'phone',
+    pattern:
+      /(?<![\w+])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d{2,4}(?:[\s.-]?\d{2,4}){1,4}(?!\w)/g,
+    validate: (value) => {
+      const count = digits(value).length;
+      if (count < 7 || count > 15 || /\d{4}-\d{2}-\d{2}|^\d{5}-\d{4}$/.test(value)) {
+        return false;
+      }
+      // Require phone-like grouping so order IDs, dates and ZIP+4 codes are left alone
+      return /^[+(]/.test(value) || /\d{3}[\s.-]\d{3}[\s.-]\d{4}/.test(value);
+    },
+    normalize: (value) => (value.trim().startsWith('+') ? '+' : '') + digits(value),
+  },
+];
+
+const defaultPlaceholder = (detectorId: string, n: number) =>
+  `[${detectorId.toUpperCase()}_${n}]`;
+
+/**
+ * Applies detectors to strings, remembering placeholders across calls
+ */
+class PiiRedactor {
+  private readonly detectors: readonly PiiDetector[];
+  private readonly placeholder: (detectorId: string, n: number) => string;
+  private readonly placeholders = new Map<string, string>();
+  private readonly summary: PiiRedactionSummary = {
+    occurrences: 0,
+    values: 0,
+    byDetector: {},
+    paths: [],
+  };
+
+  constructor(options: PiiRedactionOptions) {
+    this.detectors = options.detectors ?? PII_DETECTORS;
+    this.placeholder = options.placeholder ?? defaultPlaceholder;
+  }
+
+  private find(text: string): Array<PiiMatch & { detector: PiiDetector }> {
+    const matches: Array<PiiMatch & { detector: PiiDetector; priority: number }> = [];
+    this.detectors.forEach((detector, priority) => {
+      const found: PiiMatch[] = detector.detect
+        ? detector.detect(text)
+        : [...(detector.pattern ? text.matchAll(detector.pattern) : [])].map((match) => ({
+            start: match.index!,
+            end: match.index! + match[0].length,
+          }));
+      for (const match of found) {
+        const value = text.slice(match.start, match.end);
+        if (match.end > match.start && (!detector.validate || detector.validate(value))) {
+          matches.push({ ...match, detector, priority });
+        }
+      }
+    });
+
+    // Earlier detectors win overlaps, then earlier and longer matches
+    matches.sort((a, b) => a.priority - b.priority || a.start - b.start || b.end - a.end);
+    const kept: typeof matches = [];
+    for (const match of matches) {
+      if (kept.every((other) => match.end <= other.start || match.start >= other.end)) {
+        kept.push(match);
+      }
+    }
+    return kept.sort((a, b) => a.start - b.start);
+  }
+
+  private placeholderFor(detector: PiiDetector, value: string): string {
+    const key = `${detector.id}\u0000${detector.normalize ? detector.normalize(value) : value}`;
+    let placeholder = this.placeholders.get(key);
+    if (placeholder === undefined) {
+      const counts = (this.summary.byDetector[detector.id] ??= { occurrences: 0, values: 0 });
+      counts.values++;
+      this.summary.values++;
+      placeholder = this.placeholder(detector.id, counts.values);
+      this.placeholders.set(key, placeholder);
+    }
+    this.summary.byDetector[detector.id].occurrences++;
+    this.summary.occurrences++;
+    return placeholder;
+  }
+
+  redactString(text: string, path: string): string {
+    const matches = this.find(text);
+    if (matches.length === 0) {
+      return text;
+    }
+    let result = '';
+    let cursor = 0;
+    for (const match of matches) {
+      result += text.slice(cursor, match.start);
+      result += this.placeholderFor(match.detector, text.slice(match.start, match.end));
+      cursor = match.end;
+    }
+    this.summary.paths.push(path);
+    return result + text.slice(cursor);
+  }
+
+  /**
+   * Redact every string in a JSON value
+   */
+  redactValue<T>(value: T, path: string): T {
+    if (typeof value === 'string') {
+      return this.redactString(value, path) as T;
+    }
+    if (Array.isArray(value)) {
+      return value.map((item, index) => this.redactValue(item, `${path}.${index}`)) as T;
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, child]) => [
+          key,
+          this.redactValue(child, `${path}.${key}`),
+        ])
+      ) as T;
+    }
+    return value;
+  }
+
+  getSummary(): PiiRedactionSummary {
+    return this.summary;
+  }
+}
+
+/**
+ * Redact PII from an agent's messages and core memory
+ *
+ * Every string in a message is redacted (text, tool calls and results, and
+ * message metadata) except its `id`, `role` and `timestamp`, as is every
+ * core memory value. The system prompt, tools and agent `metadata_` are
+ * left as-is. The input is not modified.
+ *
+ * @param agent - Agent to redact
+ * @param options - Detectors and placeholder format
+ * @returns Redacted copy of the agent and a summary of the changes
+ *
+ * @example
+ * ```typescript
+ * const { data, summary } = redactPii(agent);
+ * console.log(`Redacted ${summary.occurrences} occurrences of ${summary.values} values`);
+ * ```
+ */
+export function redactPii(
+  agent: AfAgentSchema,
+  options: PiiRedactionOptions = {}
+): { data: AfAgentSchema; summary: PiiRedactionSummary } {
+  const redactor = new PiiRedactor(options);
+
+  const redactBlock = (block: AfCoreMemoryBlock, key: string | number) => ({
+    ...block,
+    value: redactor.redactString(block.value, `core_memory.${key}.value`),
+  });
+  // The Mastra exporter builds core memory as a list of blocks
+  const coreMemory = (
+    Array.isArray(agent.core_memory)
+      ? (agent.core_memory as AfCoreMemoryBlock[]).map(redactBlock)
+      : Object.fromEntries(
+          Object.entries(agent.core_memory).map(([key, block]) => [key, redactBlock(block, key)])
+        )
+  ) as AfAgentSchema['core_memory'];
+  // Every string a message carries, including its metadata, except the fields identifying it
+  const messages = agent.messages.map(({ id, role, timestamp, ...content }, index) => ({
+    id,
+    role,
+    timestamp,
+    ...redactor.redactValue(content, `messages.${index}`),
+  }));
+
+  return {
+    data: { ...agent, core_memory: coreMemory, messages },
+    summary: redactor.getSummary(),
+  };
+}
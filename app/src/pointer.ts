@@ -0,0 +1,42 @@
+/**
+ * @fileoverview JSON Pointer (RFC 6901) helpers
+ *
+ * @module @mastra/portability-af-letta
+ */
+
+/**
+ * Escape a single reference token
+ */
+function escapeToken(token: string | number): string {
+  return String(token).replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/**
+ * Build a JSON Pointer from path segments
+ *
+ * @param segments - Object keys and array indices from the document root
+ * @returns JSON Pointer string, e.g. "/messages/3/timestamp"
+ */
+export function formatJsonPointer(segments: ReadonlyArray<string | number>): string {
+  return segments.map((segment) => `/${escapeToken(segment)}`).join('');
+}
+
+/**
+ * Split a JSON Pointer into its unescaped reference tokens
+ *
+ * @param pointer - JSON Pointer string, e.g. "/core_memory/persona/value"
+ * @returns Reference tokens; empty for the whole document ("")
+ * @throws {Error} If the pointer does not start with "/" or has an invalid escape
+ */
+export function parseJsonPointer(pointer: string): string[] {
+  if (pointer === '') {
+    return [];
+  }
+  if (!pointer.startsWith('/') || /~(?![01])/.test(pointer)) {
+    throw new Error(`Invalid JSON Pointer "${pointer}"`);
+  }
+  return pointer
+    .slice(1)
+    .split('/')
+    .map((token) => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
@@ -0,0 +1,423 @@
+/**
+ * @fileoverview Source positions for .af (Agent File) validation errors
+ *
+ * A small position-tracking JSON parser that records where every value
+ * starts, so validation errors can point at a line, column and byte offset
+ * in the original text, plus a code frame formatter for error output.
+ *
+ * @module @mastra/portability-af-letta
+ */
+
+/**
+ * Location of a value in the source text
+ */
+export interface SourcePosition {
+  /**
+   * 1-based line number
+   */
+  line: number;
+
+  /**
+   * 1-based column number, in characters
+   */
+  column: number;
+
+  /**
+   * 0-based UTF-8 byte offset from the start of the source
+   */
+  offset: number;
+}
+
+/**
+ * Validation error, optionally located in the source text
+ */
+export interface ValidationIssue {
+  path: string;
+  message: string;
+  code?: string;
+  line?: number;
+  column?: number;
+  offset?: number;
+}
+
+/**
+ * JSON syntax error with the exact location of the problem
+ */
+export class JsonSyntaxError extends Error {
+  /**
+   * Where the syntax error was detected
+   */
+  public readonly position: SourcePosition;
+
+  constructor(message: string, position: SourcePosition) {
+    super(`${message} at line ${position.line}, column ${position.column}`);
+    this.name = 'JsonSyntaxError';
+    this.position = position;
+
+    // Ensure proper prototype chain for instanceof checks
+    Object.setPrototypeOf(this, JsonSyntaxError.prototype);
+  }
+}
+
+/**
+ * Result of a position-tracking parse
+ */
+export interface PositionedJson {
+  /**
+   * Parsed value, identical to `JSON.parse` output
+   */
+  value: unknown;
+
+  /**
+   * Start position of every value, keyed by dotted path ("" for the root)
+   */
+  positions: Map<string, SourcePosition>;
+}
+
+const NUMBER_PATTERN = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+
+/**
+ * Recursive descent JSON parser that tracks value positions
+ */
+class PositionTrackingParser {
+  private index = 0;
+  private readonly positions = new Map<string, SourcePosition>();
+
+  // Position bookkeeping advances monotonically from the last computed index
+  private trackedIndex = 0;
+  private trackedLine = 1;
+  private trackedColumn = 1;
+  private trackedOffset = 0;
+
+  constructor(private readonly text: string) {}
+
+  parse(): PositionedJson {
+    const value = this.parseValue('');
+    this.skipWhitespace();
+    if (this.index < this.text.length) {
+      throw this.unexpected();
+    }
+    return { value, positions: this.positions };
+  }
+
+  private parseValue(path: string): unknown {
+    this.skipWhitespace();
+    this.positions.set(path, this.positionAt(this.index));
+
+    const char = this.text[this.index];
+    switch (char) {
+      case '{':
+        return this.parseObject(path);
+      case '[':
+        return this.parseArray(path);
+      case '"':
+        return this.parseString();
+      case 't':
+        return this.parseLiteral('true', true);
+      case 'f':
+        return this.parseLiteral('false', false);
+      case 'n':
+        return this.parseLiteral('null', null);
+      default:
+        return this.parseNumber();
+    }
+  }
+
+  private parseObject(path: string): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    this.index++;
+    this.skipWhitespace();
+
+    if (this.text[this.index] === '}') {
+      this.index++;
+      return result;
+    }
+
+    while (true) {
+      this.skipWhitespace();
+      if (this.text[this.index] !== '"') {
+        throw this.unexpected('expected property name');
+      }
+      const key = this.parseString();
+      this.skipWhitespace();
+      this.expect(':');
+
+      const value = this.parseValue(path ? `${path}.${key}` : key);
+      // Match JSON.parse, which creates an own "__proto__" property
+      Object.defineProperty(result, key, {
+        value,
+        writable: true,
+        enumerable: true,
+        configurable: true,
+      });
+
+      this.skipWhitespace();
+      if (this.text[this.index] === ',') {
+        this.index++;
+        continue;
+      }
+      this.expect('}');
+      return result;
+    }
+  }
+
+  private parseArray(path: string): unknown[] {
+    const result: unknown[] = [];
+    this.index++;
+    this.skipWhitespace();
+
+    if (this.text[this.index] === ']') {
+      this.index++;
+      return result;
+    }
+
+    while (true) {
+      result.push(this.parseValue(path ? `${path}.${result.length}` : String(result.length)));
+      this.skipWhitespace();
+      if (this.text[this.index] === ',') {
+        this.index++;
+        continue;
+      }
+      this.expect(']');
+      return result;
+    }
+  }
+
+  private parseString(): string {
+    const start = this.index;
+    this.index++;
+
+    while (this.index < this.text.length) {
+      const char = this.text[this.index];
+      if (char === '\\') {
+        this.index += 2;
+        continue;
+      }
+      if (char === '"') {
+        this.index++;
+        try {
+          return JSON.parse(this.text.slice(start, this.index));
+        } catch {
+          throw new JsonSyntaxError('Invalid string', this.positionAt(start));
+        }
+      }
+      if (char < ' ') {
+        throw this.unexpected('control character in string');
+      }
+      this.index++;
+    }
+
+    throw this.unexpected('unterminated string');
+  }
+
+  private parseNumber(): number {
+    NUMBER_PATTERN.lastIndex = this.index;
+    const match = NUMBER_PATTERN.exec(this.text);
+    if (!match || match[0].length === 0) {
+      throw this.unexpected();
+    }
+    this.index += match[0].length;
+    return Number(match[0]);
+  }
+
+  private parseLiteral<T>(literal: string, value: T): T {
+    if (this.text.startsWith(literal, this.index)) {
+      this.index += literal.length;
+      return value;
+    }
+    throw this.unexpected();
+  }
+
+  private expect(char: string): void {
+    if (this.text[this.index] !== char) {
+      throw this.unexpected(`expected '${char}'`);
+    }
+    this.index++;
+  }
+
+  private skipWhitespace(): void {
+    while (this.index < this.text.length) {
+      const char = this.text[this.index];
+      if (char !== ' ' && char !== '\n' && char !== '\r' && char !== '\t') {
+        return;
+      }
+      this.index++;
+    }
+  }
+
+  private unexpected(detail?: string): JsonSyntaxError {
+    const position = this.positionAt(Math.min(this.index, this.text.length));
+    if (this.index >= this.text.length) {
+      return new JsonSyntaxError('Unexpected end of JSON input', position);
+    }
+    const token = JSON.stringify(this.text[this.index]);
+    return new JsonSyntaxError(
+      detail ? `Unexpected token ${token}, ${detail}` : `Unexpected token ${token}`,
+      position
+    );
+  }
+
+  /**
+   * Compute the position of a character index
+   *
+   * Indices must be requested in non-decreasing order.
+   */
+  private positionAt(target: number): SourcePosition {
+    for (; this.trackedIndex < target; this.trackedIndex++) {
+      const code = this.text.charCodeAt(this.trackedIndex);
+      if (code === 0x0a) {
+        this.trackedLine++;
+        this.trackedColumn = 1;
+      } else if (code < 0xdc00 || code > 0xdfff) {
+        // Low surrogates continue the previous character
+        this.trackedColumn++;
+      }
+
+      if (code < 0x80) {
+        this.trackedOffset += 1;
+      } else if (code < 0x800) {
+        this.trackedOffset += 2;
+      } else if (code >= 0xd800 && code <= 0xdbff) {
+        this.trackedOffset += 4;
+      } else if (code < 0xdc00 || code > 0xdfff) {
+        this.trackedOffset += 3;
+      }
+    }
+
+    return {
+      line: this.trackedLine,
+      column: this.trackedColumn,
+      offset: this.trackedOffset,
+    };
+  }
+}
+
+/**
+ * Parse JSON while recording the start position of every value
+ *
+ * @param text - JSON text
+ * @returns Parsed value and a map of dotted paths to positions
+ * @throws {JsonSyntaxError} With the exact location of any syntax error
+ */
+export function parseJsonWithPositions(text: string): PositionedJson {
+  return new PositionTrackingParser(text).parse();
+}
+
+/**
+ * Find the position for a dotted path, falling back to the nearest ancestor
+ *
+ * Paths that do not exist in the source (e.g. a missing required field)
+ * resolve to the enclosing object.
+ *
+ * @param positions - Positions from `parseJsonWithPositions`
+ * @param path - Dotted path, e.g. "messages.41.timestamp"
+ * @returns Source position, or undefined if nothing matches
+ */
+export function findSourcePosition(
+  positions: Map<string, SourcePosition>,
+  path: string
+): SourcePosition | undefined {
+  let current = path;
+  while (true) {
+    const position = positions.get(current);
+    if (position || current === '') {
+      return position;
+    }
+    const dot = current.lastIndexOf('.');
+    current = dot === -1 ? '' : current.slice(0, dot);
+  }
+}
+
+/**
+ * Attach source positions to validation errors
+ *
+ * @param source - JSON text the errors refer to
+ * @param errors - Validation errors with dotted paths
+ * @returns Errors with line, column and offset where they can be located
+ */
+export function locateValidationErrors<T extends ValidationIssue>(
+  source: string,
+  errors: T[]
+): T[] {
+  let positions: Map<string, SourcePosition>;
+  try {
+    positions = parseJsonWithPositions(source).positions;
+  } catch {
+    return errors;
+  }
+
+  return errors.map((error) => {
+    const position = findSourcePosition(positions, error.path);
+    return position ? { ...error, ...position } : error;
+  });
+}
+
+/**
+ * Options for formatting validation errors
+ */
+export interface FormatValidationErrorsOptions {
+  /**
+   * Lines of context to show above and below each error
+   * @default 2
+   */
+  contextLines?: number;
+
+  /**
+   * File name to prefix locations with
+   */
+  fileName?: string;
+}
+
+/**
+ * Format validation errors with a code frame for each located error
+ *
+ * @param source - JSON text the errors refer to
+ * @param errors - Validation errors (positions are computed when missing)
+ * @param options - Formatting options
+ * @returns Human-readable error report
+ *
+ * @example
+ * ```typescript
+ * const errors = getValidationErrors(json);
+ * if (errors) {
+ *   console.error(formatValidationErrors(json, errors, { fileName: 'agent.af' }));
+ * }
+ * ```
+ */
+export function formatValidationErrors(
+  source: string,
+  errors: ValidationIssue[],
+  options: FormatValidationErrorsOptions = {}
+): string {
+  const { contextLines = 2, fileName } = options;
+  const lines = source.split(/\r?\n/);
+  const located = errors.some((error) => error.line === undefined)
+    ? locateValidationErrors(source, errors)
+    : errors;
+
+  return located
+    .map((error) => {
+      const label = error.path || '(root)';
+      if (error.line === undefined || error.column === undefined) {
+        return `${label}: ${error.message}`;
+      }
+
+      const location = `${fileName ? `${fileName}:` : ''}${error.line}:${error.column}`;
+      const first = Math.max(1, error.line - contextLines);
+      const last = Math.min(lines.length, error.line + contextLines);
+      const width = String(last).length;
+
+      const frame: string[] = [];
+      for (let lineNumber = first; lineNumber <= last; lineNumber++) {
+        const marker = lineNumber === error.line ? '>' : ' ';
+        const gutter = String(lineNumber).padStart(width);
+        frame.push(`${marker} ${gutter} | ${lines[lineNumber - 1]}`);
+        if (lineNumber === error.line) {
+          frame.push(`  ${' '.repeat(width)} | ${' '.repeat(error.column - 1)}^`);
+        }
+      }
+
+      return `${label}: ${error.message} (${location})\n${frame.join('\n')}`;
+    })
+    .join('\n\n');
+}
@@ -292,47 +292,66 @@ export const toolRuleSchema = z
   .describe('Tool usage rule');
 
 /**
- * Main agent schema
- * Validates the complete .af file structure with all components.
+ * Agent object shape without cross-field refinements
+ * Shared by the full document schema and the streaming header schema.
  */
-export const afAgentSchema = z
-  .object({
-    // Core identification
-    agent_type: z.string().min(1, 'Agent type is required'),
-    name: z.string().min(1, 'Agent name is required'),
-    description: z.string().optional(),
+const afAgentObjectSchema = z.object({
+  // Core identification
+  agent_type: z.string().min(1, 'Agent type is required'),
+  name: z.string().min(1, 'Agent name is required'),
+  description: z.string().optional(),
 
-    // System configuration
-    system: z.string().min(1, 'System prompt is required'),
+  // System configuration
+  system: z.string().min(1, 'System prompt is required'),
 
-    // Model configuration
-    llm_config: llmConfigSchema,
-    embedding_config: embeddingConfigSchema.optional(),
+  // Model configuration
+  llm_config: llmConfigSchema,
+  embedding_config: embeddingConfigSchema.optional(),
 
-    // Memory components - object with named memory blocks
-    core_memory: z.record(coreMemoryBlockSchema).refine(
-      (memory) => memory.persona && memory.human,
-      'Core memory must contain at least persona and human blocks'
-    ),
-    messages: z.array(messageSchema),
-    in_context_message_indices: z
-      .array(z.number().nonnegative('Message index must be non-negative'))
-      .optional(),
+  // Memory components - object with named memory blocks
+  core_memory: z.record(coreMemoryBlockSchema).refine(
+    (memory) => memory.persona && memory.human,
+    'Core memory must contain at least persona and human blocks'
+  ),
+  messages: z.array(messageSchema),
+  in_context_message_indices: z
+    .array(z.number().nonnegative('Message index must be non-negative'))
+    .optional(),
 
-    // Tools
-    tools: z.array(toolSchema),
-    tool_rules: z.array(toolRuleSchema).optional(),
-    tool_exec_environment_variables: z.record(z.string()).optional(),
+  // Tools
+  tools: z.array(toolSchema),
+  tool_rules: z.array(toolRuleSchema).optional(),
+  tool_exec_environment_variables: z.record(z.string()).optional(),
 
-    // Metadata
-    tags: z.array(z.string()).optional(),
-    metadata_: z.record(z.unknown()).optional(),
+  // Metadata
+  tags: z.array(z.string()).optional(),
+  metadata_: z.record(z.unknown()).optional(),
 
-    // Versioning
-    version: z.string().min(1, 'Version is required'),
-    created_at: iso8601Schema,
-    updated_at: iso8601Schema,
-  })
+  // Versioning
+  version: z.string().min(1, 'Version is required'),
+  created_at: iso8601Schema,
+  updated_at: iso8601Schema,
+});
+
+/**
+ * Check that tool_rules only reference tools defined in the agent
+ */
+function hasValidToolRuleReferences(agent: {
+  tools: Array<{ name: string }>;
+  tool_rules?: Array<{ tool_name: string }>;
+}): boolean {
+  if (agent.tool_rules) {
+    const toolNames = new Set(agent.tools.map((t) => t.name));
+    return agent.tool_rules.every((rule) => toolNames.has(rule.tool_name));
+  }
+  return true;
+}
+
+/**
+ * Main agent schema
+ * Validates the complete .af file structure with all components.
+ */
+export const afAgentSchema = afAgentObjectSchema
   .refine(
     (agent) => {
       // Validate in_context_message_indices references
@@ -347,22 +366,35 @@ export const afAgentSchema = z
       path: ['in_context_message_indices'],
     }
   )
-  .refine(
-    (agent) => {
-      // Validate tool_rules reference existing tools
-      if (agent.tool_rules) {
-        const toolNames = new Set(agent.tools.map((t) => t.name));
-        return agent.tool_rules.every((rule) => toolNames.has(rule.tool_name));
-      }
-      return true;
-    },
-    {
-      message: 'tool_rules references non-existent tools',
-      path: ['tool_rules'],
-    }
-  )
+  .refine(hasValidToolRuleReferences, {
+    message: 'tool_rules references non-existent tools',
+    path: ['tool_rules'],
+  })
   .describe('Complete agent file schema');
 
+/**
+ * Agent header schema
+ * Validates everything except the message history, so large files can be
+ * checked before their messages are read. Message index references are
+ * verified by the caller once the message count is known.
+ */
+export const afAgentHeaderSchema = afAgentObjectSchema
+  .omit({ messages: true })
+  .refine(hasValidToolRuleReferences, {
+    message: 'tool_rules references non-existent tools',
+    path: ['tool_rules'],
+  })
+  .describe('Agent file header schema');
+
+/**
+ * Top-level keys that a complete header must contain
+ */
+export const AF_HEADER_REQUIRED_KEYS: readonly string[] = Object.entries(
+  afAgentObjectSchema.shape
+)
+  .filter(([key, fieldSchema]) => key !== 'messages' && !fieldSchema.isOptional())
+  .map(([key]) => key);
+
 /**
  * Type guard to check if a value is a valid AfAgentSchema
  */
@@ -0,0 +1,400 @@
+/**
+ * @fileoverview Secret scanning for .af (Agent File) documents
+ *
+ * Credentials belong behind an `AuthReference`, never in the file itself.
+ * The scanner looks for raw keys anywhere in a document (environment
+ * variables, tool source code, metadata, message text) using patterns for
+ * common key formats plus an entropy check for values stored under
+ * secret-looking names. Findings never contain the secret itself.
+ *
+ * @module @mastra/portability-af-letta
+ */
+
+import { AgentFileParseError } from './errors';
+import type { AuthReference } from './types';
+
+/**
+ * What to do when secrets are found
+ *
+ * - `fail`: throw an `AgentFileParseError` listing every finding
+ * - `warn`: keep the values and report the findings
+ * - `redact`: replace each secret with an `AuthReference`-style placeholder
+ */
+export type SecretPolicy = 'fail' | 'warn' | 'redact';
+
+/**
+ * A pattern that recognizes one kind of secret
+ */
+export interface SecretDetector {
+  id: string;
+  description: string;
+
+  /**
+   * Pattern to search for; must have the global flag
+   */
+  pattern: RegExp;
+
+  /**
+   * Capture group holding the secret, when the pattern matches surrounding text
+   * @default 0
+   */
+  group?: number;
+
+  /**
+   * Environment variable name suggested for the credential
+   */
+  configId: string;
+
+  /**
+   * Minimum Shannon entropy in bits per character, to skip placeholders
+   */
+  minEntropy?: number;
+}
+
+/**
+ * A secret found in a document
+ */
+export interface SecretFinding {
+  /**
+   * Dotted path to the string containing the secret, e.g. "tools.0.source_code"
+   */
+  path: string;
+
+  /**
+   * ID of the detector that matched, or "high_entropy"
+   */
+  detector: string;
+
+  description: string;
+
+  /**
+   * Character range of the secret within the string
+   */
+  start: number;
+  end: number;
+
+  /**
+   * Masked form of the secret, safe to log
+   */
+  preview: string;
+
+  /**
+   * Reference that should replace the secret
+   */
+  authRef: AuthReference;
+}
+
+/**
+ * Options for scanning documents
+ */
+export interface SecretScanOptions {
+  /**
+   * Detectors to run
+   * @default SECRET_DETECTORS
+   */
+  detectors?: readonly SecretDetector[];
+
+  /**
+   * Entropy check for values under secret-looking keys, or false to disable
+   * @default { minLength: 16, threshold: 3.5 }
+   */
+  entropy?: false | { minLength?: number; threshold?: number };
+
+  /**
+   * Path prefix for findings, when scanning part of a document
+   */
+  path?: string;
+}
+
+/**
+ * Built-in detectors for common key formats
+ */
+export const SECRET_DETECTORS: readonly SecretDetector[] = [
+  {
+    id: 'anthropic_api_key',
+    description: 'Anthropic API key',
+    pattern: /\bsk-ant-[a-z]+\d{2}-[A-Za-z0-9_-]{20,}/g,
+    configId: 'ANTHROPIC_API_KEY',
+  },
+  {
+    id: 'openai_api_key',
+    description: 'OpenAI API key',
+    pattern: /\bsk-(?!ant-)(?:proj-|svcacct-|admin-)?[A-Za-z0-9_-]{20,}/g,
+    configId: 'OPENAI_API_KEY',
+  },
+  {
+    id: 'github_token',
+    description: 'GitHub token',
+    pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})/g,
+    configId: 'GITHUB_TOKEN',
+  },
+  {
+    id: 'aws_access_key_id',
+    description: 'AWS access key ID',
+    pattern: /\b(?:AKIA|ASIA)[A-Z0-9]{16}\b/g,
+    configId: 'AWS_ACCESS_KEY_ID',
+  },
+  {
+    id: 'aws_secret_access_key',
+    description: 'AWS secret access key',
+    pattern: /aws_?secret_?(?:access_?)?key["']?\s*[:=]\s*["']?([A-Za-z0-9/+=]{40})(?![A-Za-z0-9/+=])/gi,
+    group: 1,
+    configId: 'AWS_SECRET_ACCESS_KEY',
+  },
+  {
+    id: 'jwt',
+    description: 'JSON Web Token',
+    pattern: /\beyJ[A-Za-z0-9_-]{5,}\.eyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]{10,}/g,
+    configId: 'JWT',
+  },
+  {
+    id: 'private_key',
+    description: 'Private key',
+    pattern: /-----BEGIN (?:[A-Z]+ )*PRIVATE KEY-----[\s\S]*?-----END (?:[A-Z]+ )*PRIVATE KEY-----/g,
+    configId: 'PRIVATE_KEY',
+  },
+  {
+    id: 'assigned_secret',
+    description: 'Secret assigned in code or configuration',
+    pattern:
+      /(?:api[_-]?key|secret|token|passw(?:or)?d)\w*["']?\s*[:=]\s*["']([^"'\s]{8,})["']/gi,
+    group: 1,
+    configId: 'SECRET',
+    minEntropy: 3,
+  },
+];
+
+/**
+ * Keys whose string values are treated as credentials by the entropy check
+ */
+const SECRET_KEY_PATTERN = /(?:api[_-]?key|secret|token|passw(?:or)?d|credential|private[_-]?key)/i;
+
+/**
+ * Placeholder written by redaction, e.g. "{{auth_ref:env:OPENAI_API_KEY}}"
+ */
+const PLACEHOLDER_PATTERN = /^\{\{auth_ref:[a-z0-9]+:[^}]+\}\}$/;
+
+/**
+ * Format the placeholder that replaces a redacted secret
+ *
+ * @param authRef - Reference to the credential's real location
+ * @returns Placeholder text, e.g. "{{auth_ref:env:OPENAI_API_KEY}}"
+ */
+export function formatSecretPlaceholder(authRef: AuthReference): string {
+  return `{{auth_ref:${authRef.provider}:${authRef.config_id}}}`;
+}
+
+function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+  const length = [...value].length;
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+function maskSecret(secret: string): string {
+  return `${secret.slice(0, 4)}…(${secret.length} chars)`;
+}
+
+function toConfigId(key: string): string {
+  return key.replace(/[^A-Za-z0-9]+/g, '_').replace(/^_+|_+$/g, '').toUpperCase() || 'SECRET';
+}
+
+function joinPath(prefix: string, key: string | number): string {
+  return prefix ? `${prefix}.${key}` : String(key);
+}
+
+/**
+ * Find secrets in one string
+ *
+ * @param key - Key the string is stored under, used for entropy checks
+ * @param envVar - Whether the string is an environment variable value
+ */
+function scanString(
+  value: string,
+  path: string,
+  key: string | undefined,
+  envVar: boolean,
+  options: SecretScanOptions
+): SecretFinding[] {
+  if (PLACEHOLDER_PATTERN.test(value)) {
+    return [];
+  }
+  const { detectors = SECRET_DETECTORS, entropy = {} } = options;
+  // Credentials under a named key are referenced by that name
+  const namedConfigId =
+    key !== undefined && (envVar || SECRET_KEY_PATTERN.test(key)) ? toConfigId(key) : undefined;
+
+  const matches: SecretFinding[] = [];
+  for (const detector of detectors) {
+    for (const match of value.matchAll(detector.pattern)) {
+      const secret = match[detector.group ?? 0];
+      if (
+        !secret ||
+        PLACEHOLDER_PATTERN.test(secret) ||
+        (detector.minEntropy && shannonEntropy(secret) < detector.minEntropy)
+      ) {
+        continue;
+      }
+      // Captured secrets end their match, so search from the end
+      const start = match.index! + match[0].lastIndexOf(secret);
+      matches.push({
+        path,
+        detector: detector.id,
+        description: detector.description,
+        start,
+        end: start + secret.length,
+        preview: maskSecret(secret),
+        authRef: { provider: 'env', config_id: namedConfigId ?? detector.configId },
+      });
+    }
+  }
+
+  if (matches.length === 0 && entropy !== false && namedConfigId !== undefined) {
+    const { minLength = 16, threshold = 3.5 } = entropy;
+    const trimmed = value.trim();
+    if (
+      trimmed.length >= minLength &&
+      !/\s/.test(trimmed) &&
+      shannonEntropy(trimmed) >= threshold
+    ) {
+      const start = value.indexOf(trimmed);
+      matches.push({
+        path,
+        detector: 'high_entropy',
+        description: 'High-entropy value under a secret-like name',
+        start,
+        end: start + trimmed.length,
+        preview: maskSecret(trimmed),
+        authRef: { provider: 'env', config_id: namedConfigId },
+      });
+    }
+  }
+
+  // Keep the first of overlapping matches, preferring the longest
+  matches.sort((a, b) => a.start - b.start || b.end - a.end);
+  return matches.filter(
+    (match, index) => index === 0 || match.start >= matches[index - 1].end
+  );
+}
+
+function scanValue(
+  value: unknown,
+  path: string,
+  key: string | undefined,
+  envVar: boolean,
+  options: SecretScanOptions,
+  findings: SecretFinding[]
+): void {
+  if (typeof value === 'string') {
+    findings.push(...scanString(value, path, key, envVar, options));
+  } else if (Array.isArray(value)) {
+    value.forEach((item, index) =>
+      scanValue(item, joinPath(path, index), key, false, options, findings)
+    );
+  } else if (value && typeof value === 'object') {
+    for (const [childKey, child] of Object.entries(value)) {
+      // Auth references hold locations, not credentials
+      if (childKey === 'auth_ref') {
+        continue;
+      }
+      scanValue(
+        child,
+        joinPath(path, childKey),
+        childKey,
+        path.endsWith('tool_exec_environment_variables'),
+        options,
+        findings
+      );
+    }
+  }
+}
+
+/**
+ * Scan a document for raw credentials
+ *
+ * @param data - Agent file document, or any part of one
+ * @param options - Detectors and entropy settings
+ * @returns Findings in document order
+ *
+ * @example
+ * ```typescript
+ * for (const finding of scanForSecrets(agent)) {
+ *   console.warn(`${finding.description} at ${finding.path} (${finding.preview})`);
+ * }
+ * ```
+ */
+export function scanForSecrets(data: unknown, options: SecretScanOptions = {}): SecretFinding[] {
+  const findings: SecretFinding[] = [];
+  scanValue(data, options.path ?? '', undefined, false, options, findings);
+  return findings;
+}
+
+/**
+ * Replace secrets with placeholders, without modifying the input
+ */
+function redact(value: unknown, path: string, byPath: Map<string, SecretFinding[]>): unknown {
+  const found = byPath.get(path);
+  if (typeof value === 'string' && found) {
+    // Replace from the end so earlier ranges stay valid
+    return [...found]
+      .sort((a, b) => b.start - a.start)
+      .reduce(
+        (text, finding) =>
+          text.slice(0, finding.start) +
+          formatSecretPlaceholder(finding.authRef) +
+          text.slice(finding.end),
+        value
+      );
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) => redact(item, joinPath(path, index), byPath));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, child]) => [key, redact(child, joinPath(path, key), byPath)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Scan a document and apply a secret policy
+ *
+ * @param data - Agent file document, or any part of one
+ * @param policy - What to do with findings
+ * @param options - Detectors and entropy settings
+ * @returns The document (a redacted copy under `redact`) and the findings
+ * @throws {AgentFileParseError} Under the `fail` policy, if any secret is found
+ */
+export function applySecretPolicy<T>(
+  data: T,
+  policy: SecretPolicy,
+  options: SecretScanOptions = {}
+): { data: T; findings: SecretFinding[] } {
+  const findings = scanForSecrets(data, options);
+  if (findings.length === 0 || policy === 'warn') {
+    return { data, findings };
+  }
+  if (policy === 'fail') {
+    throw new AgentFileParseError('Agent file contains secrets', {
+      validationErrors: findings.map((finding) => ({
+        path: finding.path,
+        message: `Possible ${finding.description} (${finding.preview}); use an auth reference to ${finding.authRef.config_id} instead`,
+        code: 'secret_detected',
+      })),
+    });
+  }
+
+  const byPath = new Map<string, SecretFinding[]>();
+  for (const finding of findings) {
+    byPath.set(finding.path, [...(byPath.get(finding.path) ?? []), finding]);
+  }
+  return { data: redact(data, options.path ?? '', byPath) as T, findings };
+}
@@ -0,0 +1,282 @@
+/**
+ * @fileoverview Ed25519 signatures for .af (Agent File) documents
+ *
+ * A signature covers the canonical serialization of the whole agent and is
+ * stored in a reserved `metadata_` section, so signed files remain valid
+ * agent files. The section's own metadata (key ID, signing time) is covered
+ * too; only the signature value is left out of the signed bytes.
+ *
+ * @module @mastra/portability-af-letta
+ */
+
+import {
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  sign,
+  verify,
+  type KeyObject,
+} from 'crypto';
+import { serializeAgentFile } from './canonical';
+import type { AfAgentSchema } from './types';
+
+/**
+ * `metadata_` key reserved for the signature section
+ */
+export const SIGNATURE_METADATA_KEY = 'af_signature';
+
+/**
+ * Signature section stored under `metadata_.af_signature`
+ */
+export interface AfSignature {
+  algorithm: 'ed25519';
+
+  /**
+   * ID of the signing key, matched against trusted keys on verification
+   */
+  key_id: string;
+
+  /**
+   * ISO 8601 time the file was signed
+   */
+  signed_at: string;
+
+  /**
+   * Base64-encoded Ed25519 signature
+   */
+  signature: string;
+}
+
+/**
+ * A key as a `KeyObject` or PEM string
+ */
+export type SigningKey = KeyObject | string;
+
+/**
+ * Public keys allowed to sign, as a list or by key ID
+ *
+ * Keys given as a list are identified by `getSigningKeyId`.
+ */
+export type TrustedKeys = readonly SigningKey[] | Readonly<Record<string, SigningKey>>;
+
+/**
+ * Options for signing agent files
+ */
+export interface SignAgentFileOptions {
+  /**
+   * Key ID to record in the signature
+   * @default getSigningKeyId(privateKey)
+   */
+  keyId?: string;
+
+  /**
+   * Source of the signing time
+   * @default () => new Date()
+   */
+  clock?: () => Date;
+}
+
+/**
+ * Outcome of verifying a signature
+ *
+ * - `valid`: signed by a trusted key and unchanged since
+ * - `unsigned`: no signature section
+ * - `malformed`: the signature section is not a valid `AfSignature`
+ * - `untrusted_key`: signed by a key that is not trusted
+ * - `invalid_key`: the trusted key for the signature, or one that might be it, cannot be loaded
+ * - `invalid_signature`: the file was changed after signing, or the key does not match
+ */
+export type SignatureStatus =
+  | 'valid'
+  | 'unsigned'
+  | 'malformed'
+  | 'untrusted_key'
+  | 'invalid_key'
+  | 'invalid_signature';
+
+/**
+ * Result of verifying an agent file's signature
+ */
+export interface SignatureVerification {
+  valid: boolean;
+  status: SignatureStatus;
+
+  /**
+   * ID of the signing key, when the file is signed
+   */
+  keyId?: string;
+
+  /**
+   * Signing time recorded in the file, when signed
+   */
+  signedAt?: string;
+}
+
+function toPublicKey(key: SigningKey): KeyObject {
+  return typeof key === 'string' || key.type !== 'public' ? createPublicKey(key) : key;
+}
+
+/**
+ * Derive the ID of a key: the first 16 hex digits of the SHA-256 of its public key
+ *
+ * @param key - Private or public key
+ * @returns Key ID, e.g. "3f2a9c0d41b8e7a6"
+ */
+export function getSigningKeyId(key: SigningKey): string {
+  const der = toPublicKey(key).export({ type: 'spki', format: 'der' });
+  return createHash('sha256').update(der).digest('hex').slice(0, 16);
+}
+
+/**
+ * Bytes covered by a signature: the canonical agent without the signature value
+ */
+function signedPayload(agent: AfAgentSchema, section: Omit<AfSignature, 'signature'>): Buffer {
+  const payload = {
+    ...agent,
+    metadata_: { ...agent.metadata_, [SIGNATURE_METADATA_KEY]: section },
+  };
+  return Buffer.from(serializeAgentFile(payload, { pretty: false }), 'utf8');
+}
+
+/**
+ * Sign an agent file with an Ed25519 private key
+ *
+ * Any existing signature is replaced. Sign the agent exactly as it will be
+ * written: later changes, including re-running auto-fixes, invalidate it.
+ *
+ * @param agent - Agent to sign
+ * @param privateKey - Ed25519 private key
+ * @param options - Key ID and clock
+ * @returns Copy of the agent with `metadata_.af_signature` set
+ *
+ * @example
+ * ```typescript
+ * const signed = signAgentFile(agent, await fs.readFile('signing-key.pem', 'utf-8'));
+ * await fs.writeFile('agent.af', serializeAgentFile(signed));
+ * ```
+ */
+export function signAgentFile(
+  agent: AfAgentSchema,
+  privateKey: SigningKey,
+  options: SignAgentFileOptions = {}
+): AfAgentSchema {
+  const key = typeof privateKey === 'string' ? createPrivateKey(privateKey) : privateKey;
+  if (key.asymmetricKeyType !== 'ed25519' || key.type !== 'private') {
+    throw new TypeError('Agent files must be signed with an Ed25519 private key');
+  }
+  const { keyId = getSigningKeyId(key), clock = () => new Date() } = options;
+
+  const section = {
+    algorithm: 'ed25519' as const,
+    key_id: keyId,
+    signed_at: clock().toISOString(),
+  };
+  const signature: AfSignature = {
+    ...section,
+    signature: sign(null, signedPayload(agent, section), key).toString('base64'),
+  };
+
+  return {
+    ...agent,
+    metadata_: { ...agent.metadata_, [SIGNATURE_METADATA_KEY]: signature },
+  };
+}
+
+function isSignatureSection(value: unknown): value is AfSignature {
+  const section = value as Partial<AfSignature> | null;
+  return (
+    !!section &&
+    typeof section === 'object' &&
+    section.algorithm === 'ed25519' &&
+    typeof section.key_id === 'string' &&
+    typeof section.signed_at === 'string' &&
+    typeof section.signature === 'string'
+  );
+}
+
+/**
+ * Public key of a trusted key, or undefined if it is not a valid key, e.g. a malformed PEM
+ */
+function loadTrustedKey(key: SigningKey): KeyObject | undefined {
+  try {
+    return toPublicKey(key);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Find the trusted key for a key ID
+ *
+ * @returns The key, `invalid_key` if it cannot be loaded, or undefined if it is not trusted
+ */
+function findTrustedKey(
+  trustedKeys: TrustedKeys,
+  keyId: string
+): KeyObject | 'invalid_key' | undefined {
+  if (!Array.isArray(trustedKeys)) {
+    if (!Object.prototype.hasOwnProperty.call(trustedKeys, keyId)) {
+      return undefined;
+    }
+    return loadTrustedKey((trustedKeys as Record<string, SigningKey>)[keyId]) ?? 'invalid_key';
+  }
+
+  let unreadable = false;
+  for (const key of trustedKeys as readonly SigningKey[]) {
+    const publicKey = loadTrustedKey(key);
+    if (publicKey && getSigningKeyId(publicKey) === keyId) {
+      return publicKey;
+    }
+    unreadable ||= !publicKey;
+  }
+  // The unreadable key may be the one that signed the file
+  return unreadable ? 'invalid_key' : undefined;
+}
+
+/**
+ * Verify an agent file's signature against trusted public keys
+ *
+ * @param agent - Signed agent
+ * @param trustedKeys - Public keys allowed to sign
+ * @returns Verification result; never throws, including for malformed trusted keys
+ *
+ * @example
+ * ```typescript
+ * const result = verifyAgentFile(agent, { 'team-a': teamAPublicKey });
+ * if (!result.valid) {
+ *   throw new Error(`Untrusted agent file: ${result.status}`);
+ * }
+ * ```
+ */
+export function verifyAgentFile(
+  agent: AfAgentSchema,
+  trustedKeys: TrustedKeys
+): SignatureVerification {
+  const metadata = agent.metadata_;
+  if (!metadata || typeof metadata !== 'object' || !(SIGNATURE_METADATA_KEY in metadata)) {
+    return { valid: false, status: 'unsigned' };
+  }
+  const section = metadata[SIGNATURE_METADATA_KEY];
+  if (!isSignatureSection(section)) {
+    return { valid: false, status: 'malformed' };
+  }
+
+  const { signature, ...signed } = section;
+  const result = { keyId: section.key_id, signedAt: section.signed_at };
+  const publicKey = findTrustedKey(trustedKeys, section.key_id);
+  if (publicKey === undefined) {
+    return { valid: false, status: 'untrusted_key', ...result };
+  }
+  if (publicKey === 'invalid_key') {
+    return { valid: false, status: 'invalid_key', ...result };
+  }
+
+  let valid: boolean;
+  try {
+    valid = verify(null, signedPayload(agent, signed), publicKey, Buffer.from(signature, 'base64'));
+  } catch {
+    // Non-Ed25519 trusted keys cannot have produced the signature
+    valid = false;
+  }
+  return { valid, status: valid ? 'valid' : 'invalid_signature', ...result };
+}
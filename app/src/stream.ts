@@ -0,0 +1,753 @@
+/**
+ * @fileoverview Streaming parser for very large Letta .af (Agent File) documents
+ *
+ * Reads an agent file incrementally from a Node `Readable`, a Web
+ * `ReadableStream` or any async iterable of chunks. The header (everything
+ * except `messages`) is validated first, then messages are yielded one at a
+ * time so memory use stays bounded by the largest single message.
+ *
+ * @module @mastra/portability-af-letta
+ */
+
+import { z } from 'zod';
+import { afAgentHeaderSchema, messageSchema, AF_HEADER_REQUIRED_KEYS } from './schema';
+import { AgentFileParseError } from './errors';
+import { enforceVersionCompatibility, type ParseOptions } from './parser';
+import {
+  applyAutoFixes,
+  resolveAutoFixCategories,
+  type AppliedFix,
+  type AutoFixCategory,
+} from './autofix';
+import {
+  findUnknownFields,
+  findUnknownMessageFields,
+  unknownFieldErrors,
+  type UnknownField,
+} from './strict';
+import {
+  enforceMemoryLimits,
+  resolveMemoryLimitAliases,
+  type MemoryLimitPolicy,
+  type MemoryLimitViolation,
+} from './memory';
+import { applySecretPolicy, type SecretFinding } from './secrets';
+import { needsMigration } from './migrate';
+import { SUPPORTED_AF_VERSION, type VersionCompatibility } from './version';
+import type { AfAgentSchema, AfMessage } from './types';
+
+/**
+ * Agent file contents without the message history
+ */
+export type AfAgentHeader = Omit<AfAgentSchema, 'messages'>;
+
+/**
+ * Minimal structural type for a Web `ReadableStream` reader source
+ */
+export interface AgentFileReadableStream {
+  getReader(): {
+    read(): Promise<{ done: boolean; value?: Uint8Array | string }>;
+    releaseLock(): void;
+  };
+}
+
+/**
+ * Sources accepted by the streaming parser
+ *
+ * Node `Readable` streams are async iterables of `Buffer` or `string` chunks.
+ */
+export type AgentFileStreamSource =
+  | AgentFileReadableStream
+  | AsyncIterable<Uint8Array | string>;
+
+/**
+ * Options for streaming agent files
+ *
+ * `checkIntegrity` is not supported, and files that need migrating are
+ * rejected unless `migrate` is false, since both need the whole message
+ * history at once.
+ */
+export interface StreamParseOptions extends ParseOptions {
+  /**
+   * Maximum total stream size in bytes (default: 50MB, as for `parseAgentFile`)
+   *
+   * Raise it to stream files larger than 50MB.
+   * @default 52428800
+   */
+  maxSize?: number;
+
+  /**
+   * Maximum length in characters of a single buffered value, i.e. one
+   * message or one header field (default: 50MB)
+   *
+   * Messages that arrive before the required header fields are buffered
+   * until the header is complete, and count toward this limit together.
+   * @default 52428800
+   */
+  maxValueLength?: number;
+}
+
+/**
+ * A streamed agent file
+ */
+export interface AgentFileStream {
+  /**
+   * Validated agent header
+   *
+   * Fields that appear after `messages` in the source are merged into this
+   * object and validated once the message iterator completes.
+   */
+  header: AfAgentHeader;
+
+  /**
+   * Validated messages in document order
+   *
+   * Can only be iterated once. Breaking out early releases the source.
+   */
+  messages: AsyncGenerator<AfMessage, void, undefined>;
+
+  /**
+   * Unknown fields found so far
+   *
+   * Grows as messages are read; complete once the message iterator finishes.
+   */
+  unknownFields: UnknownField[];
+
+  /**
+   * Changes made by auto-fix to the header
+   */
+  fixes: AppliedFix[];
+
+  /**
+   * How the declared version relates to `SUPPORTED_AF_VERSION`
+   */
+  versionCompatibility: VersionCompatibility;
+
+  /**
+   * Core memory blocks that exceeded their character limit
+   */
+  memoryLimitViolations: MemoryLimitViolation[];
+
+  /**
+   * Secrets found when `secretPolicy` is set
+   *
+   * Grows as messages are read; complete once the message iterator finishes.
+   */
+  secrets: SecretFinding[];
+}
+
+/**
+ * Events produced by the incremental scanner
+ */
+type ScanEvent =
+  | { type: 'field'; key: string; value: unknown }
+  | { type: 'messages-start' }
+  | { type: 'message'; index: number; value: unknown; length: number }
+  | { type: 'messages-end'; count: number };
+
+type ScannerState =
+  | 'root'
+  | 'key-or-end'
+  | 'key-start'
+  | 'key'
+  | 'colon'
+  | 'value'
+  | 'field-separator'
+  | 'messages-open'
+  | 'message-or-end'
+  | 'message-start'
+  | 'message'
+  | 'message-separator'
+  | 'done';
+
+const QUOTE = 0x22;
+const BACKSLASH = 0x5c;
+const COMMA = 0x2c;
+const COLON = 0x3a;
+const OPEN_BRACE = 0x7b;
+const CLOSE_BRACE = 0x7d;
+const OPEN_BRACKET = 0x5b;
+const CLOSE_BRACKET = 0x5d;
+
+function isWhitespace(code: number): boolean {
+  return code === 0x20 || code === 0x0a || code === 0x0d || code === 0x09;
+}
+
+/**
+ * Incremental scanner for the top level of an agent file
+ *
+ * Only the root object and the `messages` array are tracked structurally;
+ * every other value is captured as raw text and handed to `JSON.parse` once
+ * complete, so at most one value is buffered at a time.
+ */
+class AgentFileScanner {
+  private state: ScannerState = 'root';
+  private offset = 0;
+  private key = '';
+  private raw = '';
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private scalar = false;
+  private messageCount = 0;
+
+  constructor(private readonly maxValueLength: number) {}
+
+  /**
+   * Feed the next chunk of text and return the events it completed
+   */
+  push(text: string): ScanEvent[] {
+    const events: ScanEvent[] = [];
+    let i = 0;
+
+    while (i < text.length) {
+      const code = text.charCodeAt(i);
+
+      switch (this.state) {
+        case 'root':
+          if (isWhitespace(code)) break;
+          if (code !== OPEN_BRACE) throw this.syntaxError(i, 'Agent file must be a JSON object');
+          this.state = 'key-or-end';
+          break;
+
+        case 'key-or-end':
+        case 'key-start':
+          if (isWhitespace(code)) break;
+          if (code === CLOSE_BRACE && this.state === 'key-or-end') {
+            this.state = 'done';
+            break;
+          }
+          if (code !== QUOTE) throw this.syntaxError(i, 'Expected property name');
+          this.state = 'key';
+          continue;
+
+        case 'key':
+        case 'value':
+        case 'message': {
+          if (this.raw.length === 0 && isWhitespace(code)) break;
+          const end = this.consumeValue(text, i);
+          if (end < 0) {
+            i = text.length;
+            continue;
+          }
+          this.completeValue(end, events);
+          i = end;
+          continue;
+        }
+
+        case 'colon':
+          if (isWhitespace(code)) break;
+          if (code !== COLON) throw this.syntaxError(i, "Expected ':' after property name");
+          this.state = this.key === 'messages' ? 'messages-open' : 'value';
+          break;
+
+        case 'field-separator':
+          if (isWhitespace(code)) break;
+          if (code === COMMA) this.state = 'key-start';
+          else if (code === CLOSE_BRACE) this.state = 'done';
+          else throw this.syntaxError(i, "Expected ',' or '}' after property value");
+          break;
+
+        case 'messages-open':
+          if (isWhitespace(code)) break;
+          if (code !== OPEN_BRACKET) throw this.syntaxError(i, 'messages must be an array');
+          events.push({ type: 'messages-start' });
+          this.state = 'message-or-end';
+          break;
+
+        case 'message-or-end':
+        case 'message-start':
+          if (isWhitespace(code)) break;
+          if (code === CLOSE_BRACKET && this.state === 'message-or-end') {
+            events.push({ type: 'messages-end', count: this.messageCount });
+            this.state = 'field-separator';
+            break;
+          }
+          this.state = 'message';
+          continue;
+
+        case 'message-separator':
+          if (isWhitespace(code)) break;
+          if (code === COMMA) {
+            this.state = 'message-start';
+          } else if (code === CLOSE_BRACKET) {
+            events.push({ type: 'messages-end', count: this.messageCount });
+            this.state = 'field-separator';
+          } else {
+            throw this.syntaxError(i, "Expected ',' or ']' after message");
+          }
+          break;
+
+        case 'done':
+          if (!isWhitespace(code)) throw this.syntaxError(i, 'Unexpected data after agent object');
+          break;
+      }
+
+      i++;
+    }
+
+    this.offset += text.length;
+    return events;
+  }
+
+  /**
+   * Signal the end of input
+   */
+  finish(): void {
+    if (this.state !== 'done') {
+      throw this.syntaxError(0, 'Unexpected end of agent file');
+    }
+  }
+
+  /**
+   * Advance through a captured value starting at `start`
+   *
+   * @returns Index just past the value, or -1 if the chunk ended first
+   */
+  private consumeValue(text: string, start: number): number {
+    let i = start;
+
+    if (this.raw.length === 0) {
+      const first = text.charCodeAt(i);
+      this.depth = 0;
+      this.inString = false;
+      this.escaped = false;
+      this.scalar = first !== QUOTE && first !== OPEN_BRACE && first !== OPEN_BRACKET;
+    }
+
+    for (; i < text.length; i++) {
+      const code = text.charCodeAt(i);
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (code === BACKSLASH) {
+          this.escaped = true;
+        } else if (code === QUOTE) {
+          this.inString = false;
+          if (this.depth === 0) return this.capture(text, start, i + 1);
+        }
+        continue;
+      }
+
+      if (this.scalar) {
+        if (
+          code === COMMA ||
+          code === CLOSE_BRACE ||
+          code === CLOSE_BRACKET ||
+          isWhitespace(code)
+        ) {
+          return this.capture(text, start, i);
+        }
+        continue;
+      }
+
+      if (code === QUOTE) {
+        this.inString = true;
+      } else if (code === OPEN_BRACE || code === OPEN_BRACKET) {
+        this.depth++;
+      } else if (code === CLOSE_BRACE || code === CLOSE_BRACKET) {
+        this.depth--;
+        if (this.depth === 0) return this.capture(text, start, i + 1);
+      }
+    }
+
+    this.append(text.slice(start));
+    return -1;
+  }
+
+  private capture(text: string, start: number, end: number): number {
+    this.append(text.slice(start, end));
+    return end;
+  }
+
+  private append(fragment: string): void {
+    if (this.raw.length + fragment.length > this.maxValueLength) {
+      throw new AgentFileParseError(
+        `Agent file value too large: exceeds ${this.maxValueLength} characters`
+      );
+    }
+    this.raw += fragment;
+  }
+
+  /**
+   * Decode the buffered raw value and emit the matching event
+   */
+  private completeValue(index: number, events: ScanEvent[]): void {
+    let value: unknown;
+    try {
+      value = JSON.parse(this.raw);
+    } catch (error) {
+      throw new AgentFileParseError(
+        `Invalid JSON format near offset ${this.offset + index - this.raw.length}`,
+        { cause: error as Error }
+      );
+    }
+    const { length } = this.raw;
+    this.raw = '';
+
+    if (this.state === 'key') {
+      this.key = value as string;
+      this.state = 'colon';
+    } else if (this.state === 'value') {
+      events.push({ type: 'field', key: this.key, value });
+      this.state = 'field-separator';
+    } else {
+      events.push({ type: 'message', index: this.messageCount++, value, length });
+      this.state = 'message-separator';
+    }
+  }
+
+  private syntaxError(index: number, message: string): AgentFileParseError {
+    return new AgentFileParseError(
+      `Invalid JSON format: ${message} at offset ${this.offset + index}`
+    );
+  }
+}
+
+/**
+ * Read a source as a sequence of decoded text chunks
+ */
+async function* readTextChunks(
+  source: AgentFileStreamSource,
+  maxSize: number
+): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  let byteSize = 0;
+
+  const decode = (chunk: Uint8Array | string): string => {
+    byteSize += typeof chunk === 'string' ? new TextEncoder().encode(chunk).length : chunk.length;
+    if (byteSize > maxSize) {
+      throw new AgentFileParseError(
+        `Agent file too large: exceeds ${maxSize} bytes`
+      );
+    }
+    return typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+  };
+
+  if ('getReader' in source) {
+    const reader = source.getReader();
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        if (value !== undefined) yield decode(value);
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  } else {
+    for await (const chunk of source) {
+      yield decode(chunk);
+    }
+  }
+
+  const tail = decoder.decode();
+  if (tail) yield tail;
+}
+
+/**
+ * Turn a source into a flat sequence of scanner events
+ */
+async function* scanAgentFile(
+  source: AgentFileStreamSource,
+  maxSize: number,
+  maxValueLength: number
+): AsyncGenerator<ScanEvent> {
+  const scanner = new AgentFileScanner(maxValueLength);
+  for await (const chunk of readTextChunks(source, maxSize)) {
+    yield* scanner.push(chunk);
+  }
+  scanner.finish();
+}
+
+/**
+ * Validate data and convert Zod issues into an AgentFileParseError
+ */
+function validate<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, data: unknown, pathPrefix = ''): T {
+  const result = schema.safeParse(data);
+  if (result.success) {
+    return result.data;
+  }
+  throw new AgentFileParseError('Schema validation failed', {
+    validationErrors: result.error.errors.map((err) => ({
+      path: pathPrefix + err.path.join('.'),
+      message: err.message,
+      code: err.code,
+    })),
+    cause: result.error,
+  });
+}
+
+/**
+ * Record unknown fields, failing immediately in strict mode
+ */
+function checkUnknownFields(
+  found: UnknownField[],
+  unknownFields: UnknownField[],
+  strict: boolean
+): void {
+  if (found.length === 0) {
+    return;
+  }
+  if (strict) {
+    throw new AgentFileParseError('Agent file contains unknown fields', {
+      validationErrors: unknownFieldErrors(found),
+    });
+  }
+  unknownFields.push(...found);
+}
+
+/**
+ * Normalize a header field as it is read
+ */
+function readHeaderField(key: string, value: unknown): unknown {
+  // Honor Letta's `limit` as an alias of `character_limit`
+  return key === 'core_memory'
+    ? resolveMemoryLimitAliases({ core_memory: value }).core_memory
+    : value;
+}
+
+/**
+ * Validate collected header fields, applying the allowed auto-fixes
+ */
+function validateHeader(
+  fields: Record<string, unknown>,
+  categories: readonly AutoFixCategory[],
+  memoryLimitPolicy: MemoryLimitPolicy
+): { header: AfAgentHeader; fixes: AppliedFix[]; memoryLimitViolations: MemoryLimitViolation[] } {
+  // Messages are validated separately, so give auto-fix an empty placeholder
+  const fixed = applyAutoFixes({ ...fields, messages: [] }, categories);
+  const { messages: _messages, ...data } = fixed.data as Record<string, unknown>;
+  const limited = enforceMemoryLimits(validate(afAgentHeaderSchema, data), memoryLimitPolicy);
+  return {
+    header: limited.data,
+    fixes: fixed.fixes,
+    memoryLimitViolations: limited.violations,
+  };
+}
+
+/**
+ * Check in_context_message_indices against the final message count
+ */
+function checkMessageIndices(header: AfAgentHeader, count: number): void {
+  const indices = header.in_context_message_indices;
+  if (indices && indices.some((idx) => idx > count - 1)) {
+    throw new AgentFileParseError('Schema validation failed', {
+      validationErrors: [
+        {
+          path: 'in_context_message_indices',
+          message: 'in_context_message_indices contains out-of-range message references',
+          code: 'custom',
+        },
+      ],
+    });
+  }
+}
+
+/**
+ * Parse an agent file from a stream
+ *
+ * Resolves once the header has been read and validated. Messages are then
+ * validated and yielded one at a time by `messages`. For bounded memory,
+ * `messages` should be the last required key in the document; if required
+ * header fields follow it, messages are buffered until the header is
+ * complete, up to `maxValueLength` characters in total.
+ *
+ * Auto-fixes apply to the header only; each message must be valid as-is.
+ *
+ * @param source - Node `Readable`, Web `ReadableStream` or async iterable of chunks
+ * @param options - Streaming options
+ * @returns Validated header and a message iterator
+ * @throws {AgentFileParseError} If the header is malformed or invalid
+ *
+ * @example
+ * ```typescript
+ * const { header, messages } = await parseAgentFileStream(
+ *   fs.createReadStream('./agent.af')
+ * );
+ * console.log(`Loading agent: ${header.name}`);
+ * for await (const message of messages) {
+ *   await store.append(message);
+ * }
+ * ```
+ */
+export async function parseAgentFileStream(
+  source: AgentFileStreamSource,
+  options: StreamParseOptions = {}
+): Promise<AgentFileStream> {
+  const {
+    maxSize = 52428800,
+    maxValueLength = 52428800,
+    autoFix = true,
+    strict = false,
+    versionPolicy = 'warn',
+    migrate = true,
+    migrations,
+    memoryLimitPolicy = 'warn',
+    secretPolicy,
+  } = options;
+
+  if (options.requireSignature || options.trustedKeys) {
+    throw new AgentFileParseError(
+      'Signatures cannot be verified while streaming; use parseAgentFile instead'
+    );
+  }
+  if (options.keyResolver) {
+    throw new AgentFileParseError(
+      'Encrypted sections cannot be decrypted while streaming; use parseAgentFile instead'
+    );
+  }
+  if (options.checkIntegrity) {
+    throw new AgentFileParseError(
+      'Message integrity cannot be checked while streaming; use parseAgentFile instead'
+    );
+  }
+
+  const categories = resolveAutoFixCategories(autoFix);
+  const events = scanAgentFile(source, maxSize, maxValueLength);
+  const fields: Record<string, unknown> = {};
+  const buffered: Array<{ index: number; value: unknown }> = [];
+  let bufferedLength = 0;
+  let sawMessages = false;
+  let messageCount: number | undefined;
+  let streaming = false;
+
+  const isHeaderComplete = () =>
+    AF_HEADER_REQUIRED_KEYS.every((key) => key in fields);
+
+  // Read until the header is complete or the document ends
+  while (true) {
+    const next = await events.next();
+    if (next.done) break;
+    const event = next.value;
+
+    if (event.type === 'field') {
+      fields[event.key] = readHeaderField(event.key, event.value);
+    } else if (event.type === 'messages-start') {
+      sawMessages = true;
+      if (isHeaderComplete()) {
+        streaming = true;
+        break;
+      }
+    } else if (event.type === 'message') {
+      bufferedLength += event.length;
+      if (bufferedLength > maxValueLength) {
+        const missing = AF_HEADER_REQUIRED_KEYS.filter((key) => !(key in fields));
+        throw new AgentFileParseError(
+          `Messages before the required header fields exceed ${maxValueLength} characters; ` +
+            `move ${missing.join(', ')} before "messages" or use parseAgentFile instead`
+        );
+      }
+      buffered.push(event);
+    } else {
+      messageCount = event.count;
+    }
+  }
+
+  if (!sawMessages && !categories.includes('collections')) {
+    throw new AgentFileParseError('Schema validation failed', {
+      validationErrors: [{ path: 'messages', message: 'Required', code: 'invalid_type' }],
+    });
+  }
+
+  const versionCompatibility = enforceVersionCompatibility(fields.version, versionPolicy);
+  if (migrate && needsMigration(fields.version, migrations)) {
+    throw new AgentFileParseError(
+      `Agent file version ${fields.version} must be migrated to ${SUPPORTED_AF_VERSION}, ` +
+        'which is not supported while streaming; use parseAgentFile instead'
+    );
+  }
+
+  const unknownFields: UnknownField[] = [];
+  checkUnknownFields(findUnknownFields(fields), unknownFields, strict);
+
+  const secrets: SecretFinding[] = [];
+  const checkSecrets = <T>(value: T, path?: string): T => {
+    if (!secretPolicy) {
+      return value;
+    }
+    const scanned = applySecretPolicy(value, secretPolicy, { path });
+    secrets.push(...scanned.findings);
+    return scanned.data;
+  };
+
+  const validated = validateHeader(fields, categories, memoryLimitPolicy);
+  const { fixes, memoryLimitViolations } = validated;
+  const header = checkSecrets(validated.header);
+  if (!sawMessages) {
+    fixes.push({
+      path: '/messages',
+      category: 'collections',
+      reason: 'missing_messages',
+      originalValue: undefined,
+      newValue: [],
+    });
+  }
+  if (!streaming) {
+    checkMessageIndices(header, messageCount ?? 0);
+  }
+
+  const readMessage = (index: number, value: unknown): AfMessage => {
+    checkUnknownFields(
+      findUnknownMessageFields(value, `messages.${index}`),
+      unknownFields,
+      strict
+    );
+    return checkSecrets(validate(messageSchema, value, `messages.${index}.`), `messages.${index}`);
+  };
+
+  async function* iterateMessages(): AsyncGenerator<AfMessage, void, undefined> {
+    try {
+      for (const { index, value } of buffered.splice(0)) {
+        yield readMessage(index, value);
+      }
+      if (!streaming) return;
+
+      const trailing: Record<string, unknown> = {};
+      let count = 0;
+      while (true) {
+        const next = await events.next();
+        if (next.done) break;
+        const event = next.value;
+
+        if (event.type === 'message') {
+          yield readMessage(event.index, event.value);
+        } else if (event.type === 'messages-end') {
+          count = event.count;
+        } else if (event.type === 'field') {
+          trailing[event.key] = readHeaderField(event.key, event.value);
+        }
+      }
+
+      // Fields after the message array are validated with the full header
+      if (Object.keys(trailing).length > 0) {
+        checkUnknownFields(findUnknownFields(trailing), unknownFields, strict);
+        const merged = validateHeader({ ...fields, ...trailing }, categories, memoryLimitPolicy);
+        // Rescan the whole header, replacing the findings from its first part
+        const messageSecrets = secrets.filter((finding) => finding.path.startsWith('messages.'));
+        secrets.splice(0, secrets.length, ...messageSecrets);
+        Object.assign(header, checkSecrets(merged.header));
+        fixes.splice(0, fixes.length, ...merged.fixes);
+        memoryLimitViolations.splice(
+          0,
+          memoryLimitViolations.length,
+          ...merged.memoryLimitViolations
+        );
+      }
+      checkMessageIndices(header, count);
+    } finally {
+      await events.return(undefined);
+    }
+  }
+
+  return {
+    header,
+    messages: iterateMessages(),
+    unknownFields,
+    fixes,
+    versionCompatibility,
+    memoryLimitViolations,
+    secrets,
+  };
+}
@@ -0,0 +1,187 @@
+/**
+ * @fileoverview Unknown field detection for Letta .af (Agent File) documents
+ *
+ * The Zod schemas silently strip keys they do not know about. These helpers
+ * walk the raw document and report every unrecognized key with its path so
+ * strict parsing can reject spec drift and lenient parsing can report it.
+ *
+ * @module @mastra/portability-af-letta
+ */
+
+import { z } from 'zod';
+import {
+  afAgentSchema,
+  llmConfigSchema,
+  embeddingConfigSchema,
+  coreMemoryBlockSchema,
+  messageSchema,
+  toolCallSchema,
+  toolResultSchema,
+  toolSchema,
+  toolRuleSchema,
+} from './schema';
+
+/**
+ * An unrecognized key found in an agent file
+ */
+export interface UnknownField {
+  /**
+   * Dotted path to the key, e.g. "messages.3.sender"
+   */
+  path: string;
+
+  /**
+   * The unrecognized key itself
+   */
+  key: string;
+}
+
+/**
+ * Collect the known keys of an object schema, unwrapping refinements
+ */
+function knownKeys(schema: z.ZodTypeAny): ReadonlySet<string> {
+  let current = schema;
+  while (current instanceof z.ZodEffects) {
+    current = current.innerType();
+  }
+  if (!(current instanceof z.ZodObject)) {
+    throw new Error('Expected an object schema');
+  }
+  return new Set(Object.keys(current.shape));
+}
+
+const AGENT_KEYS = knownKeys(afAgentSchema);
+const LLM_CONFIG_KEYS = knownKeys(llmConfigSchema);
+const EMBEDDING_CONFIG_KEYS = knownKeys(embeddingConfigSchema);
+// `limit` is the legacy Letta alias of `character_limit`
+const CORE_MEMORY_BLOCK_KEYS = new Set([...knownKeys(coreMemoryBlockSchema), 'limit']);
+const MESSAGE_KEYS = knownKeys(messageSchema);
+const TOOL_CALL_KEYS = knownKeys(toolCallSchema);
+const TOOL_RESULT_KEYS = knownKeys(toolResultSchema);
+const TOOL_KEYS = knownKeys(toolSchema);
+const TOOL_RULE_KEYS = knownKeys(toolRuleSchema);
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function joinPath(prefix: string, key: string | number): string {
+  return prefix ? `${prefix}.${key}` : String(key);
+}
+
+/**
+ * Report keys of an object that are not in the known set
+ */
+function collect(
+  value: unknown,
+  known: ReadonlySet<string>,
+  path: string,
+  found: UnknownField[]
+): void {
+  if (!isPlainObject(value)) {
+    return;
+  }
+  for (const key of Object.keys(value)) {
+    if (!known.has(key)) {
+      found.push({ path: joinPath(path, key), key });
+    }
+  }
+}
+
+/**
+ * Report keys of each object in an array that are not in the known set
+ */
+function collectEach(
+  value: unknown,
+  known: ReadonlySet<string>,
+  path: string,
+  found: UnknownField[],
+  visit?: (item: unknown, itemPath: string) => void
+): void {
+  if (!Array.isArray(value)) {
+    return;
+  }
+  value.forEach((item, index) => {
+    const itemPath = joinPath(path, index);
+    collect(item, known, itemPath, found);
+    visit?.(item, itemPath);
+  });
+}
+
+/**
+ * Find unknown fields in a single message
+ *
+ * @param message - Raw message object
+ * @param path - Path of the message within the document
+ * @returns Unknown fields in the message and its tool calls and results
+ */
+export function findUnknownMessageFields(message: unknown, path = ''): UnknownField[] {
+  const found: UnknownField[] = [];
+  collect(message, MESSAGE_KEYS, path, found);
+  if (isPlainObject(message)) {
+    collectEach(message.tool_calls, TOOL_CALL_KEYS, joinPath(path, 'tool_calls'), found);
+    collectEach(message.tool_results, TOOL_RESULT_KEYS, joinPath(path, 'tool_results'), found);
+  }
+  return found;
+}
+
+/**
+ * Find every unknown field in an agent file
+ *
+ * Free-form sections (`metadata`, `metadata_`, tool parameter schemas and
+ * `tool_exec_environment_variables`) are not inspected.
+ *
+ * @param data - Raw agent file data (usually from JSON.parse)
+ * @returns Unknown fields in document order
+ *
+ * @example
+ * ```typescript
+ * const unknown = findUnknownFields(JSON.parse(json));
+ * for (const field of unknown) {
+ *   console.warn(`Unknown field: ${field.path}`);
+ * }
+ * ```
+ */
+export function findUnknownFields(data: unknown): UnknownField[] {
+  const found: UnknownField[] = [];
+  if (!isPlainObject(data)) {
+    return found;
+  }
+
+  collect(data, AGENT_KEYS, '', found);
+  collect(data.llm_config, LLM_CONFIG_KEYS, 'llm_config', found);
+  collect(data.embedding_config, EMBEDDING_CONFIG_KEYS, 'embedding_config', found);
+
+  if (isPlainObject(data.core_memory)) {
+    for (const [label, block] of Object.entries(data.core_memory)) {
+      collect(block, CORE_MEMORY_BLOCK_KEYS, joinPath('core_memory', label), found);
+    }
+  }
+
+  if (Array.isArray(data.messages)) {
+    data.messages.forEach((message, index) => {
+      found.push(...findUnknownMessageFields(message, joinPath('messages', index)));
+    });
+  }
+
+  collectEach(data.tools, TOOL_KEYS, 'tools', found);
+  collectEach(data.tool_rules, TOOL_RULE_KEYS, 'tool_rules', found);
+
+  return found;
+}
+
+/**
+ * Convert unknown fields into validation error entries
+ *
+ * @param fields - Unknown fields to convert
+ * @returns Entries suitable for AgentFileParseError.validationErrors
+ */
+export function unknownFieldErrors(
+  fields: UnknownField[]
+): Array<{ path: string; message: string; code: string }> {
+  return fields.map((field) => ({
+    path: field.path,
+    message: `Unrecognized key "${field.key}"`,
+    code: 'unrecognized_keys',
+  }));
+}
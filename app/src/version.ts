@@ -0,0 +1,243 @@
+/**
+ * @fileoverview .af (Agent File) format versions
+ *
+ * Versions follow semantic versioning (https://semver.org).
+ *
+ * @module @mastra/portability-af-letta
+ */
+
+/**
+ * Version of the .af format this package reads and writes
+ */
+export const SUPPORTED_AF_VERSION = '0.1.0';
+
+/**
+ * A parsed semantic version
+ */
+export interface SemanticVersion {
+  major: number;
+  minor: number;
+  patch: number;
+
+  /**
+   * Pre-release identifiers, e.g. ["beta", "2"] for "1.0.0-beta.2"
+   */
+  prerelease: string[];
+}
+
+const SEMVER_PATTERN =
+  /^v?(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?(?:\+[0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*)?$/;
+
+/**
+ * Parse a semantic version string
+ *
+ * @param version - Version string, e.g. "0.1.0" or "1.0.0-beta.2"
+ * @returns Parsed version, or null if the string is not a valid version
+ */
+export function parseVersion(version: string): SemanticVersion | null {
+  const match = SEMVER_PATTERN.exec(version.trim());
+  if (!match) {
+    return null;
+  }
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4] ? match[4].split('.') : [],
+  };
+}
+
+/**
+ * Compare two pre-release identifiers by semver precedence
+ */
+function compareIdentifiers(a: string, b: string): number {
+  const aNumeric = /^\d+$/.test(a);
+  const bNumeric = /^\d+$/.test(b);
+  if (aNumeric && bNumeric) {
+    return Number(a) - Number(b);
+  }
+  if (aNumeric !== bNumeric) {
+    // Numeric identifiers have lower precedence
+    return aNumeric ? -1 : 1;
+  }
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Compare two versions by semver precedence (build metadata is ignored)
+ *
+ * @param a - First version
+ * @param b - Second version
+ * @returns Negative if a < b, zero if equal, positive if a > b
+ * @throws {Error} If either version is not a valid semantic version
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = parseVersion(a);
+  const right = parseVersion(b);
+  if (!left || !right) {
+    throw new Error(`Invalid semantic version: ${left ? b : a}`);
+  }
+
+  const core =
+    left.major - right.major || left.minor - right.minor || left.patch - right.patch;
+  if (core !== 0) {
+    return Math.sign(core);
+  }
+
+  // A version without pre-release identifiers ranks above one with them
+  if (left.prerelease.length === 0 || right.prerelease.length === 0) {
+    return Math.sign(right.prerelease.length - left.prerelease.length);
+  }
+  const length = Math.max(left.prerelease.length, right.prerelease.length);
+  for (let i = 0; i < length; i++) {
+    if (left.prerelease[i] === undefined) {
+      return -1;
+    }
+    if (right.prerelease[i] === undefined) {
+      return 1;
+    }
+    const order = compareIdentifiers(left.prerelease[i], right.prerelease[i]);
+    if (order !== 0) {
+      return Math.sign(order);
+    }
+  }
+  return 0;
+}
+
+/**
+ * How the parser treats files from newer format versions
+ *
+ * - `reject`: breaking versions and invalid versions fail; newer minor versions warn
+ * - `warn`: everything that would fail is reported as a warning instead (the default)
+ * - `ignore`: versions are not checked
+ */
+export type VersionPolicy = 'reject' | 'warn' | 'ignore';
+
+/**
+ * Relationship of a file's version to the supported version
+ */
+export type VersionStatus =
+  | 'current'
+  | 'older'
+  | 'newer_patch'
+  | 'newer_minor'
+  | 'newer_major'
+  | 'missing'
+  | 'invalid';
+
+/**
+ * Outcome of checking a file's version against the supported version
+ */
+export interface VersionCompatibility {
+  /**
+   * Version declared by the file, if it declared a string
+   */
+  fileVersion?: string;
+
+  /**
+   * Version this package supports
+   */
+  supportedVersion: string;
+
+  status: VersionStatus;
+
+  /**
+   * Policy the check was made under
+   */
+  policy: VersionPolicy;
+
+  /**
+   * Effect under the policy: errors fail the parse, warnings are only reported
+   */
+  severity: 'none' | 'warning' | 'error';
+
+  /**
+   * Explanation for warnings and errors
+   */
+  message?: string;
+}
+
+/**
+ * Check a file's declared version against the supported version
+ *
+ * Older versions are compatible because migrations upgrade them, and newer
+ * patch versions only fix things. A newer minor version may add fields this
+ * package ignores, so it warns. A newer major version, or a version that is
+ * not semver at all, may change meaning and fails under the `reject` policy.
+ * Below 1.0.0 semver allows any release to break, so while the supported
+ * version is 0.x a newer minor version counts as breaking too.
+ *
+ * @param version - The file's `version` field
+ * @param policy - How to treat incompatible versions
+ * @param supportedVersion - Version to compare against
+ * @returns Compatibility report
+ */
+export function checkVersionCompatibility(
+  version: unknown,
+  policy: VersionPolicy = 'warn',
+  supportedVersion: string = SUPPORTED_AF_VERSION
+): VersionCompatibility {
+  const report = (
+    status: VersionStatus,
+    severity: VersionCompatibility['severity'],
+    message?: string
+  ): VersionCompatibility => {
+    if (policy === 'ignore') {
+      severity = 'none';
+    } else if (policy === 'warn' && severity === 'error') {
+      severity = 'warning';
+    }
+    return {
+      fileVersion: typeof version === 'string' ? version : undefined,
+      supportedVersion,
+      status,
+      policy,
+      severity,
+      message: severity === 'none' ? undefined : message,
+    };
+  };
+
+  if (version === undefined || version === null || version === '') {
+    return report('missing', 'none');
+  }
+  const parsed = typeof version === 'string' ? parseVersion(version) : null;
+  const supported = parseVersion(supportedVersion);
+  if (!parsed || !supported) {
+    return report(
+      'invalid',
+      'error',
+      `Version ${JSON.stringify(version)} is not a valid semantic version`
+    );
+  }
+
+  const order = compareVersions(version as string, supportedVersion);
+  if (order === 0) {
+    return report('current', 'none');
+  }
+  if (order < 0) {
+    return report('older', 'none');
+  }
+  if (parsed.major > supported.major) {
+    return report(
+      'newer_major',
+      'error',
+      `Agent file version ${version} has a newer major version than the supported ${supportedVersion}`
+    );
+  }
+  if (parsed.major === 0 && parsed.minor > supported.minor) {
+    return report(
+      'newer_minor',
+      'error',
+      `Agent file version ${version} is newer than the supported ${supportedVersion}; ` +
+        'minor versions before 1.0.0 may be breaking'
+    );
+  }
+  if (parsed.minor > supported.minor) {
+    return report(
+      'newer_minor',
+      'warning',
+      `Agent file version ${version} is newer than the supported ${supportedVersion}; unknown features may be ignored`
+    );
+  }
+  return report('newer_patch', 'none');
+}
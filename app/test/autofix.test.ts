@@ -0,0 +1,99 @@
+/**
+ * @fileoverview Tests for auto-fix auditing and category selection
+ */
+
+import { describe, it, expect } from 'vitest';
+import { applyAutoFixes } from '../src/autofix';
+import { parseAgentFileObject, parseAgentFileObjectWithReport, AgentFileParseError } from '../src/parser';
+
+const validAgent = {
+  agent_type: 'letta',
+  name: 'Audited Agent',
+  system: 'You are a helpful assistant.',
+  llm_config: { provider: 'openai', model: 'gpt-4' },
+  core_memory: {
+    persona: { label: 'persona', value: 'I am helpful.' },
+    human: { label: 'human', value: 'The user is curious.' },
+  },
+  messages: [
+    { id: 'msg_001', role: 'user', text: 'Hi', timestamp: '2024-01-01T00:00:00Z' },
+  ],
+  tools: [],
+  version: '0.1.0',
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+};
+
+describe('applyAutoFixes', () => {
+  it('should report no fixes for a complete agent', () => {
+    expect(applyAutoFixes(validAgent).fixes).toEqual([]);
+  });
+
+  it('should record each fix with a JSON Pointer and values', () => {
+    const { fixes } = applyAutoFixes({
+      ...validAgent,
+      version: undefined,
+      messages: [{ id: 'msg_001', role: 'user', text: 'Hi' }],
+      tools: [{ name: 't', description: 'd', type: 'json_schema', parameters: {} }],
+    });
+
+    expect(fixes.map((fix) => [fix.path, fix.reason])).toEqual([
+      ['/version', 'missing_version'],
+      ['/messages/0/timestamp', 'missing_message_timestamp'],
+      ['/tools/0/parameters/type', 'missing_parameters_type'],
+      ['/tools/0/parameters/properties', 'missing_parameters_properties'],
+    ]);
+    expect(fixes[0]).toMatchObject({
+      category: 'version',
+      originalValue: undefined,
+      newValue: '0.1.0',
+    });
+  });
+
+  it('should record the replaced core memory value', () => {
+    const { fixes } = applyAutoFixes({ ...validAgent, core_memory: [] });
+    expect(fixes).toHaveLength(1);
+    expect(fixes[0]).toMatchObject({
+      path: '/core_memory',
+      category: 'core_memory',
+      reason: 'invalid_core_memory',
+      originalValue: [],
+    });
+  });
+
+  it('should only apply allowed categories', () => {
+    const { data, fixes } = applyAutoFixes(
+      { ...validAgent, version: undefined, core_memory: undefined },
+      ['version']
+    );
+    expect(fixes.map((fix) => fix.category)).toEqual(['version']);
+    expect((data as any).core_memory).toBeUndefined();
+  });
+
+  it('should not mutate the input', () => {
+    const tool = { name: 't', description: 'd', type: 'json_schema', parameters: {} };
+    applyAutoFixes({ ...validAgent, tools: [tool] });
+    expect(tool.parameters).toEqual({});
+  });
+});
+
+describe('auto-fix parse options', () => {
+  it('should expose applied fixes in the parse report', () => {
+    const { report } = parseAgentFileObjectWithReport({ ...validAgent, updated_at: undefined });
+    expect(report.fixes).toHaveLength(1);
+    expect(report.fixes[0].path).toBe('/updated_at');
+  });
+
+  it('should refuse disallowed fix categories', () => {
+    const { core_memory, ...withoutMemory } = validAgent;
+    expect(() =>
+      parseAgentFileObject(withoutMemory, { autoFix: ['timestamps', 'version'] })
+    ).toThrowError(AgentFileParseError);
+  });
+
+  it('should apply no fixes when auto-fix is disabled', () => {
+    expect(() =>
+      parseAgentFileObject({ ...validAgent, version: undefined }, { autoFix: false })
+    ).toThrowError(AgentFileParseError);
+  });
+});
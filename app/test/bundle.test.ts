@@ -0,0 +1,130 @@
+/**
+ * @fileoverview Tests for the agent bundle format
+ */
+
+import { describe, it, expect } from 'vitest';
+import { packAgentBundle, unpackAgentBundle } from '../src/bundle';
+import { AgentFileParseError, parseAgentFileObject } from '../src/parser';
+import type { AfAgentSchema } from '../src/types';
+
+const agent: AfAgentSchema = parseAgentFileObject({
+  agent_type: 'letta',
+  name: 'Bundled Agent',
+  system: 'You are a helpful assistant.',
+  llm_config: { provider: 'openai', model: 'gpt-4', temperature: 0.2 },
+  core_memory: {
+    persona: { label: 'persona', value: 'I am helpful.' },
+    human: { label: 'human', value: 'The user is curious.' },
+  },
+  messages: [
+    { id: 'msg_001', role: 'user', text: 'Line one\nLine two', timestamp: '2024-01-01T00:00:00Z' },
+    {
+      id: 'msg_002',
+      role: 'assistant',
+      text: 'Calculating',
+      timestamp: '2024-01-01T00:00:01Z',
+      tool_calls: [{ id: 'call_1', name: 'calculator', arguments: { expression: '1+1' } }],
+    },
+  ],
+  tools: [
+    {
+      name: 'calculator',
+      description: 'Evaluate math',
+      type: 'python',
+      parameters: { type: 'object', properties: { expression: { type: 'string' } } },
+      source_code: 'def calculator(expression: str) -> float:\n    return eval(expression)',
+    },
+    {
+      name: 'format/date',
+      description: 'Format a date',
+      type: 'javascript',
+      parameters: { type: 'object', properties: {} },
+      source_code: 'export default (d) => new Date(d).toISOString();\n',
+    },
+    {
+      name: 'format:date',
+      description: 'Format a date differently',
+      type: 'javascript',
+      parameters: { type: 'object', properties: {} },
+      source_code: 'export default (d) => String(d);',
+    },
+    {
+      name: 'search',
+      description: 'Search the web',
+      type: 'json_schema',
+      parameters: { type: 'object', properties: {} },
+    },
+  ],
+  version: '0.1.0',
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+});
+
+describe('packAgentBundle', () => {
+  it('should externalize tool sources and messages', () => {
+    const files = packAgentBundle(agent);
+
+    expect(Object.keys(files).sort()).toEqual([
+      'agent.json',
+      'messages.ndjson',
+      'tools/calculator.py',
+      'tools/format_date.js',
+      'tools/format_date_2.js',
+    ]);
+    expect(files['tools/calculator.py']).toBe(agent.tools[0].source_code);
+    expect(files['messages.ndjson'].trim().split('\n')).toHaveLength(2);
+
+    const manifest = JSON.parse(files['agent.json']);
+    expect(manifest.bundle_version).toBe('1.0');
+    expect(manifest.messages_file).toBe('messages.ndjson');
+    expect(manifest.agent.messages).toBeUndefined();
+    expect(manifest.agent.tools[0]).not.toHaveProperty('source_code');
+    expect(manifest.agent.tools[0].source_file).toBe('tools/calculator.py');
+  });
+
+  it('should keep messages inline when requested', () => {
+    const files = packAgentBundle(agent, { externalizeMessages: false });
+    expect(files['messages.ndjson']).toBeUndefined();
+    expect(JSON.parse(files['agent.json']).agent.messages).toHaveLength(2);
+  });
+
+  it('should reject invalid agents', () => {
+    expect(() => packAgentBundle({ ...agent, name: '' })).toThrowError(AgentFileParseError);
+  });
+});
+
+describe('unpackAgentBundle', () => {
+  it('should round-trip losslessly', () => {
+    expect(unpackAgentBundle(packAgentBundle(agent))).toEqual(agent);
+    expect(
+      unpackAgentBundle(packAgentBundle(agent, { externalizeMessages: false }))
+    ).toEqual(agent);
+  });
+
+  it('should pick up edits made to tool source files', () => {
+    const files = packAgentBundle(agent);
+    files['tools/calculator.py'] = 'def calculator(expression):\n    return 0\n';
+
+    const unpacked = unpackAgentBundle(files);
+    expect(unpacked.tools[0].source_code).toBe('def calculator(expression):\n    return 0\n');
+  });
+
+  it('should fail when a referenced file is missing', () => {
+    const { 'tools/calculator.py': _removed, ...files } = packAgentBundle(agent);
+    expect(() => unpackAgentBundle(files)).toThrowError(
+      /Bundle file not found: tools\/calculator.py/
+    );
+  });
+
+  it('should report the line of invalid NDJSON', () => {
+    const files = packAgentBundle(agent);
+    files['messages.ndjson'] += '{not json}\n';
+    expect(() => unpackAgentBundle(files)).toThrowError(/messages.ndjson at line 3/);
+  });
+
+  it('should validate the unpacked agent', () => {
+    const files = packAgentBundle(agent);
+    files['messages.ndjson'] += `${JSON.stringify({ id: 'x', role: 'robot', text: '', timestamp: '2024-01-01T00:00:00Z' })}\n`;
+    expect(() => unpackAgentBundle(files)).toThrowError(AgentFileParseError);
+  });
+});
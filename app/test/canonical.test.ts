@@ -0,0 +1,135 @@
+/**
+ * @fileoverview Tests for canonical serialization
+ */
+
+import { describe, it, expect } from 'vitest';
+import { serializeAgentFile, canonicalizeAgentFile } from '../src/canonical';
+import { exportMastraAgent } from '../src/export';
+import { parseAgentFile } from '../src/parser';
+import type { AfAgentSchema } from '../src/types';
+
+const agent: AfAgentSchema = {
+  agent_type: 'letta',
+  name: 'Canonical Agent',
+  system: 'You are a helpful assistant.',
+  llm_config: { provider: 'openai', model: 'gpt-4' },
+  core_memory: {
+    persona: { label: 'persona', value: 'I am helpful.' },
+    human: { label: 'human', value: 'The user is curious.' },
+  },
+  messages: [
+    {
+      id: 'msg_001',
+      role: 'assistant',
+      text: 'Calculating',
+      timestamp: '2024-01-01T00:00:00Z',
+      tool_calls: [{ id: 'call_1', name: 'calculator', arguments: { b: 2, a: 1 } }],
+    },
+  ],
+  tools: [
+    {
+      name: 'calculator',
+      description: 'Add numbers',
+      type: 'json_schema',
+      parameters: {
+        type: 'object',
+        properties: { b: { type: 'number' }, a: { type: 'number' } },
+      },
+    },
+  ],
+  version: '0.1.0',
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+  metadata_: { zeta: 1, alpha: { y: true, x: false } },
+};
+
+/**
+ * Rebuild an object with its keys in reverse insertion order
+ */
+function reverseKeys<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(reverseKeys) as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value)
+        .reverse()
+        .map(([key, child]) => [key, reverseKeys(child)])
+    ) as T;
+  }
+  return value;
+}
+
+describe('serializeAgentFile', () => {
+  it('should be independent of key insertion order for schema types', () => {
+    const shuffled = reverseKeys(agent);
+    // Parameter order is meaningful and kept as given
+    shuffled.tools[0].parameters.properties = agent.tools[0].parameters.properties;
+
+    expect(serializeAgentFile(shuffled)).toBe(serializeAgentFile(agent));
+  });
+
+  it('should sort core memory blocks by label', () => {
+    const { persona, human } = agent.core_memory;
+    const reordered = { ...agent, core_memory: { human, persona } };
+
+    expect(serializeAgentFile(reordered)).toBe(serializeAgentFile(agent));
+    expect(Object.keys(canonicalizeAgentFile(reordered).core_memory)).toEqual([
+      'human',
+      'persona',
+    ]);
+  });
+
+  it('should order keys by schema with messages last', () => {
+    const keys = Object.keys(canonicalizeAgentFile(agent));
+    expect(keys.slice(0, 4)).toEqual(['agent_type', 'name', 'system', 'llm_config']);
+    expect(keys[keys.length - 1]).toBe('messages');
+  });
+
+  it('should sort free-form keys and keep parameter order', () => {
+    const canonical = canonicalizeAgentFile(agent);
+    expect(Object.keys(canonical.metadata_!)).toEqual(['alpha', 'zeta']);
+    expect(Object.keys(canonical.metadata_!.alpha as object)).toEqual(['x', 'y']);
+    expect(Object.keys(canonical.messages[0].tool_calls![0].arguments)).toEqual(['a', 'b']);
+    expect(Object.keys(canonical.tools[0].parameters.properties)).toEqual(['b', 'a']);
+  });
+
+  it('should drop undefined values and format consistently', () => {
+    const content = serializeAgentFile({ ...agent, description: undefined });
+    expect(JSON.parse(content)).not.toHaveProperty('description');
+    expect(content.endsWith('}\n')).toBe(true);
+    expect(serializeAgentFile(agent, { pretty: false })).not.toContain('\n');
+    expect(parseAgentFile(content)).toEqual(agent);
+  });
+});
+
+describe('exportMastraAgent', () => {
+  it('should produce byte-identical output with an injected clock', () => {
+    const config = { name: 'Exported', instructions: 'Be brief.' } as any;
+    const memory = {
+      messages: [
+        { role: 'user' as const, content: 'Hello' },
+        { role: 'assistant' as const, content: 'Hi' },
+      ],
+    };
+    let ids = 0;
+    const options = {
+      clock: () => new Date('2024-02-03T04:05:06Z'),
+      generateId: (kind: 'message') => `${kind}_${++ids}`,
+    };
+
+    const first = exportMastraAgent(config, memory as any, options);
+    ids = 0;
+    const second = exportMastraAgent(config, memory as any, options);
+
+    expect(second.content).toBe(first.content);
+    expect(first.metadata.exportedAt.toISOString()).toBe('2024-02-03T04:05:06.000Z');
+
+    const exported = JSON.parse(first.content);
+    expect(exported.updated_at).toBe('2024-02-03T04:05:06.000Z');
+    expect(exported.messages.map((m: any) => [m.id, m.timestamp])).toEqual([
+      ['message_1', '2024-02-03T04:05:06.000Z'],
+      ['message_2', '2024-02-03T04:05:06.000Z'],
+    ]);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * @fileoverview Tests for gzip-compressed agent files
+ */
+
+import { describe, it, expect } from 'vitest';
+import { gzipSync, gunzipSync } from 'zlib';
+import { isGzipCompressed, compressAgentFile } from '../src/compression';
+import { parseAgentFile, safeParseAgentFile, AgentFileParseError } from '../src/parser';
+import { exportMastraAgent } from '../src/export';
+
+const validAgent = {
+  agent_type: 'letta',
+  name: 'Compressed Agent',
+  system: 'You are a helpful assistant.',
+  llm_config: { provider: 'openai', model: 'gpt-4' },
+  core_memory: {
+    persona: { label: 'persona', value: 'I am helpful.' },
+    human: { label: 'human', value: 'The user is curious.' },
+  },
+  messages: Array.from({ length: 50 }, (_, i) => ({
+    id: `msg_${i}`,
+    role: 'user',
+    text: 'The same long message repeated many times. '.repeat(20),
+    timestamp: '2024-01-01T00:00:00Z',
+  })),
+  tools: [],
+  version: '0.1.0',
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+};
+
+const json = JSON.stringify(validAgent);
+
+describe('isGzipCompressed', () => {
+  it('should detect the gzip magic bytes', () => {
+    expect(isGzipCompressed(gzipSync(json))).toBe(true);
+    expect(isGzipCompressed(Buffer.from(json))).toBe(false);
+    expect(isGzipCompressed(new Uint8Array([0x1f]))).toBe(false);
+  });
+});
+
+describe('parsing compressed input', () => {
+  it('should parse gzip-compressed bytes', () => {
+    const agent = parseAgentFile(gzipSync(json));
+    expect(agent.name).toBe('Compressed Agent');
+    expect(agent.messages).toHaveLength(50);
+  });
+
+  it('should parse uncompressed bytes as UTF-8', () => {
+    const agent = parseAgentFile(new TextEncoder().encode(json));
+    expect(agent.name).toBe('Compressed Agent');
+  });
+
+  it('should apply maxSize to the decompressed size', () => {
+    const compressed = gzipSync(json);
+    expect(compressed.length).toBeLessThan(json.length / 10);
+
+    expect(() =>
+      parseAgentFile(compressed, { maxSize: json.length - 1 })
+    ).toThrowError(/decompressed size exceeds/);
+    expect(() => parseAgentFile(compressed, { maxSize: json.length })).not.toThrow();
+  });
+
+  it('should reject corrupt gzip data', () => {
+    const corrupt = gzipSync(json).subarray(0, 40);
+    const result = safeParseAgentFile(corrupt);
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toBeInstanceOf(AgentFileParseError);
+      expect(result.error.message).toBe('Invalid gzip data');
+    }
+  });
+});
+
+describe('compressed export', () => {
+  it('should round-trip through compressAgentFile', () => {
+    expect(parseAgentFile(compressAgentFile(json))).toEqual(parseAgentFile(json));
+  });
+
+  it('should produce compressed output on request', () => {
+    const agent = { name: 'Export Test', instructions: 'Test' } as any;
+
+    const plain = exportMastraAgent(agent);
+    expect(plain.compressed).toBeUndefined();
+
+    const result = exportMastraAgent(agent, undefined, { compress: true });
+    expect(isGzipCompressed(result.compressed!)).toBe(true);
+    expect(gunzipSync(result.compressed!).toString('utf-8')).toBe(result.content);
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * @fileoverview Tests for context window token budgeting
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  estimateContextUsage,
+  lookupContextWindow,
+  heuristicTokenizer,
+  MESSAGE_OVERHEAD_TOKENS,
+  type Tokenizer,
+} from '../src/context';
+import type { AfAgentSchema } from '../src/types';
+
+const agent: AfAgentSchema = {
+  agent_type: 'letta',
+  name: 'Budget Agent',
+  system: 'You are helpful.',
+  llm_config: { provider: 'openai', model: 'gpt-4-0613', max_tokens: 1000 },
+  core_memory: {
+    persona: { label: 'persona', value: 'I am helpful.' },
+    human: { label: 'human', value: 'The user is curious.' },
+  },
+  messages: [
+    { id: 'msg_1', role: 'user', text: 'Hello there', timestamp: '2024-01-01T00:00:00Z' },
+    { id: 'msg_2', role: 'assistant', text: 'Hi!', timestamp: '2024-01-01T00:00:01Z' },
+    { id: 'msg_3', role: 'user', text: 'Bye', timestamp: '2024-01-01T00:00:02Z' },
+  ],
+  tools: [
+    {
+      name: 'search',
+      type: 'json_schema',
+      description: 'Search the web',
+      parameters: { type: 'object', properties: { query: { type: 'string' } } },
+    },
+  ],
+  version: '0.1.0',
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+};
+
+/**
+ * Counts whitespace-separated words, so expected totals are easy to read
+ */
+const wordTokenizer: Tokenizer = {
+  name: 'words',
+  count: (text) => text.split(/\s+/).filter(Boolean).length,
+};
+
+describe('heuristicTokenizer', () => {
+  it('should count about four ASCII characters per token', () => {
+    expect(heuristicTokenizer.count('')).toBe(0);
+    expect(heuristicTokenizer.count('abcd')).toBe(1);
+    expect(heuristicTokenizer.count('abcde')).toBe(2);
+  });
+
+  it('should count other scripts per character', () => {
+    expect(heuristicTokenizer.count('你好世界')).toBe(4);
+    expect(heuristicTokenizer.count('hi 😀')).toBe(2);
+  });
+});
+
+describe('lookupContextWindow', () => {
+  it('should match exact IDs and dated snapshots', () => {
+    expect(lookupContextWindow('gpt-4')).toBe(8192);
+    expect(lookupContextWindow('gpt-4o-2024-08-06')).toBe(128000);
+    expect(lookupContextWindow('gpt-4o-mini-2024-07-18')).toBe(128000);
+    expect(lookupContextWindow('openai/GPT-4-Turbo')).toBe(128000);
+    expect(lookupContextWindow('claude-3-5-sonnet-20240620')).toBe(200000);
+  });
+
+  it('should return undefined for unknown models', () => {
+    expect(lookupContextWindow('my-local-model')).toBeUndefined();
+    expect(lookupContextWindow('gpt-4o', { 'other-model': 1 })).toBeUndefined();
+  });
+});
+
+describe('estimateContextUsage', () => {
+  it('should count each section', () => {
+    const usage = estimateContextUsage(agent, wordTokenizer);
+
+    expect(usage.tokenizer).toBe('words');
+    expect(usage.sections).toEqual({
+      system: 3,
+      // "<persona>", "I am helpful.", "</persona>", "<human>", "The user is curious.", "</human>"
+      core_memory: 11,
+      // role + text per message, plus overhead
+      messages: 3 + 2 + 2 + 3 * MESSAGE_OVERHEAD_TOKENS,
+      tools: wordTokenizer.count(
+        JSON.stringify({
+          name: 'search',
+          description: 'Search the web',
+          parameters: agent.tools[0].parameters,
+        })
+      ),
+    });
+    const { system, core_memory, messages, tools } = usage.sections;
+    expect(usage.total).toBe(system + core_memory + messages + tools);
+    expect(usage.messageCount).toBe(3);
+  });
+
+  it('should only count in-context messages', () => {
+    const usage = estimateContextUsage(
+      { ...agent, in_context_message_indices: [2] },
+      wordTokenizer
+    );
+    expect(usage.messageCount).toBe(1);
+    expect(usage.sections.messages).toBe(2 + MESSAGE_OVERHEAD_TOKENS);
+  });
+
+  it('should count tool calls and results', () => {
+    const withTools = estimateContextUsage({
+      ...agent,
+      messages: [
+        {
+          ...agent.messages[0],
+          tool_calls: [{ id: 'call_1', name: 'search', arguments: { query: 'weather' } }],
+        },
+      ],
+    });
+    const without = estimateContextUsage({ ...agent, messages: [agent.messages[0]] });
+    expect(withTools.sections.messages).toBeGreaterThan(without.sections.messages);
+  });
+
+  it('should resolve the context window by precedence', () => {
+    expect(estimateContextUsage(agent)).toMatchObject({
+      contextWindow: 8192,
+      contextWindowSource: 'catalog',
+    });
+    expect(
+      estimateContextUsage({ ...agent, llm_config: { ...agent.llm_config, context_window: 32000 } })
+    ).toMatchObject({ contextWindow: 32000, contextWindowSource: 'llm_config' });
+    expect(estimateContextUsage(agent, heuristicTokenizer, { contextWindow: 500 })).toMatchObject({
+      contextWindow: 500,
+      contextWindowSource: 'option',
+    });
+  });
+
+  it('should flag overflows including the reserved output', () => {
+    const usage = estimateContextUsage(agent, wordTokenizer, { contextWindow: 1000 });
+
+    expect(usage.reservedOutputTokens).toBe(1000);
+    expect(usage.remaining).toBe(-usage.total);
+    expect(usage.overflow).toBe(true);
+
+    const roomy = estimateContextUsage(agent, wordTokenizer, {
+      contextWindow: 1000,
+      reserveOutputTokens: 0,
+    });
+    expect(roomy.remaining).toBe(1000 - roomy.total);
+    expect(roomy.overflow).toBe(false);
+  });
+
+  it('should not flag overflow when the window is unknown', () => {
+    const usage = estimateContextUsage({
+      ...agent,
+      llm_config: { provider: 'local', model: 'my-local-model' },
+    });
+    expect(usage).toMatchObject({ contextWindowSource: 'unknown', overflow: false });
+    expect(usage.contextWindow).toBeUndefined();
+    expect(usage.remaining).toBeUndefined();
+  });
+});
@@ -0,0 +1,233 @@
+/**
+ * @fileoverview Tests for semantic agent diffs
+ */
+
+import { describe, it, expect } from 'vitest';
+import { diffAgentFiles, formatAgentDiff } from '../src/diff';
+import type { AfAgentSchema } from '../src/types';
+
+const agent: AfAgentSchema = {
+  agent_type: 'letta',
+  name: 'Review Agent',
+  system: 'You are helpful.\nAnswer briefly.\nCite sources.',
+  llm_config: { provider: 'openai', model: 'gpt-4', temperature: 0.2 },
+  core_memory: {
+    persona: { label: 'persona', value: 'I am helpful.' },
+    human: { label: 'human', value: 'Name: Jane\nRole: engineer' },
+  },
+  messages: [
+    { id: 'msg_1', role: 'user', text: 'Hello', timestamp: '2024-01-01T00:00:00Z' },
+    { id: 'msg_2', role: 'assistant', text: 'Hi!', timestamp: '2024-01-01T00:00:01Z' },
+  ],
+  tools: [
+    {
+      name: 'search',
+      type: 'json_schema',
+      description: 'Search the web',
+      parameters: {
+        type: 'object',
+        properties: { query: { type: 'string' }, limit: { type: 'number' } },
+        required: ['query'],
+      },
+    },
+    {
+      name: 'calculator',
+      type: 'json_schema',
+      description: 'Do math',
+      parameters: { type: 'object', properties: {} },
+    },
+  ],
+  tool_rules: [{ tool_name: 'search', rule_type: 'max_calls', rule_content: '5' }],
+  version: '0.1.0',
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+};
+
+const changed: AfAgentSchema = {
+  ...agent,
+  name: 'Review Agent v2',
+  system: 'You are helpful.\nAnswer in detail.\nCite sources.',
+  llm_config: { ...agent.llm_config, temperature: 0.7, max_tokens: 500 },
+  core_memory: {
+    human: { label: 'human', value: 'Name: Jane\nRole: manager' },
+    notes: { label: 'notes', value: 'Prefers tables' },
+  },
+  messages: [
+    { id: 'msg_0', role: 'system', text: 'Session started', timestamp: '2024-01-01T00:00:00Z' },
+    { id: 'msg_1', role: 'user', text: 'Hello there', timestamp: '2024-01-01T00:00:00Z' },
+    { id: 'msg_3', role: 'user', text: 'Thanks', timestamp: '2024-01-01T00:00:02Z' },
+  ],
+  tools: [
+    {
+      ...agent.tools[0],
+      parameters: {
+        type: 'object',
+        properties: { limit: { type: 'integer' }, query: { type: 'string' } },
+        required: ['query'],
+      },
+    },
+    {
+      name: 'weather',
+      type: 'json_schema',
+      description: 'Get the weather',
+      parameters: { type: 'object', properties: {} },
+    },
+  ],
+  tool_rules: [
+    { tool_name: 'search', rule_type: 'max_calls', rule_content: '10' },
+    { tool_name: 'weather', rule_type: 'require_approval', rule_content: 'true' },
+  ],
+};
+
+describe('diffAgentFiles', () => {
+  const diff = diffAgentFiles(agent, changed);
+
+  it('should report identical agents regardless of key order', () => {
+    const { tools, ...rest } = agent;
+    const reordered = {
+      tools: tools.map((tool) => ({ parameters: tool.parameters, ...tool })),
+      ...rest,
+    } as AfAgentSchema;
+    expect(diffAgentFiles(agent, reordered)).toMatchObject({ identical: true, fields: [] });
+    expect(diff.identical).toBe(false);
+  });
+
+  it('should diff the system prompt by line', () => {
+    expect(diff.system).toEqual([
+      {
+        oldStart: 1,
+        oldLines: 3,
+        newStart: 1,
+        newLines: 3,
+        lines: [
+          { kind: 'context', text: 'You are helpful.' },
+          { kind: 'removed', text: 'Answer briefly.' },
+          { kind: 'added', text: 'Answer in detail.' },
+          { kind: 'context', text: 'Cite sources.' },
+        ],
+      },
+    ]);
+  });
+
+  it('should list llm_config parameter changes', () => {
+    expect(diff.llm_config).toEqual([
+      { path: 'temperature', kind: 'changed', before: 0.2, after: 0.7 },
+      { path: 'max_tokens', kind: 'added', after: 500 },
+    ]);
+  });
+
+  it('should match memory blocks by label', () => {
+    expect(diff.core_memory.map((change) => [change.label, change.kind])).toEqual([
+      ['persona', 'removed'],
+      ['human', 'edited'],
+      ['notes', 'added'],
+    ]);
+    const human = diff.core_memory[1];
+    expect(human.hunks[0].lines.filter((line) => line.kind !== 'context')).toEqual([
+      { kind: 'removed', text: 'Role: engineer' },
+      { kind: 'added', text: 'Role: manager' },
+    ]);
+    expect(diff.core_memory[2].hunks[0]).toMatchObject({ oldStart: 0, oldLines: 0, newLines: 1 });
+  });
+
+  it('should ignore reordered tool parameters and report schema changes', () => {
+    expect(diff.tools).toEqual([
+      {
+        name: 'search',
+        kind: 'changed',
+        changes: [
+          {
+            path: 'parameters.properties.limit.type',
+            kind: 'changed',
+            before: 'number',
+            after: 'integer',
+          },
+        ],
+      },
+      { name: 'calculator', kind: 'removed', changes: [] },
+      { name: 'weather', kind: 'added', changes: [] },
+    ]);
+  });
+
+  it('should match tool rules by tool and type', () => {
+    expect(diff.tool_rules).toEqual([
+      { tool_name: 'search', rule_type: 'max_calls', kind: 'changed', before: '5', after: '10' },
+      { tool_name: 'weather', rule_type: 'require_approval', kind: 'added', after: 'true' },
+    ]);
+  });
+
+  it('should match messages by id', () => {
+    expect(diff.messages.map(({ id, kind, index }) => [id, kind, index])).toEqual([
+      ['msg_0', 'inserted', 0],
+      ['msg_1', 'rewritten', 1],
+      ['msg_3', 'appended', 2],
+      ['msg_2', 'removed', 1],
+    ]);
+    expect(diff.messages[1].changes).toEqual([]);
+  });
+
+  it('should replace the changed lines as a whole when they are too many to align', () => {
+    const lines = (prefix: string) =>
+      Array.from({ length: 2500 }, (_, i) => `${prefix} ${i % 7}`).join('\n');
+    const before = { ...agent, system: `Intro\n${lines('old')}\nOutro` };
+    const after = { ...agent, system: `Intro\n${lines('new')}\nOutro` };
+
+    const [hunk] = diffAgentFiles(before, after, { contextLines: 1 }).system;
+    expect(hunk).toMatchObject({ oldStart: 1, oldLines: 2502, newStart: 1, newLines: 2502 });
+    expect(hunk.lines.slice(0, 3).map((line) => line.kind)).toEqual([
+      'context',
+      'removed',
+      'removed',
+    ]);
+    expect(hunk.lines[2501]).toEqual({ kind: 'added', text: 'new 0' });
+  });
+
+  it('should report other top-level fields', () => {
+    expect(diff.fields).toEqual([
+      { path: 'name', kind: 'changed', before: 'Review Agent', after: 'Review Agent v2' },
+    ]);
+  });
+});
+
+describe('formatAgentDiff', () => {
+  it('should render a Markdown summary', () => {
+    const markdown = formatAgentDiff(diffAgentFiles(agent, changed));
+
+    expect(markdown).toContain('### System prompt\n\n```diff\n@@ -1,3 +1,3 @@\n');
+    expect(markdown).toContain('-Answer briefly.\n+Answer in detail.');
+    expect(markdown).toContain('- `temperature`: `0.2` → `0.7`');
+    expect(markdown).toContain('- `max_tokens` added: `500`');
+    expect(markdown).toContain('- **notes** added');
+    expect(markdown).toContain(
+      '- `search` changed\n  - `parameters.properties.limit.type`: `"number"` → `"integer"`'
+    );
+    expect(markdown).toContain('- `search` max_calls: `"5"` → `"10"`');
+    expect(markdown).toContain('- `msg_3` (user) appended');
+    expect(markdown).toContain('### Other fields\n\n- `name`: ');
+  });
+
+  it('should say when nothing changed', () => {
+    expect(formatAgentDiff(diffAgentFiles(agent, agent))).toBe('No changes.');
+  });
+
+  it('should escape backticks in code spans and blocks', () => {
+    const fenced = {
+      ...agent,
+      system: 'You are helpful.\n```\nAnswer briefly.\nCite sources.',
+      tools: [{ ...agent.tools[0], name: 'run`cmd`' }, agent.tools[1]],
+      description: '`quoted`',
+    };
+    const markdown = formatAgentDiff(diffAgentFiles(agent, fenced));
+
+    expect(markdown).toContain('### System prompt\n\n````diff\n');
+    expect(markdown).toContain('\n+```\n Answer briefly.\n Cite sources.\n````');
+    expect(markdown).toContain('- `` run`cmd` `` added');
+    expect(markdown).toContain('- `description` added: ``"`quoted`"``');
+  });
+
+  it('should shorten long values', () => {
+    const long = { ...agent, description: 'x'.repeat(200) };
+    const markdown = formatAgentDiff(diffAgentFiles(agent, long), { maxValueLength: 20 });
+    expect(markdown).toContain('- `description` added: `"xxxxxxxxxxxxxxxxxx…`');
+  });
+});
@@ -0,0 +1,299 @@
+/**
+ * @fileoverview Tests for section encryption
+ */
+
+import { describe, it, expect } from 'vitest';
+import { randomBytes } from 'crypto';
+import {
+  encryptAgentFile,
+  decryptAgentFile,
+  getEncryptedSections,
+  getEncryptedPlaceholder,
+  ENCRYPTION_METADATA_KEY,
+  ENCRYPTED_PLACEHOLDER,
+  type AfEncryptionEnvelope,
+} from '../src/encryption';
+import { AgentFileParseError, parseAgentFileWithReport } from '../src/parser';
+import { serializeAgentFile } from '../src/canonical';
+import { exportMastraAgent } from '../src/export';
+import type { AfAgentSchema, AuthReference } from '../src/types';
+
+const agent: AfAgentSchema = {
+  agent_type: 'letta',
+  name: 'Confidential Agent',
+  system: 'You are helpful.',
+  llm_config: { provider: 'openai', model: 'gpt-4' },
+  core_memory: {
+    persona: { label: 'persona', value: 'I am helpful.' },
+    human: { label: 'human', value: 'The user is planning an acquisition.' },
+  },
+  messages: [
+    { id: 'msg_1', role: 'user', text: 'Keep this quiet', timestamp: '2024-01-01T00:00:00Z' },
+    { id: 'msg_2', role: 'assistant', text: 'Understood.', timestamp: '2024-01-01T00:00:01Z' },
+  ],
+  in_context_message_indices: [0, 1],
+  tools: [],
+  tool_exec_environment_variables: { DB_HOST: 'db.internal' },
+  version: '0.1.0',
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+};
+
+const keyRef: AuthReference = { provider: 'env', config_id: 'AGENT_FILE_KEY' };
+const key = randomBytes(32);
+const resolveKey = (ref: AuthReference) =>
+  ref.config_id === 'AGENT_FILE_KEY' ? key : undefined;
+
+const encrypted = encryptAgentFile(agent, {
+  keyRef,
+  key,
+  sections: ['messages', 'core_memory.human', 'tool_exec_environment_variables'],
+});
+
+describe('encryptAgentFile', () => {
+  it('should replace the encrypted fields with placeholders and keep the rest readable', () => {
+    expect(encrypted.messages).toEqual([
+      {
+        id: 'af_encrypted_messages',
+        role: 'system',
+        text: ENCRYPTED_PLACEHOLDER,
+        timestamp: '1970-01-01T00:00:00.000Z',
+        metadata: { [ENCRYPTION_METADATA_KEY]: 'messages' },
+      },
+    ]);
+    expect(encrypted.in_context_message_indices).toBeUndefined();
+    expect(encrypted.core_memory.human.value).toBe(ENCRYPTED_PLACEHOLDER);
+    expect(encrypted.core_memory.persona.value).toBe('I am helpful.');
+    expect(encrypted.tool_exec_environment_variables).toEqual({ AF_ENCRYPTED: '[encrypted]' });
+    expect(encrypted.system).toBe(agent.system);
+
+    const content = serializeAgentFile(encrypted);
+    expect(content).not.toContain('acquisition');
+    expect(content).not.toContain('Keep this quiet');
+    expect(content).not.toContain(key.toString('base64'));
+  });
+
+  it('should describe each section with a typed placeholder', () => {
+    const sections = getEncryptedSections(encrypted);
+    expect(sections.map((section) => section.path)).toEqual([
+      'messages',
+      'core_memory.human',
+      'tool_exec_environment_variables',
+    ]);
+    expect(sections[0]).toEqual({
+      path: 'messages',
+      key_ref: keyRef,
+      iv: expect.any(String),
+      tag: expect.any(String),
+      ciphertext: expect.any(String),
+    });
+    expect(getEncryptedSections(agent)).toEqual([]);
+  });
+
+  it('should encrypt messages and environment variables by default', () => {
+    const sections = getEncryptedSections(encryptAgentFile(agent, { keyRef, key }));
+    expect(sections.map((section) => section.path)).toEqual([
+      'messages',
+      'tool_exec_environment_variables',
+    ]);
+  });
+
+  it('should reject bad keys, unknown blocks and double encryption', () => {
+    expect(() => encryptAgentFile(agent, { keyRef, key: randomBytes(16) })).toThrow(
+      'AES-256-GCM keys must be 32 bytes, got 16'
+    );
+    expect(() =>
+      encryptAgentFile(agent, { keyRef, key, sections: ['core_memory.other'] })
+    ).toThrow('No core memory block to encrypt at core_memory.other');
+    expect(() => encryptAgentFile(encrypted, { keyRef, key, sections: ['messages'] })).toThrow(
+      'Section messages is already encrypted'
+    );
+  });
+});
+
+describe('decryptAgentFile', () => {
+  it('should restore the original agent', () => {
+    expect(decryptAgentFile(encrypted, resolveKey)).toEqual(agent);
+    expect(decryptAgentFile(agent, resolveKey)).toBe(agent);
+  });
+
+  it('should fail on unknown and wrong keys', () => {
+    const failure = (resolver: (ref: AuthReference) => Uint8Array | undefined) => {
+      try {
+        decryptAgentFile(encrypted, resolver);
+      } catch (error) {
+        expect(error).toBeInstanceOf(AgentFileParseError);
+        return (error as AgentFileParseError).validationErrors!;
+      }
+      expect.fail('should have thrown');
+    };
+
+    expect(failure(() => undefined)[0]).toMatchObject({
+      path: `metadata_.${ENCRYPTION_METADATA_KEY}.sections.0`,
+      code: 'missing_key',
+      message: 'No key for env:AGENT_FILE_KEY',
+    });
+    expect(failure(() => randomBytes(32)).map((e) => e.code)).toEqual([
+      'decryption_failed',
+      'decryption_failed',
+      'decryption_failed',
+    ]);
+  });
+
+  it('should detect ciphertexts moved between sections', () => {
+    const envelope = encrypted.metadata_![ENCRYPTION_METADATA_KEY] as AfEncryptionEnvelope;
+    const [messages, human] = envelope.sections;
+    const swapped = {
+      ...encrypted,
+      metadata_: {
+        [ENCRYPTION_METADATA_KEY]: {
+          ...envelope,
+          sections: [{ ...human, path: 'messages' }, { ...messages, path: 'core_memory.human' }],
+        },
+      },
+    };
+    expect(() => decryptAgentFile(swapped, resolveKey)).toThrow('Failed to decrypt agent file');
+  });
+
+  it('should refuse to overwrite edited placeholders', () => {
+    const edits: Array<[Partial<AfAgentSchema>, string]> = [
+      [{ messages: [...encrypted.messages, agent.messages[0]] }, 'messages'],
+      [{ in_context_message_indices: [0] }, 'in_context_message_indices'],
+      [
+        { core_memory: { ...encrypted.core_memory, human: { label: 'human', value: 'Edited' } } },
+        'core_memory.human.value',
+      ],
+      [
+        { tool_exec_environment_variables: { DB_HOST: 'db.edited' } },
+        'tool_exec_environment_variables',
+      ],
+    ];
+    for (const [edit, path] of edits) {
+      try {
+        decryptAgentFile({ ...encrypted, ...edit }, resolveKey);
+        expect.fail('should have thrown');
+      } catch (error) {
+        expect((error as AgentFileParseError).validationErrors).toEqual([
+          {
+            path,
+            message: `${path} was changed after encryption; decrypting would overwrite it`,
+            code: 'placeholder_modified',
+          },
+        ]);
+      }
+    }
+
+    // Placeholders survive canonical serialization, which reorders their keys
+    const reparsed = JSON.parse(serializeAgentFile(encrypted));
+    expect(decryptAgentFile(reparsed, resolveKey)).toEqual(agent);
+    expect(getEncryptedPlaceholder('core_memory.notes')).toBe(ENCRYPTED_PLACEHOLDER);
+  });
+
+  it('should reject truncated authentication tags', () => {
+    const envelope = encrypted.metadata_![ENCRYPTION_METADATA_KEY] as AfEncryptionEnvelope;
+    const truncated = {
+      ...encrypted,
+      metadata_: {
+        [ENCRYPTION_METADATA_KEY]: {
+          ...envelope,
+          sections: envelope.sections.map((section) => ({
+            ...section,
+            tag: Buffer.from(section.tag, 'base64').subarray(0, 4).toString('base64'),
+          })),
+        },
+      },
+    };
+    try {
+      decryptAgentFile(truncated, resolveKey);
+      expect.fail('should have thrown');
+    } catch (error) {
+      expect((error as AgentFileParseError).validationErrors?.map((e) => e.code)).toEqual([
+        'decryption_failed',
+        'decryption_failed',
+        'decryption_failed',
+      ]);
+    }
+  });
+
+  it('should reject malformed encryption metadata with the field path', () => {
+    const envelope = encrypted.metadata_![ENCRYPTION_METADATA_KEY] as AfEncryptionEnvelope;
+    const [messages, human] = envelope.sections;
+    const errors = (value: unknown) => {
+      const tampered = { ...encrypted, metadata_: { [ENCRYPTION_METADATA_KEY]: value } };
+      try {
+        decryptAgentFile(tampered, resolveKey);
+      } catch (error) {
+        expect(error).toBeInstanceOf(AgentFileParseError);
+        return (error as AgentFileParseError).validationErrors!.map(({ path, code }) => ({
+          path,
+          code,
+        }));
+      }
+      expect.fail('should have thrown');
+    };
+    const { iv: _iv, ...withoutIv } = messages;
+    const sectionPath = `metadata_.${ENCRYPTION_METADATA_KEY}.sections`;
+
+    expect(
+      errors({
+        ...envelope,
+        sections: [withoutIv, { ...human, ciphertext: 42 }, { ...human, path: 'system' }, null],
+      })
+    ).toEqual([
+      { path: `${sectionPath}.0.iv`, code: 'invalid_type' },
+      { path: `${sectionPath}.1.ciphertext`, code: 'invalid_type' },
+      { path: `${sectionPath}.2.path`, code: 'custom' },
+      { path: `${sectionPath}.3`, code: 'invalid_type' },
+    ]);
+    expect(errors({ algorithm: 'rot13', sections: {} })).toEqual([
+      { path: `metadata_.${ENCRYPTION_METADATA_KEY}.algorithm`, code: 'invalid_literal' },
+      { path: `metadata_.${ENCRYPTION_METADATA_KEY}.sections`, code: 'invalid_type' },
+    ]);
+  });
+
+  it('should find blocks in list-shaped core memory', () => {
+    const listed = { ...agent, core_memory: Object.values(agent.core_memory) } as any;
+    const sealed = encryptAgentFile(listed, { keyRef, key, sections: ['core_memory.human'] });
+    expect(sealed.core_memory).toEqual([
+      agent.core_memory.persona,
+      { label: 'human', value: ENCRYPTED_PLACEHOLDER },
+    ]);
+    expect(decryptAgentFile(sealed, resolveKey)).toEqual(listed);
+  });
+});
+
+describe('encrypted sections during parse and export', () => {
+  const json = serializeAgentFile(encrypted);
+
+  it('should validate without the key and report the placeholders', () => {
+    const { data, report } = parseAgentFileWithReport(json);
+    expect(data.messages).toEqual(getEncryptedPlaceholder('messages'));
+    expect(getEncryptedSections(data).map((section) => section.path)).toContain(
+      'core_memory.human'
+    );
+    expect(report.encryptedSections.map((section) => section.path)).toContain('messages');
+  });
+
+  it('should decrypt with a key resolver', () => {
+    const { data, report } = parseAgentFileWithReport(json, { keyResolver: resolveKey });
+    expect(data.messages.map((message) => message.text)).toEqual([
+      'Keep this quiet',
+      'Understood.',
+    ]);
+    expect(data.core_memory.human.value).toBe('The user is planning an acquisition.');
+    expect(data.metadata_).toBeUndefined();
+    expect(report.encryptedSections).toEqual([]);
+  });
+
+  it('should encrypt on export', () => {
+    const config = { name: 'Exported', instructions: 'Be brief.' } as any;
+    const memory = { messages: [{ role: 'user' as const, content: 'Top secret plans' }] };
+
+    const result = exportMastraAgent(config, memory as any, { encrypt: { keyRef, key } });
+    expect(result.content).not.toContain('Top secret plans');
+    expect(result.metadata.messageCount).toBe(1);
+
+    const decrypted = decryptAgentFile(JSON.parse(result.content), resolveKey);
+    expect(decrypted.messages[0].text).toBe('Top secret plans');
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * @fileoverview Tests for file-system loading and atomic saving
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { gzipSync } from 'zlib';
+import {
+  loadAgentFile,
+  loadAgentFileWithReport,
+  saveAgentFile,
+  detectAgentFileFormat,
+} from '../src/files';
+import { isGzipCompressed } from '../src/compression';
+import { AgentFileParseError } from '../src/parser';
+import { quickExportAgent } from '../src/export';
+import type { AfAgentSchema } from '../src/types';
+
+const agent: AfAgentSchema = {
+  agent_type: 'letta',
+  name: 'Saved Agent',
+  system: 'You are a helpful assistant.',
+  llm_config: { provider: 'openai', model: 'gpt-4' },
+  core_memory: {
+    persona: { label: 'persona', value: 'I am helpful.' },
+    human: { label: 'human', value: 'The user is curious.' },
+  },
+  messages: [],
+  tools: [],
+  version: '0.1.0',
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+};
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'af-files-'));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('detectAgentFileFormat', () => {
+  it('should detect plain and compressed extensions', () => {
+    expect(detectAgentFileFormat('agent.af')).toEqual({ compressed: false });
+    expect(detectAgentFileFormat('agent.af.json')).toEqual({ compressed: false });
+    expect(detectAgentFileFormat('/a/b/AGENT.AF.GZ')).toEqual({ compressed: true });
+    expect(detectAgentFileFormat('agent.af.json.gz')).toEqual({ compressed: true });
+  });
+
+  it('should reject unknown extensions', () => {
+    expect(() => detectAgentFileFormat('agent.yaml')).toThrowError(AgentFileParseError);
+  });
+});
+
+describe('saveAgentFile and loadAgentFile', () => {
+  it('should round-trip a plain agent file', async () => {
+    const path = join(dir, 'agent.af');
+    await saveAgentFile(path, agent);
+
+    expect(readFileSync(path, 'utf-8')).toContain('\n  "name": "Saved Agent"');
+    expect(await loadAgentFile(path)).toEqual(agent);
+  });
+
+  it('should compress files with a .gz extension', async () => {
+    const path = join(dir, 'agent.af.gz');
+    await saveAgentFile(path, agent);
+
+    expect(isGzipCompressed(readFileSync(path))).toBe(true);
+    expect(await loadAgentFile(path)).toEqual(agent);
+  });
+
+  it('should leave no temporary files behind', async () => {
+    await saveAgentFile(join(dir, 'agent.af'), agent);
+    await saveAgentFile(join(dir, 'agent.af'), { ...agent, name: 'Renamed' });
+
+    expect(readdirSync(dir)).toEqual(['agent.af']);
+    expect((await loadAgentFile(join(dir, 'agent.af'))).name).toBe('Renamed');
+  });
+
+  it('should not overwrite the file when validation fails', async () => {
+    const path = join(dir, 'agent.af');
+    await saveAgentFile(path, agent);
+
+    await expect(saveAgentFile(path, { ...agent, system: '' })).rejects.toThrowError(
+      AgentFileParseError
+    );
+    expect((await loadAgentFile(path)).system).toBe(agent.system);
+  });
+
+  it('should wrap write failures in AgentFileParseError', async () => {
+    await expect(
+      saveAgentFile(join(dir, 'missing', 'agent.af'), agent)
+    ).rejects.toThrowError(/Cannot write agent file/);
+    expect(readdirSync(dir)).toEqual([]);
+  });
+
+  it('should enforce maxSize before reading', async () => {
+    const path = join(dir, 'agent.af');
+    await saveAgentFile(path, agent);
+
+    await expect(loadAgentFile(path, { maxSize: 100 })).rejects.toThrowError(/too large/);
+  });
+
+  it('should report missing files as AgentFileParseError', async () => {
+    await expect(loadAgentFile(join(dir, 'nope.af'))).rejects.toThrowError(
+      /Cannot read agent file/
+    );
+  });
+
+  it('should return the parse report', async () => {
+    const path = join(dir, 'agent.af.json.gz');
+    writeFileSync(path, gzipSync(JSON.stringify({ ...agent, agent_id: 'x' })));
+
+    const { report } = await loadAgentFileWithReport(path);
+    expect(report.unknownFields).toEqual([{ path: 'agent_id', key: 'agent_id' }]);
+  });
+});
+
+describe('quickExportAgent', () => {
+  it('should write the exported agent to disk', async () => {
+    const path = join(dir, 'quick.af');
+    const content = await quickExportAgent({ name: 'Quick', instructions: 'Test' } as any, path);
+
+    expect(readFileSync(path, 'utf-8')).toBe(content);
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * @fileoverview Tests for agent fingerprinting
+ */
+
+import { describe, it, expect } from 'vitest';
+import { generateKeyPairSync } from 'crypto';
+import { fingerprintAgent, isConversationOnlyChange } from '../src/fingerprint';
+import { signAgentFile } from '../src/signature';
+import { exportMastraAgent } from '../src/export';
+import type { AfAgentSchema } from '../src/types';
+
+const agent: AfAgentSchema = {
+  agent_type: 'letta',
+  name: 'Registry Agent',
+  system: 'You are helpful.',
+  llm_config: { provider: 'openai', model: 'gpt-4', temperature: 0.2 },
+  core_memory: {
+    persona: { label: 'persona', value: 'I am helpful.' },
+    human: { label: 'human', value: 'The user is curious.' },
+  },
+  messages: [
+    { id: 'msg_1', role: 'user', text: 'Hello', timestamp: '2024-01-01T00:00:00Z' },
+  ],
+  tools: [
+    {
+      name: 'search',
+      type: 'json_schema',
+      description: 'Search the web',
+      parameters: { type: 'object', properties: { query: { type: 'string' } } },
+    },
+  ],
+  metadata_: { owner: 'platform' },
+  version: '0.1.0',
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+};
+
+const withMessage: AfAgentSchema = {
+  ...agent,
+  messages: [
+    ...agent.messages,
+    { id: 'msg_2', role: 'assistant', text: 'Hi!', timestamp: '2024-01-01T00:00:01Z' },
+  ],
+};
+
+describe('fingerprintAgent', () => {
+  it('should return a SHA-256 digest', () => {
+    expect(fingerprintAgent(agent)).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('should ignore key order, core memory shape and volatile fields', () => {
+    const { system, name, ...rest } = agent;
+    const reordered = { name, ...rest, system } as AfAgentSchema;
+    const listed = { ...agent, core_memory: Object.values(agent.core_memory) } as any;
+    const { persona, human } = agent.core_memory;
+    const reorderedBlocks: AfAgentSchema = { ...agent, core_memory: { human, persona } };
+    const reversedList = { ...agent, core_memory: [human, persona] } as any;
+    const reexported: AfAgentSchema = {
+      ...agent,
+      created_at: '2025-06-01T00:00:00Z',
+      updated_at: '2025-06-01T00:00:00Z',
+      metadata_: { owner: 'platform', mastra_export: { exportedAt: '2025-06-01T00:00:00Z' } },
+    };
+    const signed = signAgentFile(agent, generateKeyPairSync('ed25519').privateKey);
+
+    for (const variant of [reordered, listed, reorderedBlocks, reversedList, reexported, signed]) {
+      for (const scope of ['memory', 'full'] as const) {
+        expect(fingerprintAgent(variant, { scope })).toBe(fingerprintAgent(agent, { scope }));
+      }
+    }
+  });
+
+  it('should cover only the fields in scope', () => {
+    const scopes = (a: AfAgentSchema, b: AfAgentSchema) =>
+      (['definition', 'memory', 'full'] as const).filter(
+        (scope) => fingerprintAgent(a, { scope }) !== fingerprintAgent(b, { scope })
+      );
+
+    expect(scopes(agent, withMessage)).toEqual(['full']);
+    expect(
+      scopes(agent, {
+        ...agent,
+        core_memory: { ...agent.core_memory, human: { label: 'human', value: 'Changed' } },
+      })
+    ).toEqual(['memory', 'full']);
+    expect(scopes(agent, { ...agent, system: 'You are terse.' })).toEqual([
+      'definition',
+      'memory',
+      'full',
+    ]);
+    expect(scopes(agent, { ...agent, description: 'Now documented' })).toEqual(['full']);
+  });
+
+  it('should be stable across re-exports of the same Mastra agent', () => {
+    const config = { name: 'Exported', instructions: 'Be brief.' } as any;
+    const first = exportMastraAgent(config, undefined, { clock: () => new Date('2024-01-01') });
+    const second = exportMastraAgent(config, undefined, { clock: () => new Date('2025-01-01') });
+
+    expect(first.content).not.toBe(second.content);
+    expect(fingerprintAgent(JSON.parse(first.content))).toBe(
+      fingerprintAgent(JSON.parse(second.content))
+    );
+  });
+});
+
+describe('isConversationOnlyChange', () => {
+  it('should detect when only the messages changed', () => {
+    expect(isConversationOnlyChange(agent, withMessage)).toBe(true);
+    expect(
+      isConversationOnlyChange(agent, { ...withMessage, updated_at: '2025-01-01T00:00:00Z' })
+    ).toBe(true);
+  });
+
+  it('should reject identical agents and other changes', () => {
+    expect(isConversationOnlyChange(agent, agent)).toBe(false);
+    expect(isConversationOnlyChange(agent, { ...withMessage, name: 'Renamed' })).toBe(false);
+  });
+});
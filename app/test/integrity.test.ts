@@ -0,0 +1,239 @@
+/**
+ * @fileoverview Tests for message history integrity checks
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  checkAgentIntegrity,
+  assertAgentIntegrity,
+  validateToolArguments,
+} from '../src/integrity';
+import { AgentFileParseError, parseAgentFile } from '../src/parser';
+import type { AfAgentSchema, AfMessage, AfToolParameters } from '../src/types';
+
+const parameters: AfToolParameters = {
+  type: 'object',
+  properties: {
+    city: { type: 'string', description: 'City name' },
+    units: { type: 'string', enum: ['metric', 'imperial'] },
+    days: { type: 'integer' },
+  },
+  required: ['city'],
+};
+
+const call = (
+  id: string,
+  args: Record<string, unknown> = { city: 'Paris' },
+  name = 'get_weather'
+) => ({ id, name, arguments: args });
+
+const message = (id: string, overrides: Partial<AfMessage> = {}): AfMessage => ({
+  id,
+  role: 'assistant',
+  text: '',
+  timestamp: '2024-01-01T00:00:00Z',
+  ...overrides,
+});
+
+const agent: AfAgentSchema = {
+  agent_type: 'letta',
+  name: 'Weather Agent',
+  system: 'You report the weather.',
+  llm_config: { provider: 'openai', model: 'gpt-4' },
+  core_memory: {
+    persona: { label: 'persona', value: 'I am helpful.' },
+    human: { label: 'human', value: 'The user is curious.' },
+  },
+  messages: [
+    message('msg_1', { role: 'user', text: 'Weather in Paris?' }),
+    message('msg_2', { tool_calls: [call('call_1')] }),
+    message('msg_3', {
+      role: 'tool',
+      tool_results: [{ id: 'call_1', name: 'get_weather', result: { temp: 20 } }],
+    }),
+    message('msg_4', { text: 'It is 20 degrees.' }),
+  ],
+  tools: [
+    { name: 'get_weather', type: 'json_schema', description: 'Get the weather', parameters },
+  ],
+  version: '0.1.0',
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+};
+
+const withMessages = (...messages: AfMessage[]): AfAgentSchema => ({ ...agent, messages });
+
+describe('checkAgentIntegrity', () => {
+  it('should accept a consistent history', () => {
+    expect(checkAgentIntegrity(agent)).toEqual({ valid: true, issues: [] });
+  });
+
+  it('should accept results in the same message as their call', () => {
+    const report = checkAgentIntegrity(
+      withMessages(
+        message('msg_1', {
+          tool_calls: [call('call_1')],
+          tool_results: [{ id: 'call_1', name: 'get_weather', result: 'sunny' }],
+        })
+      )
+    );
+    expect(report.valid).toBe(true);
+  });
+
+  it('should report orphaned results and dangling calls', () => {
+    const { valid, issues } = checkAgentIntegrity(
+      withMessages(
+        message('msg_1', { role: 'tool', tool_results: [{ id: 'call_9', name: 'get_weather' }] }),
+        message('msg_2', { tool_calls: [call('call_1')] })
+      )
+    );
+
+    expect(valid).toBe(false);
+    expect(issues).toEqual([
+      {
+        path: 'messages.0.tool_results.0.id',
+        message: 'Tool result "call_9" does not answer an earlier tool call',
+        code: 'orphaned_tool_result',
+        messageIndex: 0,
+        messageId: 'msg_1',
+      },
+      {
+        path: 'messages.1.tool_calls.0',
+        message: 'Tool call "call_1" has no result',
+        code: 'dangling_tool_call',
+        messageIndex: 1,
+        messageId: 'msg_2',
+      },
+    ]);
+  });
+
+  it('should treat a result before its call as orphaned', () => {
+    const { issues } = checkAgentIntegrity(
+      withMessages(
+        message('msg_1', { role: 'tool', tool_results: [{ id: 'call_1', name: 'get_weather' }] }),
+        message('msg_2', { tool_calls: [call('call_1')] })
+      )
+    );
+    expect(issues.map((i) => i.code)).toEqual(['orphaned_tool_result', 'dangling_tool_call']);
+  });
+
+  it('should report unknown tools without checking their arguments', () => {
+    const { issues } = checkAgentIntegrity(
+      withMessages(
+        message('msg_1', { tool_calls: [call('call_1', { anything: 1 }, 'send_email')] }),
+        message('msg_2', { role: 'tool', tool_results: [{ id: 'call_1', name: 'send_email' }] })
+      )
+    );
+    expect(issues).toEqual([
+      expect.objectContaining({
+        code: 'unknown_tool',
+        path: 'messages.0.tool_calls.0.name',
+        message: 'Tool call "call_1" uses unknown tool "send_email"',
+      }),
+    ]);
+  });
+
+  it('should report argument violations per message', () => {
+    const { issues } = checkAgentIntegrity(
+      withMessages(
+        message('msg_1', { tool_calls: [call('call_1', { units: 'kelvin', days: 1.5 })] }),
+        message('msg_2', {
+          role: 'tool',
+          tool_results: [{ id: 'call_1', name: 'get_weather' }],
+        })
+      )
+    );
+
+    for (const issue of issues) {
+      expect(issue).toMatchObject({ code: 'invalid_tool_arguments', messageId: 'msg_1' });
+    }
+    expect(issues.map((i) => i.path)).toEqual([
+      'messages.0.tool_calls.0.arguments.city',
+      'messages.0.tool_calls.0.arguments.units',
+      'messages.0.tool_calls.0.arguments.days',
+    ]);
+    expect(issues[0].message).toBe(
+      'Invalid arguments for tool "get_weather": Required argument is missing'
+    );
+  });
+
+  it('should report duplicate call IDs and mismatched result names', () => {
+    const { issues } = checkAgentIntegrity(
+      withMessages(
+        message('msg_1', { tool_calls: [call('call_1'), call('call_1')] }),
+        message('msg_2', { role: 'tool', tool_results: [{ id: 'call_1', name: 'get_forecast' }] })
+      )
+    );
+    expect(issues.map((i) => [i.code, i.path])).toEqual([
+      ['duplicate_tool_call_id', 'messages.0.tool_calls.1.id'],
+      ['tool_result_name_mismatch', 'messages.1.tool_results.0.name'],
+    ]);
+  });
+});
+
+describe('validateToolArguments', () => {
+  it('should check nested objects, arrays and additional properties', () => {
+    const nested: AfToolParameters = {
+      type: 'object',
+      properties: {
+        filters: {
+          type: 'object',
+          properties: { tags: { type: 'array', items: { type: 'string' } } },
+          required: ['tags'],
+        },
+      },
+      additionalProperties: false,
+    };
+
+    expect(validateToolArguments({ filters: { tags: ['a', 'b'] } }, nested)).toEqual([]);
+    expect(validateToolArguments({ filters: { tags: ['a', 2] }, extra: true }, nested)).toEqual([
+      { path: 'arguments.filters.tags.1', message: 'Expected string, received number' },
+      { path: 'arguments.extra', message: 'Unexpected argument' },
+    ]);
+    expect(validateToolArguments({ filters: {} }, nested)).toEqual([
+      { path: 'arguments.filters.tags', message: 'Required argument is missing' },
+    ]);
+  });
+
+  it('should skip types it does not know', () => {
+    const custom: AfToolParameters = {
+      type: 'object',
+      properties: { when: { type: 'datetime' } },
+    };
+    expect(validateToolArguments({ when: 12 }, custom)).toEqual([]);
+  });
+});
+
+describe('integrity during parsing', () => {
+  const broken = withMessages(message('msg_1', { tool_calls: [call('call_1')] }));
+
+  it('should throw from assertAgentIntegrity with validation errors', () => {
+    expect(() => assertAgentIntegrity(agent)).not.toThrow();
+    try {
+      assertAgentIntegrity(broken);
+      expect.fail('should have thrown');
+    } catch (error) {
+      expect(error).toBeInstanceOf(AgentFileParseError);
+      expect((error as AgentFileParseError).validationErrors).toEqual([
+        {
+          path: 'messages.0.tool_calls.0',
+          message: 'Tool call "call_1" has no result',
+          code: 'dangling_tool_call',
+        },
+      ]);
+    }
+  });
+
+  it('should only check integrity when asked', () => {
+    const json = JSON.stringify(broken, null, 2);
+
+    expect(() => parseAgentFile(json)).not.toThrow();
+    try {
+      parseAgentFile(json, { checkIntegrity: true });
+      expect.fail('should have thrown');
+    } catch (error) {
+      expect((error as AgentFileParseError).message).toBe('Agent file failed integrity checks');
+      expect((error as AgentFileParseError).validationErrors?.[0].line).toBeGreaterThan(1);
+    }
+  });
+});
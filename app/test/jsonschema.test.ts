@@ -0,0 +1,105 @@
+/**
+ * @fileoverview Tests for the generated JSON Schema
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync, readdirSync } from 'fs';
+import { join } from 'path';
+import Ajv2020 from 'ajv/dist/2020';
+import addFormats from 'ajv-formats';
+import { afAgentJsonSchema, generateAfJsonSchema } from '../src/jsonschema';
+import { afAgentSchema } from '../src/schema';
+
+const fixturesDir = join(__dirname, 'fixtures');
+const fixtures = readdirSync(fixturesDir)
+  .filter((file) => /\.af(\.json)?$/.test(file))
+  .map((file) => ({ file, data: JSON.parse(readFileSync(join(fixturesDir, file), 'utf-8')) }));
+
+const ajv = new Ajv2020({ strict: true, allErrors: true });
+addFormats(ajv);
+const validate = ajv.compile(afAgentJsonSchema);
+
+const agent = {
+  agent_type: 'letta',
+  name: 'Schema Agent',
+  system: 'You are a helpful assistant.',
+  llm_config: { provider: 'openai', model: 'gpt-4' },
+  core_memory: {
+    persona: { label: 'persona', value: 'I am helpful.' },
+    human: { label: 'human', value: 'The user is curious.' },
+  },
+  messages: [],
+  tools: [],
+  version: '0.1.0',
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+};
+
+const tool = {
+  name: 'calculator',
+  description: 'Evaluate math',
+  type: 'python',
+  parameters: {
+    type: 'object',
+    properties: { nested: { type: 'object', properties: { deep: { type: 'string' } } } },
+  },
+  source_code: 'def calculator(): pass',
+};
+
+describe('afAgentJsonSchema', () => {
+  it('should be a valid draft 2020-12 schema', () => {
+    expect(afAgentJsonSchema.$schema).toBe('https://json-schema.org/draft/2020-12/schema');
+    expect(ajv.validateSchema(afAgentJsonSchema)).toBe(true);
+  });
+
+  it('should match the published schema file', () => {
+    const published = JSON.parse(
+      readFileSync(join(__dirname, '..', 'schema', 'agent-file.schema.json'), 'utf-8')
+    );
+    expect(published).toEqual(generateAfJsonSchema());
+  });
+
+  it.each(fixtures.filter(({ data }) => afAgentSchema.safeParse(data).success))(
+    'should accept $file, which Zod accepts',
+    ({ data }) => {
+      expect(validate(data), JSON.stringify(validate.errors)).toBe(true);
+    }
+  );
+
+  it('should cover at least one fixture', () => {
+    expect(fixtures.some(({ data }) => afAgentSchema.safeParse(data).success)).toBe(true);
+  });
+
+  it('should validate recursive parameter properties', () => {
+    expect(validate({ ...agent, tools: [tool] })).toBe(true);
+
+    const broken = structuredClone(tool);
+    (broken.parameters.properties.nested.properties.deep as any).type = 5;
+    expect(validate({ ...agent, tools: [broken] })).toBe(false);
+  });
+
+  it('should express the expressible refinements', () => {
+    // Python and JavaScript tools need source code
+    expect(validate({ ...agent, tools: [{ ...tool, source_code: undefined }] })).toBe(false);
+    expect(validate({ ...agent, tools: [{ ...tool, source_code: '' }] })).toBe(false);
+
+    // Core memory needs persona and human blocks
+    expect(validate({ ...agent, core_memory: { persona: agent.core_memory.persona } })).toBe(false);
+
+    // _mastra_tool metadata is validated, including per-type requirements
+    const mcp = (metadata: unknown) => ({
+      ...agent,
+      tools: [{ ...tool, type: 'json_schema', source_code: undefined, metadata: { _mastra_tool: metadata } }],
+    });
+    expect(validate(mcp({ type: 'mcp', server: 'https://mcp.example.com', tool_name: 'x' }))).toBe(true);
+    expect(validate(mcp({ type: 'mcp', server: 'https://mcp.example.com' }))).toBe(false);
+    expect(validate(mcp({ type: 'url' }))).toBe(false);
+  });
+
+  it('should agree with Zod on timestamps', () => {
+    for (const created_at of ['2024-01-01T00:00:00Z', '2024-01-01T00:00:00.5Z', '2024-01-01T00:00:00+01:00', '2024-01-01']) {
+      const data = { ...agent, created_at };
+      expect(validate(data)).toBe(afAgentSchema.safeParse(data).success);
+    }
+  });
+});
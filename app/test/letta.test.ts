@@ -0,0 +1,170 @@
+/**
+ * @fileoverview Tests for the Letta upstream agent file layout adapter
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  fromLettaAgentFile,
+  parseLettaAgentFile,
+  toLettaAgentFile,
+  isLettaAgentFile,
+} from '../src/letta';
+import { compressAgentFile } from '../src/compression';
+import { AgentFileParseError } from '../src/parser';
+
+const upstreamJson = readFileSync(join(__dirname, 'fixtures', 'letta-upstream.af'), 'utf-8');
+const upstream = JSON.parse(upstreamJson);
+
+describe('isLettaAgentFile', () => {
+  it('should recognize the upstream layout', () => {
+    expect(isLettaAgentFile(upstream)).toBe(true);
+    expect(isLettaAgentFile({ name: 'flat', core_memory: {} })).toBe(false);
+  });
+});
+
+describe('fromLettaAgentFile', () => {
+  it('should normalize every agent', () => {
+    const agents = fromLettaAgentFile(upstream);
+    expect(agents.map((agent) => agent.name)).toEqual(['support_agent', 'escalation_agent']);
+  });
+
+  it('should resolve blocks and tools by ID', () => {
+    const [support, escalation] = fromLettaAgentFile(upstream);
+
+    expect(support.core_memory.persona).toEqual({
+      label: 'persona',
+      value: 'I am a support agent.',
+      character_limit: 5000,
+      metadata: { letta: { read_only: false } },
+    });
+    // Shared blocks are copied into each agent
+    expect(escalation.core_memory.human.value).toBe('Customer: Ada.');
+    expect(escalation.core_memory.persona.value).toBe('I handle escalations.');
+
+    expect(support.tools.map((tool) => [tool.name, tool.type])).toEqual([
+      ['send_message', 'json_schema'],
+      ['lookup_order', 'python'],
+    ]);
+    expect(support.tools[0].parameters.required).toEqual(['message']);
+    expect(support.tools[0].metadata).toEqual({
+      letta: { tool_type: 'letta_core', return_char_limit: 6000 },
+    });
+  });
+
+  it('should map configs, rules and environment variables', () => {
+    const [support] = fromLettaAgentFile(upstream);
+
+    expect(support.llm_config).toMatchObject({ provider: 'openai', model: 'gpt-4o-mini', temperature: 0.7 });
+    expect(support.llm_config).not.toHaveProperty('max_tokens');
+    expect(support.embedding_config).toMatchObject({
+      provider: 'openai',
+      model: 'text-embedding-3-small',
+      dimensions: 1536,
+    });
+    expect(support.tool_rules).toEqual([
+      { tool_name: 'send_message', rule_type: 'exit_loop', rule_content: '{}' },
+    ]);
+    expect(support.tool_exec_environment_variables).toEqual({ REGION: 'eu' });
+    expect(support.metadata_).toEqual({ team: 'support' });
+  });
+
+  it('should convert messages', () => {
+    const [support] = fromLettaAgentFile(upstream);
+    const [system, user, assistant, tool] = support.messages;
+
+    expect(system.timestamp).toBe('2025-01-15T10:00:00.123Z');
+    expect(system.metadata).toEqual({ letta: { model: 'gpt-4o-mini' } });
+    expect(user).toEqual({
+      id: 'message-1',
+      role: 'user',
+      text: 'Where is my order?',
+      timestamp: '2025-01-15T10:00:01.000Z',
+    });
+    expect(assistant.tool_calls).toEqual([
+      { id: 'call_abc', name: 'lookup_order', arguments: { order_id: '42' } },
+    ]);
+    expect(tool.tool_results).toEqual([
+      { id: 'call_abc', name: 'lookup_order', result: '{"status": "shipped"}' },
+    ]);
+    expect(support.in_context_message_indices).toEqual([0, 2, 3]);
+  });
+
+  it('should default missing timestamps via auto-fix options', () => {
+    const [support] = fromLettaAgentFile(upstream);
+    expect(support.updated_at).toBe('2025-01-15T09:59:00.000Z');
+    expect(support.version).toBe('0.1.0');
+  });
+
+  it('should reject dangling references', () => {
+    const broken = { ...upstream, blocks: upstream.blocks.slice(1) };
+    expect(() => fromLettaAgentFile(broken)).toThrowError(
+      /unknown block: block-0 \(at agents.0.block_ids.0\)/
+    );
+  });
+
+  it('should name the agent that fails validation', () => {
+    const broken = structuredClone(upstream);
+    broken.agents[1].block_ids = ['block-2'];
+
+    expect(() => fromLettaAgentFile(broken)).toThrowError(/"escalation_agent" \(agents.1\)/);
+  });
+
+  it('should reject documents without an agents list', () => {
+    expect(() => fromLettaAgentFile({ blocks: [] })).toThrowError(AgentFileParseError);
+  });
+});
+
+describe('parseLettaAgentFile', () => {
+  it('should accept text and gzip-compressed bytes', () => {
+    expect(parseLettaAgentFile(upstreamJson)).toHaveLength(2);
+    expect(parseLettaAgentFile(compressAgentFile(upstreamJson))).toHaveLength(2);
+  });
+
+  it('should report invalid JSON', () => {
+    expect(() => parseLettaAgentFile('{ nope')).toThrowError(/Invalid JSON format/);
+  });
+});
+
+describe('toLettaAgentFile', () => {
+  it('should write blocks and shared tools referenced by ID', () => {
+    const file = toLettaAgentFile(fromLettaAgentFile(upstream));
+
+    expect(file.agents.map((agent) => agent.id)).toEqual(['agent-0', 'agent-1']);
+    expect(file.blocks).toHaveLength(4);
+    // send_message is identical in both agents and written once
+    expect(file.tools.map((tool) => tool.name)).toEqual(['send_message', 'lookup_order']);
+    expect(file.agents[1].tool_ids).toEqual(['tool-0']);
+    expect(file.agents[0].in_context_message_ids).toEqual(['message-0', 'message-2', 'message-3']);
+    expect(file.tools[0]).toMatchObject({ tool_type: 'letta_core', return_char_limit: 6000 });
+  });
+
+  it('should write messages in the upstream shape', () => {
+    const [, , assistant, tool] = toLettaAgentFile(fromLettaAgentFile(upstream)).agents[0]
+      .messages as any[];
+
+    expect(assistant.tool_calls).toEqual([
+      {
+        id: 'call_abc',
+        type: 'function',
+        function: { name: 'lookup_order', arguments: '{"order_id":"42"}' },
+      },
+    ]);
+    expect(tool).toMatchObject({
+      name: 'lookup_order',
+      tool_call_id: 'call_abc',
+      tool_returns: [{ tool_call_id: 'call_abc', status: 'success', func_response: '{"status": "shipped"}' }],
+    });
+  });
+
+  it('should round-trip through the upstream layout', () => {
+    const agents = fromLettaAgentFile(upstream);
+    expect(fromLettaAgentFile(toLettaAgentFile(agents))).toEqual(agents);
+  });
+
+  it('should accept a single agent', () => {
+    const [support] = fromLettaAgentFile(upstream);
+    expect(toLettaAgentFile(support).agents).toHaveLength(1);
+  });
+});
@@ -0,0 +1,267 @@
+/**
+ * @fileoverview Tests for the agent file lint engine
+ */
+
+import { describe, it, expect } from 'vitest';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { lintAgentFile, parseLintConfig, loadLintConfig, LINT_RULES } from '../src/lint';
+import { AgentFileParseError } from '../src/parser';
+import type { AfAgentSchema } from '../src/types';
+
+const agent: AfAgentSchema = {
+  agent_type: 'letta',
+  name: 'Linted Agent',
+  system: '# Role\nYou help customers.\n\n# Rules\nBe polite.',
+  llm_config: { provider: 'openai', model: 'gpt-4' },
+  core_memory: {
+    persona: { label: 'persona', value: 'I am helpful.', character_limit: 100 },
+    human: { label: 'human', value: 'The user is curious.' },
+  },
+  messages: [
+    { id: 'msg_1', role: 'user', text: 'Weather?', timestamp: '2024-01-01T00:00:00Z' },
+    {
+      id: 'msg_2',
+      role: 'assistant',
+      text: 'Checking.',
+      timestamp: '2024-01-01T00:00:01Z',
+      tool_calls: [{ id: 'call_1', name: 'get_weather', arguments: { city: 'Paris' } }],
+    },
+  ],
+  tools: [
+    {
+      name: 'get_weather',
+      type: 'json_schema',
+      description: 'Get the weather',
+      parameters: {
+        type: 'object',
+        properties: { city: { type: 'string', description: 'City name' } },
+      },
+    },
+  ],
+  tags: ['support'],
+  version: '0.1.0',
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+};
+
+const ruleIds = (agentToLint: AfAgentSchema, config = {}) =>
+  lintAgentFile(agentToLint, config).findings.map((finding) => finding.ruleId);
+
+describe('lintAgentFile', () => {
+  it('should report nothing for a clean agent', () => {
+    expect(lintAgentFile(agent)).toEqual({ findings: [], errorCount: 0, warningCount: 0 });
+  });
+
+  it('should report duplicate tool names and message IDs', () => {
+    const result = lintAgentFile({
+      ...agent,
+      tools: [agent.tools[0], { ...agent.tools[0], description: 'Again' }],
+      messages: [agent.messages[0], { ...agent.messages[1], id: 'msg_1' }],
+    });
+
+    expect(result.findings).toEqual([
+      {
+        ruleId: 'duplicate-tool-name',
+        severity: 'error',
+        path: 'tools.1.name',
+        message: 'Duplicate tool name "get_weather"',
+        suggestion: 'Rename the tool or remove the duplicate definition',
+      },
+      {
+        ruleId: 'duplicate-message-id',
+        severity: 'error',
+        path: 'messages.1.id',
+        message: 'Duplicate message ID "msg_1"',
+        suggestion: 'Give every message a unique ID',
+      },
+    ]);
+    expect(result.errorCount).toBe(2);
+  });
+
+  it('should report empty system prompt sections', () => {
+    const { findings } = lintAgentFile({
+      ...agent,
+      system: '# Role\nYou help.\n\n## Tone\n\n# Rules\nBe polite.\n<examples>\n</examples>',
+    });
+
+    expect(findings.map((f) => f.message)).toEqual([
+      'System prompt section "Tone" (line 4) is empty',
+      'System prompt section <examples> is empty',
+    ]);
+    expect(findings.every((f) => f.path === 'system' && f.severity === 'warn')).toBe(true);
+  });
+
+  it('should report a blank system prompt', () => {
+    const { findings } = lintAgentFile({ ...agent, system: '  \n ' });
+    expect(findings).toHaveLength(1);
+    expect(findings[0].message).toBe('System prompt is blank');
+  });
+
+  it('should report memory blocks over their character limit', () => {
+    const { findings } = lintAgentFile({
+      ...agent,
+      core_memory: {
+        ...agent.core_memory,
+        persona: { label: 'persona', value: 'x'.repeat(12), character_limit: 10 },
+      },
+    });
+
+    expect(findings).toEqual([
+      expect.objectContaining({
+        ruleId: 'memory-over-limit',
+        path: 'core_memory.persona.value',
+        message: 'Memory block "persona" has 12 characters (limit: 10)',
+      }),
+    ]);
+  });
+
+  it('should report undescribed parameters, including nested ones', () => {
+    const { findings } = lintAgentFile({
+      ...agent,
+      tools: [
+        {
+          ...agent.tools[0],
+          parameters: {
+            type: 'object',
+            properties: {
+              city: { type: 'string', description: ' ' },
+              options: {
+                type: 'object',
+                description: 'Options',
+                properties: { units: { type: 'string' } },
+              },
+            },
+          },
+        },
+      ],
+    });
+
+    expect(findings.map((f) => f.path)).toEqual([
+      'tools.0.parameters.properties.city.description',
+      'tools.0.parameters.properties.options.properties.units.description',
+    ]);
+  });
+
+  it('should report tools never called in the history', () => {
+    const unused = { ...agent.tools[0], name: 'send_email' };
+    const { findings } = lintAgentFile({ ...agent, tools: [...agent.tools, unused] });
+
+    expect(findings).toEqual([
+      expect.objectContaining({ ruleId: 'unused-tool', path: 'tools.1', severity: 'warn' }),
+    ]);
+    // Without history, usage cannot be judged
+    expect(ruleIds({ ...agent, messages: [], tools: [unused] })).toEqual([]);
+  });
+
+  it('should check tags against the configured allowlist', () => {
+    const tagged = { ...agent, tags: ['support', 'internal'] };
+
+    expect(ruleIds(tagged)).toEqual([]);
+    const { findings } = lintAgentFile(tagged, {
+      rules: { 'tag-allowlist': ['error', { allowed: ['support', 'sales'] }] },
+    });
+    expect(findings).toEqual([
+      {
+        ruleId: 'tag-allowlist',
+        severity: 'error',
+        path: 'tags.1',
+        message: 'Tag "internal" is not in the allowlist',
+        suggestion: 'Use one of: support, sales',
+      },
+    ]);
+  });
+
+  it('should apply configured severities', () => {
+    const duplicated = { ...agent, tools: [agent.tools[0], agent.tools[0]] };
+
+    const result = lintAgentFile(duplicated, { rules: { 'duplicate-tool-name': 'warn' } });
+    expect(result.findings[0].severity).toBe('warn');
+    expect(result).toMatchObject({ errorCount: 0, warningCount: 1 });
+
+    expect(ruleIds(duplicated, { rules: { 'duplicate-tool-name': ['off'] } })).toEqual([]);
+  });
+
+  it('should reject unknown rules and invalid options', () => {
+    expect(() => lintAgentFile(agent, { rules: { 'no-such-rule': 'error' } })).toThrow(
+      AgentFileParseError
+    );
+    expect(() =>
+      lintAgentFile(agent, { rules: { 'unused-tool': ['warn', { strict: true }] } })
+    ).toThrow(AgentFileParseError);
+
+    try {
+      lintAgentFile(agent, { rules: { 'tag-allowlist': ['error', { allowed: 'support' }] } });
+      expect.fail('should have thrown');
+    } catch (error) {
+      expect((error as AgentFileParseError).validationErrors?.[0]).toMatchObject({
+        path: 'rules.tag-allowlist.1.allowed',
+        code: 'invalid_type',
+      });
+    }
+  });
+
+  it('should reject rules enabled without their required options', () => {
+    for (const setting of ['error', ['warn']] as const) {
+      try {
+        lintAgentFile(agent, { rules: { 'tag-allowlist': setting } });
+        expect.fail('should have thrown');
+      } catch (error) {
+        expect(error).toBeInstanceOf(AgentFileParseError);
+        expect((error as AgentFileParseError).validationErrors).toEqual([
+          {
+            path: 'rules.tag-allowlist',
+            message: 'Rule "tag-allowlist" requires options',
+            code: 'missing_options',
+          },
+        ]);
+      }
+    }
+    expect(() => parseLintConfig({ rules: { 'tag-allowlist': 'warn' } })).toThrow(
+      'Invalid lint config'
+    );
+    expect(lintAgentFile(agent, { rules: { 'tag-allowlist': 'off' } }).findings).toEqual([]);
+  });
+
+  it('should give every built-in rule a unique ID', () => {
+    const ids = LINT_RULES.map((rule) => rule.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+});
+
+describe('lint config', () => {
+  it('should parse a config from JSON text', () => {
+    const config = parseLintConfig(
+      '{"rules": {"unused-tool": "off", "tag-allowlist": ["warn", {"allowed": ["support"]}]}}'
+    );
+    expect(config.rules?.['unused-tool']).toBe('off');
+  });
+
+  it('should reject malformed configs', () => {
+    expect(() => parseLintConfig('{"rules":')).toThrow(/Invalid JSON format in lint config/);
+    expect(() => parseLintConfig({ rules: { 'unused-tool': 'fatal' } })).toThrow(
+      'Invalid lint config'
+    );
+    expect(() => parseLintConfig({ rules: {}, extends: 'base' })).toThrow(AgentFileParseError);
+    expect(() => parseLintConfig({ rules: { 'no-such-rule': 'warn' } })).toThrow(
+      AgentFileParseError
+    );
+  });
+
+  it('should load a shared config from a file', async () => {
+    const dir = await fs.mkdtemp(join(tmpdir(), 'af-lint-'));
+    const path = join(dir, 'lint.json');
+    try {
+      await fs.writeFile(path, JSON.stringify({ rules: { 'duplicate-tool-name': 'warn' } }));
+      const config = await loadLintConfig(path);
+
+      expect(config).toEqual({ rules: { 'duplicate-tool-name': 'warn' } });
+      await expect(loadLintConfig(join(dir, 'missing.json'))).rejects.toThrow(
+        'Cannot read lint config'
+      );
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * @fileoverview Tests for core memory character limit enforcement
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Readable } from 'stream';
+import {
+  enforceMemoryLimits,
+  resolveMemoryLimitAliases,
+  truncateMemoryValue,
+  MEMORY_TRUNCATION_MARKER,
+} from '../src/memory';
+import { AgentFileParseError, parseAgentFile, parseAgentFileWithReport } from '../src/parser';
+import { findUnknownFields } from '../src/strict';
+import { parseAgentFileStream } from '../src/stream';
+import type { AfAgentSchema } from '../src/types';
+
+const agent: AfAgentSchema = {
+  agent_type: 'letta',
+  name: 'Memory Agent',
+  system: 'You remember things.',
+  llm_config: { provider: 'openai', model: 'gpt-4' },
+  core_memory: {
+    persona: { label: 'persona', value: 'I am a very helpful assistant.', character_limit: 10 },
+    human: { label: 'human', value: 'The user is curious.' },
+  },
+  messages: [],
+  tools: [],
+  version: '0.1.0',
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+};
+
+const withLegacyLimit = {
+  ...agent,
+  core_memory: {
+    persona: { label: 'persona', value: 'I am a very helpful assistant.', limit: 10 },
+    human: { label: 'human', value: 'The user is curious.', limit: 2000 },
+  },
+};
+
+describe('truncateMemoryValue', () => {
+  it('should end truncated values with the marker within the limit', () => {
+    expect(truncateMemoryValue('abcdefghij', 5)).toBe(`abcd${MEMORY_TRUNCATION_MARKER}`);
+    expect(truncateMemoryValue('abcdefghij', 5, '...')).toBe('ab...');
+    expect(truncateMemoryValue('abc', 5)).toBe('abc');
+  });
+
+  it('should not split surrogate pairs', () => {
+    const truncated = truncateMemoryValue('ab😀cdef', 4);
+    expect(truncated).toBe(`ab${MEMORY_TRUNCATION_MARKER}`);
+  });
+
+  it('should respect limits shorter than the marker', () => {
+    expect(truncateMemoryValue('abcdef', 2, '...')).toBe('..');
+  });
+});
+
+describe('enforceMemoryLimits', () => {
+  it('should report violations under the warn policy', () => {
+    const { data, violations } = enforceMemoryLimits(agent, 'warn');
+
+    expect(data).toBe(agent);
+    expect(violations).toEqual([
+      {
+        path: 'core_memory.persona.value',
+        label: 'persona',
+        length: 30,
+        limit: 10,
+        truncated: false,
+      },
+    ]);
+  });
+
+  it('should truncate without modifying the input', () => {
+    const { data, violations } = enforceMemoryLimits(agent, 'truncate');
+
+    expect(data.core_memory.persona.value).toBe(`I am a ve${MEMORY_TRUNCATION_MARKER}`);
+    expect(data.core_memory.human).toBe(agent.core_memory.human);
+    expect(violations[0].truncated).toBe(true);
+    expect(agent.core_memory.persona.value).toBe('I am a very helpful assistant.');
+  });
+
+  it('should throw under the error policy', () => {
+    try {
+      enforceMemoryLimits(agent, 'error');
+      expect.fail('should have thrown');
+    } catch (error) {
+      expect(error).toBeInstanceOf(AgentFileParseError);
+      expect((error as AgentFileParseError).validationErrors).toEqual([
+        {
+          path: 'core_memory.persona.value',
+          message: 'Memory block "persona" has 30 characters (limit: 10)',
+          code: 'memory_limit_exceeded',
+        },
+      ]);
+    }
+  });
+});
+
+describe('resolveMemoryLimitAliases', () => {
+  it('should rename limit to character_limit', () => {
+    const resolved = resolveMemoryLimitAliases(withLegacyLimit);
+
+    expect(resolved.core_memory.persona).toEqual({
+      label: 'persona',
+      value: 'I am a very helpful assistant.',
+      character_limit: 10,
+    });
+    expect(withLegacyLimit.core_memory.persona).toHaveProperty('limit', 10);
+  });
+
+  it('should prefer an explicit character_limit', () => {
+    const resolved = resolveMemoryLimitAliases({
+      core_memory: { persona: { label: 'persona', value: '', limit: 5, character_limit: 50 } },
+    });
+    expect(resolved.core_memory.persona).toEqual({
+      label: 'persona',
+      value: '',
+      character_limit: 50,
+    });
+  });
+
+  it('should return input without aliases unchanged', () => {
+    expect(resolveMemoryLimitAliases(agent)).toBe(agent);
+    expect(resolveMemoryLimitAliases('not an agent')).toBe('not an agent');
+  });
+});
+
+describe('memory limits during parsing', () => {
+  it('should honor the legacy limit key', () => {
+    const { data, report } = parseAgentFileWithReport(JSON.stringify(withLegacyLimit));
+
+    expect(data.core_memory.human.character_limit).toBe(2000);
+    expect(report.unknownFields).toEqual([]);
+    expect(report.memoryLimitViolations).toHaveLength(1);
+    expect(findUnknownFields(withLegacyLimit)).toEqual([]);
+  });
+
+  it('should apply the configured policy', () => {
+    const json = JSON.stringify(agent, null, 2);
+
+    expect(parseAgentFile(json).core_memory.persona.value).toBe(agent.core_memory.persona.value);
+    expect(
+      parseAgentFile(json, { memoryLimitPolicy: 'truncate' }).core_memory.persona.value
+    ).toHaveLength(10);
+    try {
+      parseAgentFile(json, { memoryLimitPolicy: 'error' });
+      expect.fail('should have thrown');
+    } catch (error) {
+      expect((error as AgentFileParseError).message).toBe('Core memory exceeds character limits');
+      expect((error as AgentFileParseError).validationErrors?.[0].line).toBeGreaterThan(1);
+    }
+  });
+
+  it('should give auto-fixed default blocks a character limit', () => {
+    const { core_memory: _coreMemory, ...withoutMemory } = agent;
+    const { data } = parseAgentFileWithReport(JSON.stringify(withoutMemory));
+
+    expect(data.core_memory.persona.character_limit).toBe(2000);
+    expect(data.core_memory.human.character_limit).toBe(2000);
+  });
+
+  it('should enforce limits on streamed headers', async () => {
+    const stream = await parseAgentFileStream(Readable.from([JSON.stringify(withLegacyLimit)]), {
+      memoryLimitPolicy: 'truncate',
+    });
+
+    expect(stream.header.core_memory.persona.value).toHaveLength(10);
+    expect(stream.memoryLimitViolations).toEqual([
+      expect.objectContaining({ label: 'persona', truncated: true }),
+    ]);
+    expect(stream.unknownFields).toEqual([]);
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * @fileoverview Tests for three-way agent merges
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mergeAgentFiles } from '../src/merge';
+import { AgentFileParseError } from '../src/parser';
+import type { AfAgentSchema, AfCoreMemoryBlock, AfTool } from '../src/types';
+
+const searchTool: AfTool = {
+  name: 'search',
+  type: 'json_schema',
+  description: 'Search the web',
+  parameters: { type: 'object', properties: { query: { type: 'string' } } },
+};
+
+const base: AfAgentSchema = {
+  agent_type: 'letta',
+  name: 'Team Agent',
+  system: 'You are helpful.',
+  llm_config: { provider: 'openai', model: 'gpt-4', temperature: 0.2 },
+  core_memory: {
+    persona: { label: 'persona', value: 'I am helpful.' },
+    human: { label: 'human', value: 'The user is curious.' },
+  },
+  messages: [
+    { id: 'msg_1', role: 'user', text: 'Hello', timestamp: '2024-01-01T00:00:00Z' },
+    { id: 'msg_2', role: 'assistant', text: 'Hi!', timestamp: '2024-01-01T00:00:01Z' },
+  ],
+  in_context_message_indices: [0, 1],
+  tools: [searchTool],
+  tool_rules: [{ tool_name: 'search', rule_type: 'max_calls', rule_content: '5' }],
+  metadata_: { owner: 'platform' },
+  version: '0.1.0',
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+};
+
+const tool = (name: string): AfTool => ({ ...searchTool, name, description: `The ${name} tool` });
+
+describe('mergeAgentFiles', () => {
+  it('should combine changes to different sections', () => {
+    const ours: AfAgentSchema = {
+      ...base,
+      core_memory: {
+        ...base.core_memory,
+        persona: { label: 'persona', value: 'I am concise and helpful.' },
+      },
+      llm_config: { ...base.llm_config, temperature: 0.5 },
+      updated_at: '2024-02-01T00:00:00Z',
+    };
+    const theirs: AfAgentSchema = {
+      ...base,
+      tools: [searchTool, tool('weather')],
+      llm_config: { ...base.llm_config, max_tokens: 800 },
+      metadata_: { owner: 'platform', reviewed: true },
+      updated_at: '2024-03-01T00:00:00Z',
+    };
+
+    const { data, conflicts } = mergeAgentFiles(base, ours, theirs);
+
+    expect(conflicts).toEqual([]);
+    expect(data.core_memory.persona.value).toBe('I am concise and helpful.');
+    expect(data.tools.map((t) => t.name)).toEqual(['search', 'weather']);
+    expect(data.llm_config).toMatchObject({ temperature: 0.5, max_tokens: 800 });
+    expect(data.metadata_).toEqual({ owner: 'platform', reviewed: true });
+    expect(data.updated_at).toBe('2024-03-01T00:00:00Z');
+  });
+
+  it('should apply additions and deletions from both sides', () => {
+    const withCalculator: AfAgentSchema = { ...base, tools: [searchTool, tool('calculator')] };
+    const ours: AfAgentSchema = {
+      ...withCalculator,
+      core_memory: {
+        ...base.core_memory,
+        notes: { label: 'notes', value: 'Ours' },
+      },
+      tools: [searchTool],
+      tool_rules: [],
+    };
+    const theirs: AfAgentSchema = {
+      ...withCalculator,
+      tool_rules: [
+        ...base.tool_rules!,
+        { tool_name: 'search', rule_type: 'require_approval', rule_content: 'true' },
+      ],
+      metadata_: undefined,
+    };
+
+    const { data, conflicts } = mergeAgentFiles(withCalculator, ours, theirs);
+
+    expect(Object.keys(data.core_memory)).toEqual(['persona', 'human', 'notes']);
+    expect(data.tools.map((t) => t.name)).toEqual(['search']);
+    expect(data.metadata_).toBeUndefined();
+    // We deleted every rule while they added one
+    expect(data.tool_rules).toEqual([
+      { tool_name: 'search', rule_type: 'require_approval', rule_content: 'true' },
+    ]);
+    expect(conflicts).toEqual([]);
+  });
+
+  it('should merge messages by id and keep in-context messages aligned', () => {
+    const ours: AfAgentSchema = {
+      ...base,
+      messages: [
+        ...base.messages,
+        { id: 'msg_3', role: 'user', text: 'From us', timestamp: '2024-01-01T00:00:02Z' },
+      ],
+      in_context_message_indices: [0, 1, 2],
+    };
+    const theirs: AfAgentSchema = {
+      ...base,
+      messages: [
+        { id: 'msg_0', role: 'system', text: 'Session start', timestamp: '2024-01-01T00:00:00Z' },
+        ...base.messages,
+      ],
+      in_context_message_indices: [0, 1, 2],
+    };
+
+    const { data, conflicts } = mergeAgentFiles(base, ours, theirs);
+
+    expect(data.messages.map((m) => m.id)).toEqual(['msg_0', 'msg_1', 'msg_2', 'msg_3']);
+    expect(conflicts).toEqual([]);
+    expect(data.in_context_message_indices).toEqual([0, 1, 2, 3]);
+  });
+
+  it('should drop messages from the context unless the other side edited them', () => {
+    const dropped: AfAgentSchema = { ...base, in_context_message_indices: [1] };
+    const edited: AfAgentSchema = {
+      ...base,
+      messages: [{ ...base.messages[0], text: 'Hello again' }, base.messages[1]],
+    };
+
+    const clean = mergeAgentFiles(base, dropped, base);
+    expect(clean.data.in_context_message_indices).toEqual([1]);
+    expect(clean.conflicts).toEqual([]);
+
+    const { data, conflicts } = mergeAgentFiles(base, dropped, edited, { strategy: 'theirs' });
+    expect(conflicts).toEqual([
+      {
+        section: 'messages',
+        path: 'in_context_message_indices.msg_1',
+        base: base.messages[0],
+        ours: undefined,
+        theirs: edited.messages[0],
+        resolution: 'theirs',
+      },
+    ]);
+    expect(data.in_context_message_indices).toEqual([0, 1]);
+  });
+
+  it('should report conflicts and resolve them with the configured strategy', () => {
+    const ours: AfAgentSchema = {
+      ...base,
+      system: 'You are terse.',
+      core_memory: { ...base.core_memory, human: { label: 'human', value: 'Ours' } },
+    };
+    const theirs: AfAgentSchema = {
+      ...base,
+      system: 'You are verbose.',
+      core_memory: { ...base.core_memory, human: { label: 'human', value: 'Theirs' } },
+    };
+
+    const { data, conflicts } = mergeAgentFiles(base, ours, theirs, {
+      strategies: { core_memory: 'theirs' },
+    });
+
+    expect(conflicts).toEqual([
+      {
+        section: 'system',
+        path: 'system',
+        base: 'You are helpful.',
+        ours: 'You are terse.',
+        theirs: 'You are verbose.',
+        resolution: 'ours',
+      },
+      {
+        section: 'core_memory',
+        path: 'core_memory.human',
+        base: base.core_memory.human,
+        ours: ours.core_memory.human,
+        theirs: theirs.core_memory.human,
+        resolution: 'theirs',
+      },
+    ]);
+    expect(data.system).toBe('You are terse.');
+    expect(data.core_memory.human.value).toBe('Theirs');
+
+    const reverted = mergeAgentFiles(base, ours, theirs, { strategy: 'base' });
+    expect(reverted.data.system).toBe(base.system);
+  });
+
+  it('should support custom resolvers', () => {
+    const human = (value: string): AfAgentSchema => ({
+      ...base,
+      core_memory: { ...base.core_memory, human: { label: 'human', value } },
+    });
+    const [ours, theirs] = [human('Likes tea'), human('Likes jazz')];
+
+    const { data, conflicts } = mergeAgentFiles(base, ours, theirs, {
+      strategy: (conflict) => {
+        const [a, b] = [conflict.ours, conflict.theirs] as AfCoreMemoryBlock[];
+        return { label: a.label, value: `${a.value}\n${b.value}` };
+      },
+    });
+
+    expect(data.core_memory.human.value).toBe('Likes tea\nLikes jazz');
+    expect(conflicts[0].resolution).toBe('custom');
+  });
+
+  it('should accept list-shaped core memory from Mastra exports', () => {
+    const listed = { ...base, core_memory: Object.values(base.core_memory) } as any;
+    const { data, conflicts } = mergeAgentFiles(listed, listed, base);
+    expect(data.core_memory).toEqual(base.core_memory);
+    expect(conflicts).toEqual([]);
+  });
+
+  it('should reject merges that produce an invalid agent', () => {
+    // Our rule edit and their tool removal combine into a rule for a missing tool
+    const ours: AfAgentSchema = {
+      ...base,
+      tool_rules: [{ tool_name: 'search', rule_type: 'max_calls', rule_content: '9' }],
+    };
+    const theirs: AfAgentSchema = { ...base, tools: [], tool_rules: [] };
+    try {
+      mergeAgentFiles(base, ours, theirs);
+      expect.fail('should have thrown');
+    } catch (error) {
+      expect(error).toBeInstanceOf(AgentFileParseError);
+      expect((error as AgentFileParseError).message).toBe('Merged agent file is invalid');
+      expect((error as AgentFileParseError).validationErrors?.length).toBeGreaterThan(0);
+    }
+  });
+});
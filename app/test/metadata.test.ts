@@ -0,0 +1,81 @@
+/**
+ * @fileoverview Tests for fast metadata extraction
+ */
+
+import { describe, it, expect } from 'vitest';
+import { scanAgentMetadata } from '../src/metadata';
+
+const header = {
+  agent_type: 'letta',
+  name: 'Catalog Agent',
+  description: 'Says "hi" \\ politely',
+  version: '0.1.0',
+  created_at: '2024-01-01T00:00:00Z',
+  tags: ['support', 'en'],
+};
+
+const messages = [
+  { id: 'msg_001', role: 'user', text: 'Nested [brackets] and {braces} "quoted"', timestamp: '2024-01-01T00:00:00Z' },
+  { id: 'msg_002', role: 'assistant', text: 'ok\\"', timestamp: '2024-01-01T00:00:01Z' },
+];
+
+describe('scanAgentMetadata', () => {
+  it('should extract fields and count messages and tools', () => {
+    const json = JSON.stringify({ ...header, messages, tools: [{ name: 't' }], system: 'x' }, null, 2);
+
+    expect(scanAgentMetadata(json)).toEqual({
+      ...header,
+      message_count: 2,
+      tool_count: 1,
+    });
+  });
+
+  it('should stop scanning once every field has been found', () => {
+    const json = JSON.stringify({ ...header, messages, tools: [] });
+    // Everything after the last requested key is never read
+    const truncated = `${json.slice(0, -1)}, "system": "unterminated`;
+
+    expect(scanAgentMetadata(truncated)).toMatchObject({ name: 'Catalog Agent', message_count: 2 });
+  });
+
+  it('should leave absent fields undefined', () => {
+    expect(scanAgentMetadata('{"name": "Only", "tags": "not-an-array"}')).toEqual({
+      name: 'Only',
+      description: undefined,
+      version: undefined,
+      agent_type: undefined,
+      created_at: undefined,
+      tags: undefined,
+      message_count: undefined,
+      tool_count: undefined,
+    });
+  });
+
+  it('should return null for non-object or malformed input', () => {
+    expect(scanAgentMetadata('[1, 2]')).toBeNull();
+    expect(scanAgentMetadata('"string"')).toBeNull();
+    expect(scanAgentMetadata('{"name": "Broken", "messages": [')).toBeNull();
+  });
+
+  it('should return null for garbage in skipped values', () => {
+    const valid = JSON.stringify({ ...header, messages, tools: [] });
+    const broken = [
+      valid.replace('"tools":[]', '"tools":[1 2]'),
+      valid.replace('"tools":[]', '"tools":[}'),
+      valid.replace('"tools":[]', '"tools":[tru]'),
+      valid.replace('"tools":[]', '"tools":[{"name" "t"}]'),
+      valid.replace('"tools":[]', '"tools":["bad \\x escape"]'),
+      valid.replace('"role":"user"', '"role":"user\nline"'),
+      valid.replace('"messages":', '"system": banana, "messages":'),
+      valid.replace('"messages":', '"system": {"nested": [1, 2}}, "messages":'),
+    ];
+    for (const json of broken) {
+      expect(json).not.toBe(valid);
+      expect(scanAgentMetadata(json)).toBeNull();
+    }
+  });
+
+  it('should handle an empty object', () => {
+    expect(scanAgentMetadata(' {} ')).toMatchObject({ name: undefined, message_count: undefined });
+  });
+});
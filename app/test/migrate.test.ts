@@ -0,0 +1,140 @@
+/**
+ * @fileoverview Tests for schema version migrations
+ */
+
+import { describe, it, expect } from 'vitest';
+import { migrateAgentFile, AF_MIGRATIONS, type AfMigration } from '../src/migrate';
+import { AgentFileParseError, parseAgentFileObjectWithReport } from '../src/parser';
+
+const current = {
+  agent_type: 'letta',
+  name: 'Migrated Agent',
+  system: 'You are a helpful assistant.',
+  llm_config: { provider: 'openai', model: 'gpt-4' },
+  core_memory: {
+    persona: { label: 'persona', value: 'I am helpful.' },
+    human: { label: 'human', value: 'The user is curious.' },
+  },
+  messages: [],
+  tools: [],
+  version: '0.1.0',
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+};
+
+/**
+ * Hypothetical history: 0.0.1 named the prompt `system_prompt`, and 0.0.2
+ * stored core memory as a list of blocks
+ */
+const migrations: AfMigration[] = [
+  {
+    from: '0.0.1',
+    to: '0.0.2',
+    description: 'Rename system_prompt to system',
+    up: ({ system_prompt, ...data }) => ({ ...data, system: system_prompt }),
+    down: ({ system, ...data }) => ({ ...data, system_prompt: system }),
+  },
+  {
+    from: '0.0.2',
+    to: '0.1.0',
+    description: 'Key core memory blocks by label',
+    up: (data) => ({
+      ...data,
+      core_memory: Object.fromEntries(
+        (data.core_memory as Array<{ label: string }>).map((block) => [block.label, block])
+      ),
+    }),
+    down: (data) => ({ ...data, core_memory: Object.values(data.core_memory as object) }),
+  },
+];
+
+const legacy = {
+  ...current,
+  system: undefined,
+  system_prompt: current.system,
+  core_memory: Object.values(current.core_memory),
+  version: '0.0.1',
+};
+
+describe('migrateAgentFile', () => {
+  it('should ship a valid built-in registry', () => {
+    expect(migrateAgentFile(current, '0.1.0').migrations).toEqual([]);
+    expect(AF_MIGRATIONS.every((m) => m.from && m.to)).toBe(true);
+  });
+
+  it('should upgrade through every step in order', () => {
+    const { data, migrations: applied } = migrateAgentFile(legacy, '0.1.0', { migrations });
+
+    expect(data).toEqual(JSON.parse(JSON.stringify(current)));
+    expect(applied).toEqual([
+      { from: '0.0.1', to: '0.0.2', direction: 'upgrade', description: 'Rename system_prompt to system' },
+      { from: '0.0.2', to: '0.1.0', direction: 'upgrade', description: 'Key core memory blocks by label' },
+    ]);
+  });
+
+  it('should downgrade for older consumers', () => {
+    const { data, migrations: applied } = migrateAgentFile(current, '0.0.1', { migrations });
+
+    expect(data).toMatchObject({ version: '0.0.1', system_prompt: current.system });
+    expect(Array.isArray(data.core_memory)).toBe(true);
+    expect(applied.map((m) => [m.from, m.to, m.direction])).toEqual([
+      ['0.1.0', '0.0.2', 'downgrade'],
+      ['0.0.2', '0.0.1', 'downgrade'],
+    ]);
+  });
+
+  it('should not modify its input', () => {
+    const input = JSON.parse(JSON.stringify(legacy));
+    migrateAgentFile(input, '0.1.0', { migrations });
+    expect(input).toEqual(JSON.parse(JSON.stringify(legacy)));
+  });
+
+  it('should fail without a migration path', () => {
+    expect(() => migrateAgentFile(current, '2.0.0', { migrations })).toThrowError(
+      /No migration path from version 0.1.0 to 2.0.0/
+    );
+    expect(() => migrateAgentFile({ ...current, version: 'latest' })).toThrowError(
+      AgentFileParseError
+    );
+  });
+
+  it('should refuse irreversible downgrades', () => {
+    const oneWay = migrations.map(({ down: _down, ...rest }) => rest);
+    expect(() => migrateAgentFile(current, '0.0.2', { migrations: oneWay })).toThrowError(
+      /not reversible/
+    );
+  });
+
+  it('should reject registries that do not increase the version', () => {
+    const backwards = [{ ...migrations[0], from: '0.1.0', to: '0.0.1' }];
+    expect(() => migrateAgentFile(current, '0.1.0', { migrations: backwards })).toThrowError(
+      /must increase/
+    );
+  });
+});
+
+describe('parser integration', () => {
+  it('should upgrade older files before validation and report the steps', () => {
+    const { data, report } = parseAgentFileObjectWithReport(legacy, { migrations });
+
+    expect(data.system).toBe(current.system);
+    expect(data.core_memory.persona.value).toBe('I am helpful.');
+    expect(report.migrations.map((m) => m.to)).toEqual(['0.0.2', '0.1.0']);
+    // Unknown fields are detected after migration
+    expect(report.unknownFields).toEqual([]);
+  });
+
+  it('should leave files alone when migration is disabled', () => {
+    expect(() =>
+      parseAgentFileObjectWithReport(legacy, { migrations, migrate: false })
+    ).toThrowError(AgentFileParseError);
+  });
+
+  it('should not touch current or newer files', () => {
+    expect(parseAgentFileObjectWithReport(current, { migrations }).report.migrations).toEqual([]);
+    expect(
+      parseAgentFileObjectWithReport({ ...current, version: '0.2.0' }, { migrations }).report
+        .migrations
+    ).toEqual([]);
+  });
+});
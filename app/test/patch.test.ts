@@ -0,0 +1,220 @@
+/**
+ * @fileoverview Tests for JSON Patch support
+ */
+
+import { describe, it, expect } from 'vitest';
+import { applyAgentPatch, createAgentPatch, type AgentPatch } from '../src/patch';
+import { AgentFileParseError } from '../src/parser';
+import { parseJsonPointer } from '../src/pointer';
+import type { AfAgentSchema } from '../src/types';
+
+const agent: AfAgentSchema = {
+  agent_type: 'letta',
+  name: 'Admin Agent',
+  system: 'You are helpful.',
+  llm_config: { provider: 'openai', model: 'gpt-4', temperature: 0.2 },
+  core_memory: {
+    persona: { label: 'persona', value: 'I am helpful.' },
+    human: { label: 'human', value: 'The user is curious.' },
+  },
+  messages: [
+    { id: 'msg_1', role: 'user', text: 'Hello', timestamp: '2024-01-01T00:00:00Z' },
+    { id: 'msg_2', role: 'assistant', text: 'Hi!', timestamp: '2024-01-01T00:00:01Z' },
+  ],
+  in_context_message_indices: [0, 1],
+  tools: [
+    {
+      name: 'search',
+      type: 'json_schema',
+      description: 'Search the web',
+      parameters: { type: 'object', properties: { query: { type: 'string' } } },
+    },
+  ],
+  tool_rules: [{ tool_name: 'search', rule_type: 'max_calls', rule_content: '5' }],
+  metadata_: { 'team/owner': 'platform' },
+  version: '0.1.0',
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+};
+
+const snapshot = JSON.stringify(agent);
+
+/**
+ * Run a patch expected to fail and return the error
+ */
+function rejection(patch: AgentPatch): AgentFileParseError {
+  try {
+    applyAgentPatch(agent, patch);
+  } catch (error) {
+    expect(error).toBeInstanceOf(AgentFileParseError);
+    // A failed patch never touches the input
+    expect(JSON.stringify(agent)).toBe(snapshot);
+    return error as AgentFileParseError;
+  }
+  throw new Error('Expected the patch to be rejected');
+}
+
+describe('parseJsonPointer', () => {
+  it('should split and unescape reference tokens', () => {
+    expect(parseJsonPointer('')).toEqual([]);
+    expect(parseJsonPointer('/metadata_/team~1owner')).toEqual(['metadata_', 'team/owner']);
+    expect(parseJsonPointer('/a~0b/0')).toEqual(['a~b', '0']);
+  });
+
+  it('should reject malformed pointers', () => {
+    expect(() => parseJsonPointer('messages/0')).toThrow('Invalid JSON Pointer');
+    expect(() => parseJsonPointer('/a~2b')).toThrow('Invalid JSON Pointer');
+  });
+});
+
+describe('applyAgentPatch', () => {
+  it('should apply every operation type without modifying the input', () => {
+    const patched = applyAgentPatch(agent, [
+      { op: 'test', path: '/llm_config/model', value: 'gpt-4' },
+      { op: 'replace', path: '/core_memory/persona/value', value: 'I am concise.' },
+      { op: 'add', path: '/core_memory/notes', value: { label: 'notes', value: 'Likes tea' } },
+      { op: 'remove', path: '/llm_config/temperature' },
+      { op: 'copy', from: '/metadata_/team~1owner', path: '/metadata_/reviewer' },
+      { op: 'move', from: '/metadata_/team~1owner', path: '/metadata_/owner' },
+      {
+        op: 'add',
+        path: '/messages/-',
+        value: { id: 'msg_3', role: 'user', text: 'Bye', timestamp: '2024-01-01T00:00:02Z' },
+      },
+      { op: 'add', path: '/in_context_message_indices/0', value: 2 },
+    ]);
+
+    expect(patched.core_memory.persona.value).toBe('I am concise.');
+    expect(patched.core_memory.notes.value).toBe('Likes tea');
+    expect(patched.llm_config.temperature).toBeUndefined();
+    expect(patched.metadata_).toEqual({ reviewer: 'platform', owner: 'platform' });
+    expect(patched.messages.map((m) => m.id)).toEqual(['msg_1', 'msg_2', 'msg_3']);
+    expect(patched.in_context_message_indices).toEqual([2, 0, 1]);
+    expect(JSON.stringify(agent)).toBe(snapshot);
+  });
+
+  it('should not share values with the patch', () => {
+    const value = { label: 'notes', value: 'Original' };
+    const patched = applyAgentPatch(agent, [{ op: 'add', path: '/core_memory/notes', value }]);
+    value.value = 'Changed later';
+    expect(patched.core_memory.notes.value).toBe('Original');
+  });
+
+  it('should report the failing operation and stop', () => {
+    const error = rejection([
+      { op: 'replace', path: '/name', value: 'Renamed' },
+      { op: 'test', path: '/llm_config/model', value: 'gpt-3.5' },
+    ]);
+    expect(error.message).toBe(
+      'Patch operation 1 (test /llm_config/model) failed: ' +
+        'Value at "/llm_config/model" does not match'
+    );
+    expect(error.validationErrors).toEqual([
+      {
+        path: 'llm_config.model',
+        message: 'Value at "/llm_config/model" does not match',
+        code: 'test_failed',
+      },
+    ]);
+  });
+
+  it('should reject missing paths and malformed operations', () => {
+    const code = (patch: AgentPatch) => rejection(patch).validationErrors?.[0].code;
+
+    expect(code([{ op: 'replace', path: '/tools/3/name', value: 'x' }])).toBe('path_not_found');
+    expect(code([{ op: 'remove', path: '/core_memory/notes' }])).toBe('path_not_found');
+    expect(code([{ op: 'add', path: '/messages/5', value: {} }])).toBe('path_not_found');
+    expect(code([{ op: 'add', path: '/__proto__/polluted', value: true }])).toBe(
+      'path_not_found'
+    );
+    expect(code([{ op: 'replace', path: 'name', value: 'x' }])).toBe('invalid_pointer');
+    expect(code([{ op: 'add', path: '/name' } as any])).toBe('invalid_operation');
+    expect(code([{ op: 'rename', path: '/name' } as any])).toBe('invalid_operation');
+    expect(code([{ op: 'move', from: '/llm_config', path: '/llm_config/inner' }])).toBe(
+      'invalid_operation'
+    );
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+
+  it('should reject operations that are not objects', () => {
+    // Replayed audit logs are untyped JSON
+    const replayed = JSON.parse('[{"op": "replace", "path": "/name", "value": "x"}, null]');
+    const error = rejection(replayed);
+    expect(error.message).toBe('Patch operation 1 failed: Operation must be an object');
+    expect(error.validationErrors).toEqual([
+      { path: '', message: 'Operation must be an object', code: 'invalid_operation' },
+    ]);
+    for (const operation of ['remove', 42, ['add']]) {
+      expect(rejection([operation] as any).validationErrors?.[0].code).toBe('invalid_operation');
+    }
+    expect(rejection(JSON.parse('{"op": "remove"}')).message).toBe(
+      'Patch must be an array of operations'
+    );
+  });
+
+  it('should re-validate the schema and its cross-field checks', () => {
+    const removed = rejection([{ op: 'remove', path: '/core_memory/persona' }]);
+    expect(removed.message).toBe('Patched agent file is invalid');
+    expect(removed.validationErrors).toEqual([
+      expect.objectContaining({ path: 'core_memory' }),
+    ]);
+
+    // Renaming a tool leaves its rule pointing at a tool that no longer exists
+    const renamed = rejection([{ op: 'replace', path: '/tools/0/name', value: 'web_search' }]);
+    expect(renamed.validationErrors).toEqual([
+      {
+        path: 'tool_rules',
+        message: 'tool_rules references non-existent tools',
+        code: 'custom',
+      },
+    ]);
+
+    const outOfRange = rejection([{ op: 'remove', path: '/messages/1' }]);
+    expect(outOfRange.validationErrors?.[0].path).toBe('in_context_message_indices');
+  });
+});
+
+describe('createAgentPatch', () => {
+  const updated: AfAgentSchema = {
+    ...agent,
+    name: 'Admin Agent v2',
+    llm_config: { provider: 'openai', model: 'gpt-4o', max_tokens: 500 },
+    core_memory: {
+      ...agent.core_memory,
+      persona: { label: 'persona', value: 'I am concise.' },
+    },
+    messages: [
+      { id: 'msg_0', role: 'system', text: 'Session start', timestamp: '2024-01-01T00:00:00Z' },
+      ...agent.messages,
+    ],
+    in_context_message_indices: [1, 2],
+    tool_rules: undefined,
+    metadata_: { 'team/owner': 'research' },
+  };
+
+  it('should produce a minimal patch', () => {
+    expect(createAgentPatch(agent, updated)).toEqual([
+      { op: 'remove', path: '/tool_rules' },
+      { op: 'replace', path: '/name', value: 'Admin Agent v2' },
+      { op: 'remove', path: '/llm_config/temperature' },
+      { op: 'replace', path: '/llm_config/model', value: 'gpt-4o' },
+      { op: 'add', path: '/llm_config/max_tokens', value: 500 },
+      { op: 'replace', path: '/core_memory/persona/value', value: 'I am concise.' },
+      { op: 'add', path: '/messages/0', value: updated.messages[0] },
+      { op: 'replace', path: '/in_context_message_indices/0', value: 1 },
+      { op: 'replace', path: '/in_context_message_indices/1', value: 2 },
+      { op: 'replace', path: '/metadata_/team~1owner', value: 'research' },
+    ]);
+    expect(createAgentPatch(agent, JSON.parse(snapshot))).toEqual([]);
+  });
+
+  it('should replay to the updated agent', () => {
+    const patch = createAgentPatch(agent, updated);
+    expect(applyAgentPatch(agent, patch)).toEqual(JSON.parse(JSON.stringify(updated)));
+
+    const trimmed = { ...agent, messages: agent.messages.slice(0, 1), tools: [] };
+    delete trimmed.tool_rules;
+    delete trimmed.in_context_message_indices;
+    expect(applyAgentPatch(agent, createAgentPatch(agent, trimmed))).toEqual(trimmed);
+  });
+});
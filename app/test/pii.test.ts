@@ -0,0 +1,199 @@
+/**
+ * @fileoverview Tests for PII redaction
+ */
+
+import { describe, it, expect } from 'vitest';
+import { redactPii, PII_DETECTORS, type PiiDetector } from '../src/pii';
+import { exportMastraAgent } from '../src/export';
+import type { AfAgentSchema } from '../src/types';
+
+const agent: AfAgentSchema = {
+  agent_type: 'letta',
+  name: 'Support Agent',
+  system: 'Contact support@example.com for help.',
+  llm_config: { provider: 'openai', model: 'gpt-4' },
+  core_memory: {
+    persona: { label: 'persona', value: 'I am helpful.' },
+    human: { label: 'human', value: 'Name: Jane. Email: Jane@Example.com' },
+  },
+  messages: [
+    {
+      id: 'msg_1',
+      role: 'user',
+      text: 'Reach me at jane@example.com or +1 (555) 123-4567.',
+      timestamp: '2024-01-01T00:00:00Z',
+    },
+    {
+      id: 'msg_2',
+      role: 'assistant',
+      text: 'Looking up jane@example.com now.',
+      timestamp: '2024-01-01T00:00:01Z',
+      tool_calls: [{ id: 'call_1', name: 'lookup', arguments: { email: 'jane@example.com' } }],
+    },
+    {
+      id: 'msg_3',
+      role: 'tool',
+      text: '',
+      timestamp: '2024-01-01T00:00:02Z',
+      tool_results: [
+        { id: 'call_1', name: 'lookup', result: { email: 'bob@example.com', orders: 3 } },
+      ],
+    },
+  ],
+  tools: [],
+  version: '0.1.0',
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+};
+
+const redactText = (text: string) =>
+  redactPii({ ...agent, core_memory: {}, messages: [{ ...agent.messages[0], text }] }).data
+    .messages[0].text;
+
+describe('PII_DETECTORS', () => {
+  it('should redact emails, phone numbers, cards and IP addresses', () => {
+    expect(redactText('Mail a.b+c@mail.example.org')).toBe('Mail [EMAIL_1]');
+    expect(redactText('Call 555-123-4567 or +44 20 7946 0958')).toBe(
+      'Call [PHONE_1] or [PHONE_2]'
+    );
+    expect(redactText('Card 4111 1111 1111 1111')).toBe('Card [CREDIT_CARD_1]');
+    expect(redactText('From 192.168.0.1 and 2001:db8::ff00:42:8329')).toBe(
+      'From [IP_ADDRESS_1] and [IP_ADDRESS_2]'
+    );
+  });
+
+  it('should leave similar-looking values alone', () => {
+    const text = 'Order 12345678 at 12:30:45, card 4111 1111 1111 1112, v1.2.3';
+    expect(redactText(text)).toBe(text);
+    expect(
+      redactText('Meeting on 2024-01-15 at 10:30, version 1.2.3.4, call +1 415-555-0100')
+    ).toBe('Meeting on 2024-01-15 at 10:30, version 1.2.3.4, call [PHONE_1]');
+    for (const similar of [
+      'Due 2024-01-15 or 2024.01.15',
+      'Zip 94107-1234',
+      'Build v1.2.3.4, Version 10.0.0.1, release 1.2.3.4.5',
+      'Ticket 1234 5678 90',
+    ]) {
+      expect(redactText(similar)).toBe(similar);
+    }
+    expect(PII_DETECTORS.map((detector) => detector.id)).toEqual([
+      'email',
+      'credit_card',
+      'ip_address',
+      'phone',
+    ]);
+  });
+});
+
+describe('redactPii', () => {
+  it('should map the same value to the same placeholder everywhere', () => {
+    const { data } = redactPii(agent);
+
+    expect(data.core_memory.human.value).toBe('Name: Jane. Email: [EMAIL_1]');
+    expect(data.messages[0].text).toBe('Reach me at [EMAIL_1] or [PHONE_1].');
+    expect(data.messages[1].text).toBe('Looking up [EMAIL_1] now.');
+    expect(data.messages[1].tool_calls?.[0].arguments).toEqual({ email: '[EMAIL_1]' });
+    expect(data.messages[2].tool_results?.[0].result).toEqual({ email: '[EMAIL_2]', orders: 3 });
+  });
+
+  it('should leave the system prompt and the input untouched', () => {
+    const { data } = redactPii(agent);
+    expect(data.system).toBe(agent.system);
+    expect(agent.messages[0].text).toContain('jane@example.com');
+    expect(data.messages[0]).not.toHaveProperty('tool_calls');
+    expect(data.messages[2].tool_results?.[0]).not.toHaveProperty('error');
+  });
+
+  it('should summarize without exposing values', () => {
+    const { summary } = redactPii(agent);
+
+    expect(summary).toEqual({
+      occurrences: 6,
+      values: 3,
+      byDetector: {
+        email: { occurrences: 5, values: 2 },
+        phone: { occurrences: 1, values: 1 },
+      },
+      paths: [
+        'core_memory.human.value',
+        'messages.0.text',
+        'messages.1.text',
+        'messages.1.tool_calls.0.arguments.email',
+        'messages.2.tool_results.0.result.email',
+      ],
+    });
+    expect(JSON.stringify(summary)).not.toContain('example.com');
+  });
+
+  it('should support custom detectors and placeholders', () => {
+    const detectors: PiiDetector[] = [
+      ...PII_DETECTORS,
+      { id: 'customer_id', pattern: /\bCUST-\d{4}\b/g },
+      {
+        id: 'name',
+        detect: (text) =>
+          [...text.matchAll(/\bJane\b/g)].map((m) => ({ start: m.index!, end: m.index! + 4 })),
+      },
+    ];
+    const { data } = redactPii(
+      { ...agent, messages: [{ ...agent.messages[0], text: 'Jane is CUST-0042' }] },
+      { detectors, placeholder: (id, n) => `<${id}#${n}>` }
+    );
+
+    expect(data.messages[0].text).toBe('<name#1> is <customer_id#1>');
+    expect(data.core_memory.human.value).toBe('Name: <name#1>. Email: <email#1>');
+  });
+});
+
+describe('exportMastraAgent', () => {
+  const config = { name: 'Exported', instructions: 'Be brief.' } as any;
+  const memory = {
+    workingMemory: { human: 'Email jane@example.com' },
+    messages: [{ role: 'user' as const, content: 'I am jane@example.com' }],
+  };
+
+  it('should redact messages and working memory when enabled', () => {
+    const result = exportMastraAgent(config, memory as any, { redactPii: true });
+    const exported = JSON.parse(result.content);
+
+    expect(result.content).not.toContain('jane@example.com');
+    expect(exported.core_memory[0].value).toBe('Email [EMAIL_1]');
+    expect(exported.messages[0].text).toBe('I am [EMAIL_1]');
+    expect(result.metadata.redaction).toMatchObject({
+      occurrences: 2,
+      values: 1,
+      paths: ['core_memory.0.value', 'messages.0.text'],
+    });
+  });
+
+  it('should leave no raw PII anywhere in message metadata', () => {
+    const withTools = {
+      messages: [
+        {
+          role: 'assistant' as const,
+          content: 'Sending the invite',
+          metadata: {
+            userEmail: 'bob@example.com',
+            toolCalls: [{ id: 'call_1', name: 'send', arguments: { to: 'bob@example.com' } }],
+          },
+        },
+      ],
+    };
+    const result = exportMastraAgent(config, withTools as any, { redactPii: true });
+    const exported = JSON.parse(result.content);
+
+    expect(result.content).not.toContain('bob@example.com');
+    expect(exported.messages[0].metadata).toEqual({ userEmail: '[EMAIL_1]' });
+    expect(exported.messages[0].tool_calls[0].arguments).toEqual({ to: '[EMAIL_1]' });
+    expect(result.metadata.redaction?.paths).toEqual([
+      'messages.0.tool_calls.0.arguments.to',
+      'messages.0.metadata.userEmail',
+    ]);
+  });
+
+  it('should not redact by default', () => {
+    const result = exportMastraAgent(config, memory as any);
+    expect(result.content).toContain('jane@example.com');
+    expect(result.metadata.redaction).toBeUndefined();
+  });
+});
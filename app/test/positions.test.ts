@@ -0,0 +1,116 @@
+/**
+ * @fileoverview Tests for source positions in validation errors
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseJsonWithPositions,
+  formatValidationErrors,
+  JsonSyntaxError,
+} from '../src/positions';
+import { parseAgentFile, getValidationErrors, AgentFileParseError } from '../src/parser';
+
+const validAgent = {
+  agent_type: 'letta',
+  name: 'Positioned Agent',
+  system: 'You are a helpful assistant.',
+  llm_config: { provider: 'openai', model: 'gpt-4' },
+  core_memory: {
+    persona: { label: 'persona', value: 'I am helpful.' },
+    human: { label: 'human', value: 'The user is curious.' },
+  },
+  messages: [
+    { id: 'msg_001', role: 'user', text: 'Hi', timestamp: '2024-01-01T00:00:00Z' },
+    { id: 'msg_002', role: 'assistant', text: 'Hello', timestamp: 'yesterday' },
+  ],
+  tools: [],
+  version: '0.1.0',
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+};
+
+const invalidJson = JSON.stringify(validAgent, null, 2);
+
+describe('parseJsonWithPositions', () => {
+  it('should produce the same value as JSON.parse', () => {
+    const text = '{"a": [1, -2.5e3, "x\\"y", true, null], "b": {"c": "é😀"}}';
+    expect(parseJsonWithPositions(text).value).toEqual(JSON.parse(text));
+  });
+
+  it('should record line, column and byte offset of values', () => {
+    const text = '{\n  "é": "x",\n  "b": [10, 20]\n}';
+    const { positions } = parseJsonWithPositions(text);
+
+    expect(positions.get('')).toEqual({ line: 1, column: 1, offset: 0 });
+    expect(positions.get('é')).toEqual({ line: 2, column: 8, offset: 10 });
+    expect(positions.get('b.1')).toEqual({ line: 3, column: 13, offset: 27 });
+  });
+
+  it('should locate syntax errors', () => {
+    try {
+      parseJsonWithPositions('{\n  "a": 1,\n  }');
+      expect.fail('Expected syntax error');
+    } catch (error) {
+      expect(error).toBeInstanceOf(JsonSyntaxError);
+      expect((error as JsonSyntaxError).position).toMatchObject({ line: 3, column: 3 });
+    }
+  });
+});
+
+describe('validation error positions', () => {
+  it('should attach positions to getValidationErrors results', () => {
+    const errors = getValidationErrors(invalidJson)!;
+    const timestampError = errors.find((error) => error.path === 'messages.1.timestamp');
+
+    expect(timestampError).toMatchObject({ line: 30, column: 20 });
+  });
+
+  it('should attach positions to AgentFileParseError validation errors', () => {
+    try {
+      parseAgentFile(invalidJson);
+      expect.fail('Expected validation error');
+    } catch (error) {
+      const parseError = error as AgentFileParseError;
+      expect(parseError.validationErrors![0]).toMatchObject({
+        path: 'messages.1.timestamp',
+        line: 30,
+      });
+    }
+  });
+
+  it('should locate missing fields at their enclosing object', () => {
+    const { name, ...withoutName } = validAgent;
+    const errors = getValidationErrors(JSON.stringify(withoutName, null, 2))!;
+    expect(errors.find((error) => error.path === 'name')).toMatchObject({ line: 1, column: 1 });
+  });
+
+  it('should report the location of JSON syntax errors', () => {
+    try {
+      parseAgentFile('{\n  "name": "x",\n  oops\n}');
+      expect.fail('Expected syntax error');
+    } catch (error) {
+      const parseError = error as AgentFileParseError;
+      expect(parseError.message).toMatch(/^Invalid JSON format: .*line 3, column 3/);
+      expect(parseError.position).toMatchObject({ line: 3, column: 3 });
+    }
+  });
+});
+
+describe('formatValidationErrors', () => {
+  it('should print a code frame for each error', () => {
+    const errors = getValidationErrors(invalidJson)!;
+    const output = formatValidationErrors(invalidJson, errors, { fileName: 'agent.af' });
+
+    expect(output).toContain('messages.1.timestamp: Timestamp must be in ISO 8601 format');
+    expect(output).toContain('(agent.af:30:20)');
+    expect(output).toContain('> 30 |       "timestamp": "yesterday"');
+    expect(output).toContain(`     | ${' '.repeat(19)}^`);
+  });
+
+  it('should compute positions when errors have none', () => {
+    const output = formatValidationErrors(invalidJson, [
+      { path: 'messages.1.role', message: 'Bad role' },
+    ]);
+    expect(output).toContain('(28:15)');
+  });
+});
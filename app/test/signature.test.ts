@@ -0,0 +1,201 @@
+/**
+ * @fileoverview Tests for agent file signing and verification
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Readable } from 'stream';
+import { generateKeyPairSync } from 'crypto';
+import {
+  signAgentFile,
+  verifyAgentFile,
+  getSigningKeyId,
+  SIGNATURE_METADATA_KEY,
+} from '../src/signature';
+import {
+  AgentFileParseError,
+  AgentFileSignatureError,
+  parseAgentFile,
+  parseAgentFileWithReport,
+} from '../src/parser';
+import { parseAgentFileStream } from '../src/stream';
+import { serializeAgentFile } from '../src/canonical';
+import type { AfAgentSchema } from '../src/types';
+
+const agent: AfAgentSchema = {
+  agent_type: 'letta',
+  name: 'Signed Agent',
+  system: 'You are helpful.',
+  llm_config: { provider: 'openai', model: 'gpt-4' },
+  core_memory: {
+    persona: { label: 'persona', value: 'I am helpful.' },
+    human: { label: 'human', value: 'The user is curious.' },
+  },
+  messages: [
+    { id: 'msg_1', role: 'user', text: 'Hello', timestamp: '2024-01-01T00:00:00Z' },
+  ],
+  tools: [],
+  metadata_: { team: 'platform' },
+  version: '0.1.0',
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+};
+
+const signer = generateKeyPairSync('ed25519');
+const stranger = generateKeyPairSync('ed25519');
+const clock = () => new Date('2024-02-03T04:05:06Z');
+
+const signed = signAgentFile(agent, signer.privateKey, { clock });
+
+describe('signAgentFile', () => {
+  it('should embed the signature in reserved metadata', () => {
+    expect(signed.metadata_).toEqual({
+      team: 'platform',
+      [SIGNATURE_METADATA_KEY]: {
+        algorithm: 'ed25519',
+        key_id: getSigningKeyId(signer.publicKey),
+        signed_at: '2024-02-03T04:05:06.000Z',
+        signature: expect.any(String),
+      },
+    });
+    expect(agent.metadata_).toEqual({ team: 'platform' });
+  });
+
+  it('should replace an existing signature when re-signing', () => {
+    const resigned = signAgentFile(signed, stranger.privateKey, { keyId: 'stranger' });
+    expect(verifyAgentFile(resigned, { stranger: stranger.publicKey }).status).toBe('valid');
+  });
+
+  it('should accept PEM keys and reject non-Ed25519 keys', () => {
+    const pem = signer.privateKey.export({ type: 'pkcs8', format: 'pem' }) as string;
+    expect(signAgentFile(agent, pem, { clock })).toEqual(signed);
+
+    const rsa = generateKeyPairSync('rsa', { modulusLength: 1024 });
+    expect(() => signAgentFile(agent, rsa.privateKey)).toThrow(TypeError);
+  });
+});
+
+describe('verifyAgentFile', () => {
+  it('should accept files signed by a trusted key', () => {
+    expect(verifyAgentFile(signed, [stranger.publicKey, signer.publicKey])).toEqual({
+      valid: true,
+      status: 'valid',
+      keyId: getSigningKeyId(signer.privateKey),
+      signedAt: '2024-02-03T04:05:06.000Z',
+    });
+  });
+
+  it('should verify files after a serialization round trip', () => {
+    const reloaded = JSON.parse(serializeAgentFile(signed));
+    expect(verifyAgentFile(reloaded, [signer.publicKey]).valid).toBe(true);
+  });
+
+  it('should detect tampering', () => {
+    const tampered = { ...signed, system: 'You are evil.' };
+    expect(verifyAgentFile(tampered, [signer.publicKey]).status).toBe('invalid_signature');
+
+    const section = signed.metadata_![SIGNATURE_METADATA_KEY] as Record<string, unknown>;
+    const backdated = {
+      ...signed,
+      metadata_: {
+        ...signed.metadata_,
+        [SIGNATURE_METADATA_KEY]: { ...section, signed_at: '2020-01-01T00:00:00Z' },
+      },
+    };
+    expect(verifyAgentFile(backdated, [signer.publicKey]).status).toBe('invalid_signature');
+  });
+
+  it('should report unsigned, malformed and untrusted files', () => {
+    expect(verifyAgentFile(agent, [signer.publicKey])).toEqual({
+      valid: false,
+      status: 'unsigned',
+    });
+    expect(
+      verifyAgentFile(
+        { ...agent, metadata_: { [SIGNATURE_METADATA_KEY]: { algorithm: 'rsa' } } },
+        [signer.publicKey]
+      ).status
+    ).toBe('malformed');
+    expect(verifyAgentFile(signed, [stranger.publicKey]).status).toBe('untrusted_key');
+  });
+
+  it('should not trust a key listed under another ID', () => {
+    const keyId = getSigningKeyId(signer.publicKey);
+    expect(verifyAgentFile(signed, { [keyId]: stranger.publicKey }).status).toBe(
+      'invalid_signature'
+    );
+  });
+
+  it('should report malformed trusted keys instead of throwing', () => {
+    const keyId = getSigningKeyId(signer.publicKey);
+    const garbled = '-----BEGIN PUBLIC KEY-----\nnot a key\n-----END PUBLIC KEY-----\n';
+
+    expect(verifyAgentFile(signed, { [keyId]: garbled })).toEqual({
+      valid: false,
+      status: 'invalid_key',
+      keyId,
+      signedAt: '2024-02-03T04:05:06.000Z',
+    });
+    expect(verifyAgentFile(signed, [garbled, stranger.publicKey]).status).toBe('invalid_key');
+    // A readable match wins over keys that cannot be loaded
+    expect(verifyAgentFile(signed, [garbled, signer.publicKey]).status).toBe('valid');
+    expect(verifyAgentFile(signed, { other: garbled }).status).toBe('untrusted_key');
+  });
+});
+
+describe('signature policies during parse', () => {
+  const json = serializeAgentFile(signed);
+  const parseError = (input: string, options: object) => {
+    try {
+      parseAgentFile(input, options);
+    } catch (error) {
+      return error as AgentFileSignatureError;
+    }
+    expect.fail('should have thrown');
+  };
+
+  it('should report verified signatures', () => {
+    const { report } = parseAgentFileWithReport(json, { trustedKeys: [signer.publicKey] });
+    expect(report.signature?.status).toBe('valid');
+    expect(parseAgentFileWithReport(json).report.signature).toBeUndefined();
+  });
+
+  it('should reject unsigned files only when signatures are required', () => {
+    const unsigned = serializeAgentFile(agent);
+    expect(() => parseAgentFile(unsigned, { trustedKeys: [signer.publicKey] })).not.toThrow();
+
+    const error = parseError(unsigned, {
+      requireSignature: true,
+      trustedKeys: [signer.publicKey],
+    });
+    expect(error).toBeInstanceOf(AgentFileSignatureError);
+    expect(error).toBeInstanceOf(AgentFileParseError);
+    expect(error.status).toBe('unsigned');
+    expect(error.message).toBe('Agent file is not signed');
+  });
+
+  it('should reject tampered and untrusted files', () => {
+    const tampered = json.replace('You are helpful.', 'You are evil.');
+    expect(parseError(tampered, { trustedKeys: [signer.publicKey] }).status).toBe(
+      'invalid_signature'
+    );
+
+    const error = parseError(json, { requireSignature: true });
+    expect(error.status).toBe('untrusted_key');
+    expect(error.keyId).toBe(getSigningKeyId(signer.publicKey));
+  });
+
+  it('should reject files whose trusted key cannot be loaded', () => {
+    const keyId = getSigningKeyId(signer.publicKey);
+    const error = parseError(json, { trustedKeys: ['not a PEM key'] });
+    expect(error.status).toBe('invalid_key');
+    expect(error.message).toBe(
+      `Trusted key for the agent file signature cannot be loaded (key ${keyId})`
+    );
+  });
+
+  it('should refuse signature options when streaming', async () => {
+    await expect(
+      parseAgentFileStream(Readable.from([json]), { requireSignature: true })
+    ).rejects.toThrow('Signatures cannot be verified while streaming');
+  });
+});
@@ -0,0 +1,228 @@
+/**
+ * @fileoverview Tests for the streaming agent file parser
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Readable } from 'stream';
+import { parseAgentFileStream } from '../src/stream';
+import { AgentFileParseError } from '../src/parser';
+import type { AfMigration } from '../src/migrate';
+import type { AfMessage } from '../src/types';
+
+const header = {
+  agent_type: 'letta',
+  name: 'Streaming Agent',
+  system: 'You are a helpful assistant.',
+  llm_config: { provider: 'openai', model: 'gpt-4' },
+  core_memory: {
+    persona: { label: 'persona', value: 'I am helpful.' },
+    human: { label: 'human', value: 'The user likes café au lait ☕.' },
+  },
+  tools: [],
+  version: '0.1.0',
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+};
+
+const messages: AfMessage[] = Array.from({ length: 5 }, (_, i) => ({
+  id: `msg_${i}`,
+  role: i % 2 === 0 ? 'user' : 'assistant',
+  text: `Message ${i} with "quotes", {braces} and [brackets] ✓`,
+  timestamp: '2024-01-01T00:00:00Z',
+}));
+
+/**
+ * Split text into fixed-size byte chunks, deliberately cutting multi-byte characters
+ */
+function toChunks(text: string, size: number): Uint8Array[] {
+  const bytes = new TextEncoder().encode(text);
+  const chunks: Uint8Array[] = [];
+  for (let i = 0; i < bytes.length; i += size) {
+    chunks.push(bytes.slice(i, i + size));
+  }
+  return chunks;
+}
+
+async function collect(iterable: AsyncIterable<AfMessage>): Promise<AfMessage[]> {
+  const result: AfMessage[] = [];
+  for await (const message of iterable) {
+    result.push(message);
+  }
+  return result;
+}
+
+describe('parseAgentFileStream', () => {
+  it('should parse a Node Readable in small chunks', async () => {
+    const json = JSON.stringify({ ...header, messages }, null, 2);
+    const stream = await parseAgentFileStream(Readable.from(toChunks(json, 7)));
+
+    expect(stream.header.name).toBe('Streaming Agent');
+    expect(stream.header.core_memory.human.value).toContain('☕');
+    expect(await collect(stream.messages)).toEqual(messages);
+  });
+
+  it('should parse a Web ReadableStream', async () => {
+    const json = JSON.stringify({ ...header, messages });
+    const chunks = toChunks(json, 16);
+    const webStream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        chunks.forEach((chunk) => controller.enqueue(chunk));
+        controller.close();
+      },
+    });
+
+    const stream = await parseAgentFileStream(webStream);
+    expect(await collect(stream.messages)).toHaveLength(5);
+  });
+
+  it('should reject an invalid header before reading messages', async () => {
+    const json = JSON.stringify({ ...header, llm_config: { provider: 'openai' }, messages });
+    await expect(parseAgentFileStream(Readable.from([json]))).rejects.toThrowError(
+      AgentFileParseError
+    );
+  });
+
+  it('should report the index of an invalid message', async () => {
+    const broken = [...messages];
+    broken[3] = { ...broken[3], role: 'robot' as any };
+    const json = JSON.stringify({ ...header, messages: broken });
+    const stream = await parseAgentFileStream(Readable.from([json]));
+
+    const received: AfMessage[] = [];
+    try {
+      for await (const message of stream.messages) {
+        received.push(message);
+      }
+      expect.fail('Expected invalid message to throw');
+    } catch (error) {
+      expect(error).toBeInstanceOf(AgentFileParseError);
+      expect((error as AgentFileParseError).validationErrors![0].path).toBe('messages.3.role');
+    }
+    expect(received).toHaveLength(3);
+  });
+
+  it('should buffer messages that precede required header fields', async () => {
+    const { tools, ...rest } = header;
+    const json = JSON.stringify({ ...rest, messages, tools });
+    const stream = await parseAgentFileStream(Readable.from([json]));
+
+    expect(stream.header.tools).toEqual([]);
+    expect(await collect(stream.messages)).toHaveLength(5);
+  });
+
+  it('should bound the messages buffered before required header fields', async () => {
+    const { tools, llm_config, ...rest } = header;
+    const json = JSON.stringify({ ...rest, messages, tools, llm_config });
+    await expect(
+      parseAgentFileStream(Readable.from([json]), { maxValueLength: 200 })
+    ).rejects.toThrowError(
+      'Messages before the required header fields exceed 200 characters; ' +
+        'move llm_config, tools before "messages" or use parseAgentFile instead'
+    );
+  });
+
+  it('should validate trailing fields after the message array', async () => {
+    const json = JSON.stringify({
+      ...header,
+      messages,
+      in_context_message_indices: [0, 99],
+    });
+    const stream = await parseAgentFileStream(Readable.from([json]));
+
+    await expect(collect(stream.messages)).rejects.toThrowError(AgentFileParseError);
+  });
+
+  it('should merge valid trailing fields into the header', async () => {
+    const json = JSON.stringify({ ...header, messages, tags: ['streamed'] });
+    const stream = await parseAgentFileStream(Readable.from([json]));
+
+    await collect(stream.messages);
+    expect(stream.header.tags).toEqual(['streamed']);
+  });
+
+  it('should report malformed JSON with an offset', async () => {
+    const source = Readable.from(['{"agent_type": "letta",, }']);
+    await expect(parseAgentFileStream(source)).rejects.toThrowError(/offset 23/);
+  });
+
+  it('should enforce maxValueLength per message', async () => {
+    const large = [{ ...messages[0], text: 'x'.repeat(1000) }];
+    const json = JSON.stringify({ ...header, messages: large });
+    const stream = await parseAgentFileStream(Readable.from(toChunks(json, 64)), {
+      maxValueLength: 500,
+    });
+
+    await expect(collect(stream.messages)).rejects.toThrowError(/too large/);
+  });
+
+  it('should enforce maxSize on the total stream', async () => {
+    const json = JSON.stringify({ ...header, messages });
+    await expect(
+      parseAgentFileStream(Readable.from(toChunks(json, 64)), { maxSize: 100 })
+    ).rejects.toThrowError(/too large/);
+  });
+
+  it('should default maxSize to the parseAgentFile limit', async () => {
+    const padding = new TextEncoder().encode(' '.repeat(1024 * 1024));
+    async function* oversized() {
+      for (let i = 0; i <= 50; i++) {
+        yield padding;
+      }
+    }
+    await expect(parseAgentFileStream(oversized())).rejects.toThrowError(
+      'Agent file too large: exceeds 52428800 bytes'
+    );
+  });
+
+  it('should reject options that need the whole message history', async () => {
+    const json = JSON.stringify({ ...header, messages });
+    await expect(
+      parseAgentFileStream(Readable.from([json]), { checkIntegrity: true })
+    ).rejects.toThrowError(/integrity cannot be checked while streaming/);
+  });
+
+  it('should reject files that need migrating unless migration is disabled', async () => {
+    const migrations: AfMigration[] = [
+      {
+        from: '0.0.1',
+        to: '0.1.0',
+        description: 'Rename system_prompt to system',
+        up: ({ system_prompt, ...data }) => ({ ...data, system: system_prompt }),
+      },
+    ];
+    const json = JSON.stringify({ ...header, version: '0.0.1', messages });
+
+    await expect(
+      parseAgentFileStream(Readable.from([json]), { migrations })
+    ).rejects.toThrowError(
+      'Agent file version 0.0.1 must be migrated to 0.1.0, ' +
+        'which is not supported while streaming; use parseAgentFile instead'
+    );
+    const stream = await parseAgentFileStream(Readable.from([json]), {
+      migrations,
+      migrate: false,
+    });
+    expect(stream.header.version).toBe('0.0.1');
+    expect(await collect(stream.messages)).toEqual(messages);
+  });
+
+  it('should report unknown fields as messages are read', async () => {
+    const drifted = [{ ...messages[0], sender: 'bot' }, ...messages.slice(1)];
+    const json = JSON.stringify({ ...header, agent_id: 'abc', messages: drifted });
+    const stream = await parseAgentFileStream(Readable.from([json]));
+
+    await collect(stream.messages);
+    expect(stream.unknownFields.map((field) => field.path)).toEqual([
+      'agent_id',
+      'messages.0.sender',
+    ]);
+  });
+
+  it('should reject unknown message fields in strict mode', async () => {
+    const drifted = [...messages, { ...messages[0], sender: 'bot' }];
+    const json = JSON.stringify({ ...header, messages: drifted });
+    const stream = await parseAgentFileStream(Readable.from([json]), { strict: true });
+
+    await expect(collect(stream.messages)).rejects.toThrowError(/unknown fields/);
+  });
+});
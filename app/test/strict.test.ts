@@ -0,0 +1,132 @@
+/**
+ * @fileoverview Tests for unknown field detection and strict parsing
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { findUnknownFields } from '../src/strict';
+import {
+  parseAgentFile,
+  parseAgentFileWithReport,
+  parseAgentFileObject,
+  AgentFileParseError,
+} from '../src/parser';
+
+const completeAgent = JSON.parse(
+  readFileSync(join(__dirname, 'fixtures', 'valid-complete.af'), 'utf-8')
+);
+
+const validAgent = {
+  agent_type: 'letta',
+  name: 'Strict Agent',
+  system: 'You are a helpful assistant.',
+  llm_config: { provider: 'openai', model: 'gpt-4' },
+  core_memory: {
+    persona: { label: 'persona', value: 'I am helpful.' },
+    human: { label: 'human', value: 'The user is curious.' },
+  },
+  messages: [
+    {
+      id: 'msg_001',
+      role: 'assistant',
+      text: 'Checking.',
+      timestamp: '2024-01-01T00:00:00Z',
+      tool_calls: [{ id: 'call_001', name: 'lookup', arguments: {} }],
+    },
+  ],
+  tools: [
+    {
+      name: 'lookup',
+      description: 'Look something up',
+      type: 'json_schema',
+      parameters: { type: 'object', properties: {} },
+    },
+  ],
+  tool_rules: [{ tool_name: 'lookup', rule_type: 'limit', rule_content: 'max: 1' }],
+  version: '0.1.0',
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+};
+
+describe('findUnknownFields', () => {
+  it('should return an empty list for a conforming agent', () => {
+    expect(findUnknownFields(validAgent)).toEqual([]);
+  });
+
+  it('should report unknown keys in the complete fixture', () => {
+    const paths = findUnknownFields(completeAgent).map((field) => field.path);
+
+    expect(paths).toContain('agent_id');
+    expect(paths).toContain('metadata');
+    expect(paths).toContain('embedding_config.dim');
+    // `limit` is the legacy alias of `character_limit`
+    expect(paths).not.toContain('core_memory.persona.limit');
+    expect(paths).not.toContain('core_memory.custom_context.limit');
+  });
+
+  it('should report unknown keys at every nesting level', () => {
+    const drifted = {
+      ...validAgent,
+      llm_config: { ...validAgent.llm_config, context_window: 8192 },
+      messages: [
+        {
+          ...validAgent.messages[0],
+          sender: 'bot',
+          tool_calls: [{ ...validAgent.messages[0].tool_calls[0], extra: true }],
+        },
+      ],
+      tools: [{ ...validAgent.tools[0], tags: ['x'] }],
+      tool_rules: [{ ...validAgent.tool_rules[0], priority: 1 }],
+    };
+
+    expect(findUnknownFields(drifted)).toEqual([
+      { path: 'llm_config.context_window', key: 'context_window' },
+      { path: 'messages.0.sender', key: 'sender' },
+      { path: 'messages.0.tool_calls.0.extra', key: 'extra' },
+      { path: 'tools.0.tags', key: 'tags' },
+      { path: 'tool_rules.0.priority', key: 'priority' },
+    ]);
+  });
+
+  it('should not inspect free-form metadata', () => {
+    const withMetadata = {
+      ...validAgent,
+      metadata_: { anything: 'goes' },
+      tool_exec_environment_variables: { API_URL: 'https://example.com' },
+    };
+    expect(findUnknownFields(withMetadata)).toEqual([]);
+  });
+});
+
+describe('strict parsing', () => {
+  const drifted = { ...validAgent, agent_id: 'abc' };
+
+  it('should ignore unknown fields by default', () => {
+    const agent = parseAgentFile(JSON.stringify(drifted));
+    expect(agent).not.toHaveProperty('agent_id');
+  });
+
+  it('should reject unknown fields in strict mode', () => {
+    try {
+      parseAgentFileObject(drifted, { strict: true });
+      expect.fail('Expected strict parse to throw');
+    } catch (error) {
+      expect(error).toBeInstanceOf(AgentFileParseError);
+      expect((error as AgentFileParseError).validationErrors).toEqual([
+        { path: 'agent_id', message: 'Unrecognized key "agent_id"', code: 'unrecognized_keys' },
+      ]);
+    }
+  });
+
+  it('should not flag fields added by auto-fix', () => {
+    const { core_memory, ...withoutMemory } = validAgent;
+    expect(() => parseAgentFileObject(withoutMemory, { strict: true })).not.toThrow();
+  });
+
+  it('should report unknown fields without failing', () => {
+    const { data, report } = parseAgentFileWithReport(JSON.stringify(drifted));
+    expect(data.name).toBe('Strict Agent');
+    expect(report.unknownFields).toEqual([{ path: 'agent_id', key: 'agent_id' }]);
+  });
+});
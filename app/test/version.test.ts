@@ -0,0 +1,144 @@
+/**
+ * @fileoverview Tests for format version helpers
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseVersion, compareVersions, checkVersionCompatibility } from '../src/version';
+import { AgentFileParseError, parseAgentFile, parseAgentFileWithReport } from '../src/parser';
+import { parseAgentFileStream } from '../src/stream';
+
+const agent = {
+  agent_type: 'letta',
+  name: 'Versioned Agent',
+  system: 'You are a helpful assistant.',
+  llm_config: { provider: 'openai', model: 'gpt-4' },
+  core_memory: {
+    persona: { label: 'persona', value: 'I am helpful.' },
+    human: { label: 'human', value: 'The user is curious.' },
+  },
+  messages: [],
+  tools: [],
+  version: '0.1.0',
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+};
+
+const withVersion = (version: unknown) => JSON.stringify({ ...agent, version });
+
+describe('parseVersion', () => {
+  it('should parse semantic versions', () => {
+    expect(parseVersion('1.2.3')).toEqual({ major: 1, minor: 2, patch: 3, prerelease: [] });
+    expect(parseVersion('1.0.0-beta.2+build.5')).toEqual({
+      major: 1,
+      minor: 0,
+      patch: 0,
+      prerelease: ['beta', '2'],
+    });
+  });
+
+  it('should reject invalid versions', () => {
+    expect(parseVersion('1.0')).toBeNull();
+    expect(parseVersion('01.0.0')).toBeNull();
+    expect(parseVersion('latest')).toBeNull();
+  });
+});
+
+describe('compareVersions', () => {
+  it('should order by semver precedence', () => {
+    const ordered = [
+      '0.1.0',
+      '0.10.0',
+      '1.0.0-alpha',
+      '1.0.0-alpha.1',
+      '1.0.0-alpha.beta',
+      '1.0.0-beta.2',
+      '1.0.0-beta.11',
+      '1.0.0',
+    ];
+    for (let i = 1; i < ordered.length; i++) {
+      expect(compareVersions(ordered[i - 1], ordered[i])).toBe(-1);
+      expect(compareVersions(ordered[i], ordered[i - 1])).toBe(1);
+    }
+  });
+
+  it('should ignore build metadata', () => {
+    expect(compareVersions('1.0.0+a', '1.0.0+b')).toBe(0);
+  });
+
+  it('should throw on invalid versions', () => {
+    expect(() => compareVersions('1.0.0', 'x')).toThrowError(/Invalid semantic version: x/);
+  });
+});
+
+describe('checkVersionCompatibility', () => {
+  it('should classify versions against the supported version', () => {
+    const status = (version: unknown) => checkVersionCompatibility(version, 'reject', '1.2.3');
+    expect(status('1.2.3')).toMatchObject({ status: 'current', severity: 'none' });
+    expect(status('0.9.0')).toMatchObject({ status: 'older', severity: 'none' });
+    expect(status('1.2.4')).toMatchObject({ status: 'newer_patch', severity: 'none' });
+    expect(status('1.3.0')).toMatchObject({ status: 'newer_minor', severity: 'warning' });
+    expect(status('2.0.0')).toMatchObject({ status: 'newer_major', severity: 'error' });
+    expect(status('2.0')).toMatchObject({ status: 'invalid', severity: 'error' });
+    expect(status(undefined)).toMatchObject({ status: 'missing', severity: 'none' });
+  });
+
+  it('should treat newer minor versions before 1.0.0 as breaking', () => {
+    const status = (version: string) => checkVersionCompatibility(version, 'reject', '0.1.0');
+    expect(status('0.1.5')).toMatchObject({ status: 'newer_patch', severity: 'none' });
+    expect(status('0.2.0')).toMatchObject({ status: 'newer_minor', severity: 'error' });
+    expect(status('0.2.0').message).toMatch(/minor versions before 1.0.0 may be breaking/);
+  });
+
+  it('should apply the policy to the severity', () => {
+    expect(checkVersionCompatibility('9.0.0', 'warn')).toMatchObject({
+      fileVersion: '9.0.0',
+      supportedVersion: '0.1.0',
+      status: 'newer_major',
+      policy: 'warn',
+      severity: 'warning',
+    });
+    expect(checkVersionCompatibility('9.0.0', 'ignore')).toEqual({
+      fileVersion: '9.0.0',
+      supportedVersion: '0.1.0',
+      status: 'newer_major',
+      policy: 'ignore',
+      severity: 'none',
+      message: undefined,
+    });
+  });
+});
+
+describe('version gate', () => {
+  it('should only warn by default, including for versions that are not semver', () => {
+    for (const version of ['9.0.0', '0.2.0', '1.0', 'latest']) {
+      const { data, report } = parseAgentFileWithReport(withVersion(version));
+      expect(data.version).toBe(version);
+      expect(report.versionCompatibility.severity).toBe('warning');
+    }
+  });
+
+  it('should reject breaking and invalid versions under the reject policy', () => {
+    const reject = { versionPolicy: 'reject' } as const;
+    expect(() => parseAgentFile(withVersion('0.2.0'), reject)).toThrowError(AgentFileParseError);
+    expect(() => parseAgentFile(withVersion('1.0'), reject)).toThrowError(AgentFileParseError);
+    try {
+      parseAgentFile(withVersion('9.0.0'), reject);
+    } catch (error) {
+      const [issue] = (error as AgentFileParseError).validationErrors!;
+      expect(issue).toMatchObject({ path: 'version', code: 'unsupported_version' });
+      expect(issue.line).toBeGreaterThan(0);
+    }
+  });
+
+  it('should let the policy silence version checks', () => {
+    expect(parseAgentFile(withVersion('9.0.0'), { versionPolicy: 'ignore' }).version).toBe('9.0.0');
+  });
+
+  it('should gate streamed files too', async () => {
+    await expect(
+      parseAgentFileStream([withVersion('9.0.0')], { versionPolicy: 'reject' })
+    ).rejects.toThrowError(/Unsupported agent file version/);
+    const stream = await parseAgentFileStream([withVersion('0.1.0')]);
+    expect(stream.versionCompatibility.status).toBe('current');
+  });
+});